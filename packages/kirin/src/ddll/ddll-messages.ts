@@ -3,13 +3,14 @@ import {
     Logger,
     Manager,
     Message,
+    MessagePriority,
+    MessageSpec,
     Path,
     ReplyMessage,
     RequestMessage,
     RequestMessageSpec,
     RetriableError,
     serializable,
-    sleep,
 } from "@web-overlay/manager";
 import { DdllNode, DdllRejectReasons, LinkSeq, Status } from "./ddll";
 import { override } from "core-decorators";
@@ -88,7 +89,7 @@ export class ForwardToPredecessor
                 DdllNode.getLogger(manager, this.ddll).debug(
                     "ForwardToPredecessor: retry after 500msec!"
                 );
-                await sleep(500);
+                await manager.cleaner.delay(manager, 500);
                 // XXX: we have to prevent infinite loop
                 const freq = new ForwardToPredecessor(
                     manager,
@@ -404,6 +405,7 @@ export class SetRJoin extends RequestMessage<SetRJoin, SetRJoinReply>
     public getSpec(): RequestMessageSpec {
         return {
             replyClassName: SetRJoinReply.name,
+            priority: MessagePriority.CONTROL,
         };
     }
 
@@ -456,6 +458,10 @@ export class SetRJoinReply extends ReplyMessage<SetRJoin, SetRJoinReply>
         }
     }
 
+    public getSpec(): MessageSpec {
+        return { noAck: true, priority: MessagePriority.CONTROL };
+    }
+
     public onReceive(): void {
         showOnReceive(this);
         super.onReceive();
@@ -477,7 +483,10 @@ export class SetRLeave extends RequestMessage<SetRLeave, SetRLeaveReply>
 
     @override
     public getSpec(): RequestMessageSpec {
-        return { replyClassName: SetRLeaveReply.name };
+        return {
+            replyClassName: SetRLeaveReply.name,
+            priority: MessagePriority.CONTROL,
+        };
     }
 
     public onReceive(): void {
@@ -565,6 +574,10 @@ export class SetRLeaveReply extends ReplyMessage<SetRLeave, SetRLeaveReply>
         }
     }
 
+    public getSpec(): MessageSpec {
+        return { noAck: true, priority: MessagePriority.CONTROL };
+    }
+
     public onReceive(): void {
         showOnReceive(this);
         super.onReceive();
@@ -578,6 +591,10 @@ export class SetL extends Message {
         super(manager);
     }
 
+    public getSpec(): MessageSpec {
+        return { priority: MessagePriority.CONTROL };
+    }
+
     public onReceive(): void {
         const { name, manager, ddll, logger } = prologue(this);
         if (!ddll) {
@@ -678,7 +695,7 @@ export class Ping extends RequestMessage<Ping, Pong> implements DdllMessage {
 
     @override
     public getSpec(): RequestMessageSpec {
-        return { replyClassName: Pong.name };
+        return { replyClassName: Pong.name, priority: MessagePriority.CONTROL };
     }
 
     public onReceive(): void {
@@ -708,6 +725,10 @@ export class Pong extends ReplyMessage<Ping, Pong> implements DdllMessage {
         super(req);
     }
 
+    public getSpec(): MessageSpec {
+        return { noAck: true, priority: MessagePriority.CONTROL };
+    }
+
     public onReceive(): void {
         showOnReceive(this);
         super.onReceive();
@@ -725,7 +746,10 @@ export class GetRight extends RequestMessage<GetRight, GetRightReply>
 
     @override
     public getSpec(): RequestMessageSpec {
-        return { replyClassName: GetRightReply.name };
+        return {
+            replyClassName: GetRightReply.name,
+            priority: MessagePriority.CONTROL,
+        };
     }
 
     public onReceive(): void {
@@ -741,6 +765,10 @@ export class GetRightReply extends ReplyMessage<GetRight, GetRightReply> {
     constructor(req: GetRight, public key: string) {
         super(req);
     }
+
+    public getSpec(): MessageSpec {
+        return { noAck: true, priority: MessagePriority.CONTROL };
+    }
     public onReceive(): void {
         showOnReceive(this);
         super.onReceive();
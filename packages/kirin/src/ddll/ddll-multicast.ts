@@ -1,4 +1,5 @@
 import {
+    ArrayUtils,
     CircularSpace,
     EndOfReply,
     Gaps,
@@ -130,6 +131,11 @@ export class RQRequest<
     @transient protected replyValue: U | null | undefined;
     @transient private finished = false;
     @transient private onceFlushed = false;
+    // the requests forwarded to child nodes
+    @transient private children: {
+        child: RQRequest<T, U>;
+        pc: PeerConnection;
+    }[] = [];
     constructor(
         ddll: DdllNode,
         public minKey: string,
@@ -149,7 +155,7 @@ export class RQRequest<
     }
 
     public startMulticast(ddll: DdllNode): void {
-        this.startTime = Date.now();
+        this.startTime = this.manager.clock.now();
         this.getSpec = (): RequestMessageSpec => {
             return {
                 replyClassName: RQReply.name,
@@ -189,6 +195,11 @@ export class RQRequest<
         // this.payload.initFromContainer(this);
         this.payload.afterRestore(this.manager);
         this.storedRanges = [];
+        this.children = [];
+        if (!this.isRequestingNode) {
+            // the parent node has canceled the multicast
+            this.onCancel(() => this.cancel());
+        }
 
         /*
          * Algorithm overview:
@@ -368,11 +379,28 @@ export class RQRequest<
                         this.ddll.logger.debug("got %s", reply);
                     }
                 });
+                const ent = { child: child, pc: frag.pc };
+                this.children.push(ent);
+                child.cleaner.push(() => ArrayUtils.remove(this.children, ent));
                 frag.pc.send(child);
             }
         });
     }
 
+    /**
+     * Cancel the multicast in the subtree rooted at this node.
+     * The child nodes are notified and no more replies are sent.
+     */
+    public cancel(): void {
+        if (this.finished) {
+            return;
+        }
+        this.finished = true;
+        this.ddll.logger.debug("%s.cancel: %s", this.constructor.name, this);
+        [...this.children].forEach(({ child, pc }) => child.abort(pc));
+        this.destroy();
+    }
+
     public _addReply(reply: RQReply<T, U>): void {
         this.ddll.logger.debug(
             "%s._addReply: %s",
@@ -423,7 +451,7 @@ export class RQRequest<
             this.finished = true;
             this.payload._gotReply(notification);
             this.destroy();
-            const elapsed = Date.now() - this.startTime!;
+            const elapsed = this.manager.clock.now() - this.startTime!;
             this.ddll.logger.debug("multicast finished: time=%d", elapsed);
         }
     }
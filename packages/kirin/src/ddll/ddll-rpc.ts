@@ -0,0 +1,147 @@
+import {
+    EndOfReply,
+    Manager,
+    RemoteError,
+    RequestMessageSpec,
+    RpcMethodNames,
+    RpcUnpromise,
+    RpcUtils,
+    serializable,
+} from "@web-overlay/manager";
+import { override } from "core-decorators";
+import { MulticastReply, MulticastRequest } from "./ddll-multicast";
+
+/*
+ * RPC services over multicast (see rpc.ts in the manager package).
+ *
+ * DdllNode.createMulticastRpcClient() returns a client proxy whose methods
+ * call the service on every node in a key range.  A call is sent as
+ * RpcMulticastRequest, and the results from the nodes are reduced into
+ * one array of RpcMulticastResult.
+ */
+
+/**
+ * the result of a multicast RPC call at a node.
+ */
+export interface RpcMulticastResult<R> {
+    // the key of the node
+    key: string;
+    value?: R;
+    error?: Error;
+}
+
+/**
+ * the type of a client proxy of service S over multicast.  each method
+ * returns a promise of the results from the nodes.
+ */
+export type RpcMulticastClient<S> = {
+    [K in RpcMethodNames<S>]: S[K] extends (...args: infer A) => infer R
+        ? (...args: A) => Promise<RpcMulticastResult<RpcUnpromise<R>>[]>
+        : never;
+};
+
+@serializable
+export class RpcMulticastRequest extends MulticastRequest<
+    RpcMulticastRequest,
+    RpcMulticastReply
+> {
+    constructor(
+        manager: Manager,
+        public readonly service: string,
+        public readonly method: string,
+        public readonly args: unknown[]
+    ) {
+        super(manager);
+    }
+
+    @override
+    public getSpec(): RequestMessageSpec {
+        return {
+            ...super.getSpec(),
+            replyClassName: RpcMulticastReply.name,
+        };
+    }
+
+    public toString(): string {
+        return `<RpcMulticastRequest msgId=${this.msgId}, ${this.service}.${this.method}>`;
+    }
+
+    public onReceive(): void {
+        const key = this.peerConnection?.getLocalKey() || "";
+        RpcUtils.invoke(this, this.service, this.method, this.args)
+            .then((value) => {
+                RpcUtils.checkSerializable(value);
+                this.sendReply(
+                    new RpcMulticastReply(this, [{ key: key, value: value }])
+                );
+            })
+            .catch((err) => {
+                // the method failed or the result cannot be sent
+                try {
+                    this.sendReply(
+                        new RpcMulticastReply(this, [
+                            { key: key, error: RpcUtils.toRemoteError(err) },
+                        ])
+                    );
+                } catch (err2) {
+                    this.manager.mgrLogger.info(
+                        "RpcMulticastRequest: cannot send a reply: %s",
+                        err2
+                    );
+                }
+            });
+    }
+
+    public reduce(
+        a: RpcMulticastReply,
+        b: RpcMulticastReply
+    ): RpcMulticastReply {
+        return new RpcMulticastReply(this, a.results.concat(b.results));
+    }
+
+    /**
+     * multicast this request and collect the results.
+     *
+     * @param multicast  sends this request (DdllNode.multicast)
+     */
+    public collect(
+        multicast: (req: RpcMulticastRequest) => void
+    ): Promise<RpcMulticastResult<unknown>[]> {
+        return new Promise((resolve, reject) => {
+            const results: RpcMulticastResult<unknown>[] = [];
+            this.onReply((reply) => {
+                if (reply instanceof EndOfReply) {
+                    resolve(results);
+                } else if (reply instanceof Error) {
+                    reject(reply);
+                } else {
+                    reply.results.forEach((r) =>
+                        results.push({
+                            key: r.key,
+                            value: r.value,
+                            error: r.error?.error(),
+                        })
+                    );
+                }
+            });
+            multicast(this);
+        });
+    }
+}
+
+@serializable
+export class RpcMulticastReply extends MulticastReply<
+    RpcMulticastRequest,
+    RpcMulticastReply
+> {
+    constructor(
+        req: RpcMulticastRequest,
+        public readonly results: {
+            key: string;
+            value?: unknown;
+            error?: RemoteError;
+        }[]
+    ) {
+        super(req);
+    }
+}
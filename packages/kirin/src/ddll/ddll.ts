@@ -7,12 +7,14 @@
  */
 
 import {
+    AbortError,
     Callbacks,
     CircularSpace,
     Cleanable,
     Cleaner,
     Deferred,
     DisconnectedError,
+    EndOfReply,
     Gaps,
     Logger,
     Manager,
@@ -22,8 +24,12 @@ import {
     RejectionError,
     ReplyMessage,
     ReplyTimeoutError,
+    RequestCancelNotify,
     RequestMessage,
     RetriableError,
+    RpcClient,
+    RpcRequest,
+    RpcUtils,
     serializable,
     SerializeUtils,
     StreamingReplyHandler,
@@ -43,6 +49,7 @@ import {
     Unicast,
 } from "./ddll-messages";
 import { MulticastReply, MulticastRequest, RQRequest } from "./ddll-multicast";
+import { RpcMulticastClient, RpcMulticastRequest } from "./ddll-rpc";
 
 // DDLL node status
 export enum Status {
@@ -268,7 +275,7 @@ export class DdllNode implements Cleanable {
         this.status = Status.IN;
         this.pSuccessors.push(this.getKey());
         this.initAfterJoin();
-        this._joinTime = Date.now();
+        this._joinTime = this.manager.clock.now();
         return Promise.resolve();
     }
 
@@ -316,7 +323,7 @@ export class DdllNode implements Cleanable {
         this.rseq = this.lseq = new LinkSeq(0, 0);
         try {
             await this.join1(introducer, false);
-            this._joinTime = Date.now();
+            this._joinTime = this.manager.clock.now();
             return;
         } catch (err) {
             this.logger.info("join0: join1 failed: %s", err);
@@ -342,7 +349,7 @@ export class DdllNode implements Cleanable {
         this.repairPromise = defer.promise;
         // a portal node can be singleton
         let allowSingleton = !!this.manager.getNodeSpec().serverUrl;
-        const start = Date.now();
+        const start = this.manager.clock.now();
         let attempts = 0;
         const loop = true;
         while (loop) {
@@ -373,7 +380,7 @@ export class DdllNode implements Cleanable {
                 this.logger.info(
                     'repair: RECOVERY COMPLETED: after %d attempt(s), took %d msec, %s, %s, %s (triggered by "%s")',
                     attempts,
-                    Date.now() - start,
+                    this.manager.clock.now() - start,
                     leftText,
                     rightText,
                     this,
@@ -686,7 +693,10 @@ export class DdllNode implements Cleanable {
             this.logger.info("leave0: wait for repair completion");
             const MAX_RECOVERY_WAIT_TIME = 10000;
             const timeout = new Promise((resolve, _) =>
-                setTimeout(() => resolve("timeout"), MAX_RECOVERY_WAIT_TIME)
+                this.manager.clock.setTimeout(
+                    () => resolve("timeout"),
+                    MAX_RECOVERY_WAIT_TIME
+                )
             );
             try {
                 const result = await Promise.race([
@@ -893,34 +903,67 @@ export class DdllNode implements Cleanable {
         this.self.send(new Unicast(this.manager, destKey, msg));
     }
 
+    /**
+     * send a request to a specified node and wait for the reply.
+     * the receiving node satisfies (destKey ∈ [localKey, rightKey)).
+     *
+     * if `signal` is aborted, the returned promise is rejected with
+     * AbortError and RequestCancelNotify is sent to the receiving node,
+     * where the handler registered by msg.onCancel() is called.
+     *
+     * @param destKey
+     * @param msg
+     * @param signal
+     */
     public async unicastRequest<
         T extends RequestMessage<T, U>,
         U extends ReplyMessage<T, U>
-    >(destKey: string, msg: RequestMessage<T, U>): Promise<U> {
+    >(
+        destKey: string,
+        msg: RequestMessage<T, U>,
+        signal?: AbortSignal
+    ): Promise<U> {
         if (!SerializeUtils.isSerializable(msg)) {
             throw new Error("message is not @serializable");
         }
         this.logger.debug("unicastRequest: payload=%s", msg);
-        const MAX_ITER = 10;
-        let lastError;
-        for (let i = 0; i < MAX_ITER; i++) {
-            this.logger.debug("unicastRequest: iteration %d", i);
-            msg.piggybacked();
+        const onAbort = (): void => {
             try {
-                const req = new Unicast(this.manager, destKey, msg);
-                return await msg.request(this.self, req);
+                this.unicast(
+                    destKey,
+                    new RequestCancelNotify(this.manager, msg.getMsgId())
+                );
             } catch (err) {
-                this.logger.debug("unicastRequest: got %s", err);
-                lastError = err;
-                if (
-                    !(
-                        err instanceof ReplyTimeoutError ||
-                        err instanceof DisconnectedError
-                    )
-                ) {
-                    throw err;
+                this.logger.info("unicastRequest: cannot cancel: %s", err);
+            }
+        };
+        signal?.addEventListener("abort", onAbort);
+        const MAX_ITER = 10;
+        let lastError;
+        try {
+            for (let i = 0; i < MAX_ITER; i++) {
+                this.logger.debug("unicastRequest: iteration %d", i);
+                msg.piggybacked();
+                try {
+                    const req = new Unicast(this.manager, destKey, msg);
+                    return await msg.request(this.self, req, {
+                        signal: signal,
+                    });
+                } catch (err) {
+                    this.logger.debug("unicastRequest: got %s", err);
+                    lastError = err;
+                    if (
+                        !(
+                            err instanceof ReplyTimeoutError ||
+                            err instanceof DisconnectedError
+                        )
+                    ) {
+                        throw err;
+                    }
                 }
             }
+        } finally {
+            signal?.removeEventListener("abort", onAbort);
         }
         throw lastError;
     }
@@ -928,17 +971,29 @@ export class DdllNode implements Cleanable {
     /**
      * multicast a message in the range of [minKey, maxKey)
      *
+     * if `signal` is aborted, the reply handler receives AbortError and
+     * the propagation of the message is stopped.
+     *
      * @param {string} minKey
      * @param {string} maxKey
      * @param {Message} payload
+     * @param {AbortSignal} signal
      */
     public multicast<
         T extends MulticastRequest<T, U>,
         U extends MulticastReply<T, U>
-    >(minKey: string, maxKey: string, payload: MulticastRequest<T, U>): void {
+    >(
+        minKey: string,
+        maxKey: string,
+        payload: MulticastRequest<T, U>,
+        signal?: AbortSignal
+    ): void {
         if (!SerializeUtils.isSerializable(payload)) {
             throw new Error("message is not @serializable");
         }
+        if (signal?.aborted) {
+            throw new AbortError("multicast is aborted");
+        }
         this.logger.debug(
             "start multicast(minKey=%s, maxKey=%s)",
             minKey,
@@ -948,13 +1003,32 @@ export class DdllNode implements Cleanable {
         payload.from = minKey;
         payload.to = maxKey;
         payload.gaps = new Gaps(minKey, maxKey);
-        this.multicast0(minKey, maxKey, payload);
+        const userHandler = payload._onReply as
+            | StreamingReplyHandler<U>
+            | undefined;
+        if (signal && userHandler) {
+            const onAbort = (): void =>
+                userHandler(new AbortError("multicast is aborted"));
+            signal.addEventListener("abort", onAbort);
+            payload._onReply = (reply: U | EndOfReply | Error): void => {
+                if (reply instanceof EndOfReply || reply instanceof Error) {
+                    signal.removeEventListener("abort", onAbort);
+                }
+                userHandler(reply);
+            };
+        }
+        this.multicast0(minKey, maxKey, payload, signal);
     }
 
     private multicast0<
         T extends MulticastRequest<T, U>,
         U extends MulticastReply<T, U>
-    >(minKey: string, maxKey: string, payload: MulticastRequest<T, U>): void {
+    >(
+        minKey: string,
+        maxKey: string,
+        payload: MulticastRequest<T, U>,
+        signal?: AbortSignal
+    ): void {
         const userHandler:
             | StreamingReplyHandler<U>
             | undefined = payload._onReply as StreamingReplyHandler<U>;
@@ -969,6 +1043,9 @@ export class DdllNode implements Cleanable {
         copy.gaps = payload.gaps; // !!!
         copy.onReply((reply) => {
             this.logger.debug("multicast0: got %s for %s", reply, req);
+            if (signal?.aborted) {
+                return;
+            }
             if (
                 reply instanceof ReplyTimeoutError ||
                 reply instanceof DisconnectedError
@@ -976,7 +1053,7 @@ export class DdllNode implements Cleanable {
                 req.getIncompleteReplyRanges().forEach((range) => {
                     this.logger.debug("retransmit %s", range);
                     payload.numberOfRetransmission++;
-                    this.multicast0(range.from, range.to, payload);
+                    this.multicast0(range.from, range.to, payload, signal);
                 });
             } else {
                 userHandler(reply);
@@ -984,14 +1061,67 @@ export class DdllNode implements Cleanable {
         });
         const req = new RQRequest(this, minKey, maxKey, copy);
         this.logger.debug("multicast0: req=%s", req);
+        if (signal) {
+            const onAbort = (): void => req.cancel();
+            signal.addEventListener("abort", onAbort);
+            req.cleaner.push(() =>
+                signal.removeEventListener("abort", onAbort)
+            );
+        }
         req.startMulticast(this);
     }
 
+    /**
+     * create a client proxy of a service that is registered at the node
+     * responsible for destKey (see Manager.registerService).
+     *
+     * @param service
+     * @param destKey
+     * @param signal  aborts the calls
+     */
+    public createRpcClient<S>(
+        service: string,
+        destKey: string,
+        signal?: AbortSignal
+    ): RpcClient<S> {
+        return RpcUtils.createProxy<RpcClient<S>>(async (method, args) => {
+            const req = new RpcRequest(this.manager, service, method, args);
+            const reply = await this.unicastRequest(destKey, req, signal);
+            return reply.getResult();
+        });
+    }
+
+    /**
+     * create a client proxy of a service that calls the service on every
+     * node in the range of [minKey, maxKey).
+     *
+     * @param service
+     * @param minKey
+     * @param maxKey
+     * @param signal  aborts the calls
+     */
+    public createMulticastRpcClient<S>(
+        service: string,
+        minKey: string,
+        maxKey: string,
+        signal?: AbortSignal
+    ): RpcMulticastClient<S> {
+        return RpcUtils.createProxy<RpcMulticastClient<S>>((method, args) =>
+            new RpcMulticastRequest(
+                this.manager,
+                service,
+                method,
+                args
+            ).collect((req) => this.multicast(minKey, maxKey, req, signal))
+        );
+    }
+
     /**
      * Establish a PeerConnection with a node that is specified by a key.
      *
      * @param {string} destKey
      * @param {{exactKey?: boolean, webrtcOnly?: boolean}} constraint
+     * @param {AbortSignal} signal  aborts the connection attempt
      * @return {Promise<PeerConnection>}
      */
     public connect(
@@ -999,11 +1129,15 @@ export class DdllNode implements Cleanable {
         constraint: {
             exactKey?: boolean;
             webrtcOnly?: boolean;
-        }
+        },
+        signal?: AbortSignal
     ): Promise<PeerConnection> {
         if (constraint.webrtcOnly && !this.manager.getNodeSpec().webrtc) {
             throw new RejectionError(DdllRejectReasons.CONSTRAINT);
         }
+        if (signal?.aborted) {
+            throw new AbortError("connect is aborted");
+        }
         const msg = new KeyBasedCReq(
             this.manager,
             this.getKey(),
@@ -1011,6 +1145,13 @@ export class DdllNode implements Cleanable {
             constraint
         );
         this.self.send(msg);
+        if (signal) {
+            const onAbort = (): void => msg.abort();
+            signal.addEventListener("abort", onAbort);
+            msg.cleaner.push(() =>
+                signal.removeEventListener("abort", onAbort)
+            );
+        }
         return msg.getConnectPromise().then((pc) => {
             if (
                 constraint.webrtcOnly &&
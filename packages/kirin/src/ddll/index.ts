@@ -1,6 +1,7 @@
 export * from "./ddll";
 export * from "./ddll-messages";
 export * from "./ddll-multicast";
+export * from "./ddll-rpc";
 export * from "./dht";
 export * from "./pstore";
 // export * from "./pstore-fs";
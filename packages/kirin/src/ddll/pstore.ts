@@ -6,6 +6,8 @@ import {
     Logger,
     Manager,
     Message,
+    MessagePriority,
+    MessageSpec,
     RemoteError,
     ReplyMessage,
     RequestMessage,
@@ -168,9 +170,6 @@ export class RawPutReply extends ReplyMessage<RawPut, RawPutReply> {
 }
 export interface RawPutReply extends PSMessage {}
 
-// this is required for unknown reason
-serializable(RemoteError);
-
 @serializable
 export class RawGet extends RequestMessage<RawGet, RawGetReply> {
     constructor(
@@ -270,6 +269,10 @@ export class RawReplicate extends Message {
         super(manager);
     }
 
+    public getSpec(): MessageSpec {
+        return { priority: MessagePriority.BULK };
+    }
+
     public onReceive(): void {
         const { name, manager, pstore, logger } = prologue(this);
         if (!pstore) {
@@ -292,6 +295,10 @@ export class RawReplicate1 extends Message {
         super(manager);
     }
 
+    public getSpec(): MessageSpec {
+        return { priority: MessagePriority.BULK };
+    }
+
     public onReceive(): void {
         const { name, manager, pstore, logger } = prologue(this);
         if (!pstore) {
@@ -422,7 +429,7 @@ export function createPStoreClass(base: typeof DdllNode): typeof PStoreDdll {
             const opt: RemotePutOpt = {
                 type: type,
                 index: option.index ? option.index : 0,
-                expire: Math.floor(Date.now() / 1000 + retain),
+                expire: Math.floor(this.manager.clock.now() / 1000 + retain),
                 noOverwrite: option.noOverwrite ? true : undefined,
             };
             if (isSignedPut(option)) {
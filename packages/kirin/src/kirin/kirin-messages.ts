@@ -3,6 +3,8 @@ import {
     Logger,
     Manager,
     Message,
+    MessagePriority,
+    MessageSpec,
     serializable,
 } from "@web-overlay/manager";
 import { Direction, KirinNode, Passive2 } from "./kirin";
@@ -39,6 +41,10 @@ function prologue(
 // TODO: implement half-close in Manager?
 @serializable
 export class KirinPeerConnectionClose extends Message {
+    public getSpec(): MessageSpec {
+        return { priority: MessagePriority.CONTROL };
+    }
+
     public onReceive(): void {
         const { name, manager, kirin, logger } = prologue(this);
         if (!kirin) {
@@ -162,10 +162,12 @@ export abstract class TestBase implements Cleanable {
     }
 }
 
-export type TestRequestType = "normal" | "ignore";
+export type TestRequestType = "normal" | "ignore" | "cancelable";
 
 @serializable
 export class TestRequest extends RequestMessage<TestRequest, TestReply> {
+    // node IDs of the nodes where "cancelable" requests are canceled
+    static canceled = new Set<string>();
     constructor(manager: Manager, public type: TestRequestType) {
         super(manager);
     }
@@ -183,6 +185,11 @@ export class TestRequest extends RequestMessage<TestRequest, TestReply> {
                 break;
             case "ignore":
                 break;
+            case "cancelable":
+                this.onCancel(() =>
+                    TestRequest.canceled.add(this.manager.getNodeId())
+                );
+                break;
         }
     }
 }
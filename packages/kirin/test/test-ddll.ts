@@ -7,6 +7,7 @@ import {
     DdllRejectReasons,
 } from "..";
 import {
+    AbortError,
     CircularSpace,
     Cleaner,
     EndOfReply,
@@ -91,6 +92,24 @@ export class TestMulticastReply extends MulticastReply<
     }
 }
 
+class KeyService {
+    constructor(private readonly key: string) {}
+
+    public async echo(text: string): Promise<string> {
+        return this.key + ":" + text;
+    }
+
+    public async fail(): Promise<void> {
+        throw new Error("failed at " + this.key);
+    }
+
+    public async circular(): Promise<unknown> {
+        const obj: { self?: unknown } = {};
+        obj.self = obj;
+        return obj;
+    }
+}
+
 describe("DDLL", () => {
     beforeEach(() => {
         logger.info("before!");
@@ -190,6 +209,75 @@ describe("DDLL", () => {
         );
     }).timeout(10000);
 
+    it("unicastRequest is aborted", async () => {
+        const nodes = await prepareDDLL(5);
+        const req = new TestRequest(nodes[0].manager, "cancelable");
+        const controller = new AbortController();
+        const promise = nodes[0].unicastRequest(
+            nodes[3].getKey(),
+            req,
+            controller.signal
+        );
+        await sleep(100);
+        controller.abort();
+        await assert.rejects(promise, AbortError);
+        await sleep(100);
+        assert(TestRequest.canceled.has(nodes[3].manager.getNodeId()));
+    });
+
+    it("multicast is aborted", async () => {
+        const nodes = await prepareDDLL(5);
+        const req = new TestMulticastRequest(nodes[0].manager, "probe");
+        const controller = new AbortController();
+        const notifications: unknown[] = [];
+        req.onReply((rep) => {
+            if (rep instanceof EndOfReply || rep instanceof Error) {
+                notifications.push(rep);
+            }
+        });
+        nodes[0].multicast("00", "00", req, controller.signal);
+        controller.abort();
+        await sleep(1000);
+        assert.strictEqual(notifications.length, 1);
+        assert(notifications[0] instanceof AbortError);
+    });
+
+    it("RPC over unicastRequest and multicast", async () => {
+        const nodes = await prepareDDLL(5);
+        nodes.forEach((node) =>
+            node.manager.registerService(
+                node.getKey(),
+                "key",
+                new KeyService(node.getKey())
+            )
+        );
+        const key3 = nodes[3].getKey();
+        const client = nodes[0].createRpcClient<KeyService>("key", key3);
+        assert.strictEqual(await client.echo("x"), key3 + ":x");
+        await assert.rejects(client.fail(), { message: "failed at " + key3 });
+        const mc = nodes[0].createMulticastRpcClient<KeyService>(
+            "key",
+            nodes[1].getKey(),
+            nodes[4].getKey()
+        );
+        const results = await mc.echo("y");
+        assert.deepStrictEqual(
+            results.map((r) => r.value).sort(),
+            [1, 2, 3].map((i) => nodes[i].getKey() + ":y")
+        );
+        const errors = await mc.fail();
+        assert.deepStrictEqual(
+            errors.map((r) => r.error?.message).sort(),
+            [1, 2, 3].map((i) => "failed at " + nodes[i].getKey())
+        );
+        // results that cannot be serialized are reported as errors
+        const unsent = await mc.circular();
+        assert.strictEqual(unsent.length, 3);
+        assert(
+            unsent.every((r) => /circular structure/.test(r.error!.message))
+        );
+    });
+
     it("multicast succeeds", async () => {
         const num = 10;
         const nodes = await prepareDDLL(num, false, true);
@@ -0,0 +1,53 @@
+// minimal declarations for "ws" (https://github.com/websockets/ws)
+declare module "ws" {
+    import { EventEmitter } from "events";
+    import * as http from "http";
+    import * as net from "net";
+
+    class WebSocket extends EventEmitter {
+        static readonly CONNECTING: number;
+        static readonly OPEN: number;
+        static readonly CLOSING: number;
+        static readonly CLOSED: number;
+        constructor(address: string, options?: WebSocket.ClientOptions);
+        binaryType: "nodebuffer" | "arraybuffer" | "fragments";
+        readonly bufferedAmount: number;
+        readonly readyState: number;
+        send(
+            data: string | Buffer | ArrayBuffer | ArrayBufferView,
+            cb?: (err?: Error) => void
+        ): void;
+        close(code?: number, reason?: string): void;
+        terminate(): void;
+    }
+
+    namespace WebSocket {
+        interface ClientOptions {
+            headers?: { [key: string]: string };
+            maxPayload?: number;
+            perMessageDeflate?: boolean;
+            [key: string]: unknown;
+        }
+
+        interface ServerOptions {
+            server?: http.Server;
+            noServer?: boolean;
+            path?: string;
+            maxPayload?: number;
+        }
+
+        class Server extends EventEmitter {
+            constructor(options: ServerOptions, callback?: () => void);
+            readonly clients: Set<WebSocket>;
+            close(cb?: (err?: Error) => void): void;
+            handleUpgrade(
+                request: http.IncomingMessage,
+                socket: net.Socket,
+                head: Buffer,
+                callback: (client: WebSocket) => void
+            ): void;
+        }
+    }
+
+    export = WebSocket;
+}
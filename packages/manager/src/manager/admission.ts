@@ -0,0 +1,256 @@
+import b64 = require("base64-js");
+import { Clock } from "./clock";
+import { decodeUtf8, encodeUtf8 } from "./codec";
+import { Config } from "./config";
+import { AuthRole, IdentityUtils, NodeIdentity } from "./identity";
+import { ManagerRejectReasons } from "./manager";
+
+/*
+ * Admission control.
+ *
+ * A node that accepts Hello admits the sender to the network only if the
+ * sender proves either of:
+ * - the knowledge of the pre-shared key (NETWORK_KEY), by an HMAC of the
+ *   challenge in HelloReply, or
+ * - an invite token issued by one of INVITE_ISSUERS.
+ *
+ * The accepting node proves the knowledge of NETWORK_KEY to the sender in
+ * HelloAuthReply, i.e., only after the sender is admitted.  The HMAC covers
+ * the role of the prover, so that a proof cannot be reflected back to the
+ * node that gave the challenge.
+ *
+ * An invite token is "<payload>.<signature>" where both parts are base64
+ * strings.  The payload is a JSON of InviteTokenPayload, signed by the
+ * NodeIdentity of the issuer.
+ */
+
+/**
+ * A proof of the membership of a network, sent in HelloAuth.
+ */
+export interface AdmissionProof {
+    // HMAC of the challenge with NETWORK_KEY
+    mac?: Uint8Array;
+    inviteToken?: string;
+}
+
+interface InviteTokenPayload {
+    type: "invite";
+    networkId: string | undefined;
+    // the NodeID of the issuer
+    issuer: string;
+    // the public key of the issuer (base64 SPKI)
+    publicKey: string;
+    // expiration time (Clock.now() based)
+    expires: number;
+}
+
+export abstract class AdmissionUtils {
+    /**
+     * true if nodes have to prove the membership of the network.
+     */
+    public static isRequired(config: Config): boolean {
+        return !!config.NETWORK_KEY || config.INVITE_ISSUERS.length > 0;
+    }
+
+    public static computeMac(
+        key: string,
+        nonce: Uint8Array,
+        proverNodeId: string,
+        verifierNodeId: string,
+        role: AuthRole
+    ): Promise<Uint8Array> {
+        const prefix = encodeUtf8(
+            `web-overlay-admission\n${role}\n${proverNodeId}\n${verifierNodeId}\n`
+        );
+        const data = new Uint8Array(prefix.length + nonce.length);
+        data.set(prefix);
+        data.set(nonce, prefix.length);
+        return IdentityUtils.getCryptoProvider().hmac(encodeUtf8(key), data);
+    }
+
+    /**
+     * @return true if mac is the HMAC of the nonce with the key
+     */
+    public static async verifyMac(
+        key: string,
+        mac: Uint8Array | undefined,
+        nonce: Uint8Array,
+        proverNodeId: string,
+        verifierNodeId: string,
+        role: AuthRole
+    ): Promise<boolean> {
+        if (!(mac instanceof Uint8Array)) {
+            return false;
+        }
+        const expected = await AdmissionUtils.computeMac(
+            key,
+            nonce,
+            proverNodeId,
+            verifierNodeId,
+            role
+        );
+        return AdmissionUtils.equals(expected, mac);
+    }
+
+    /**
+     * create an AdmissionProof from NETWORK_KEY and INVITE_TOKEN.
+     *
+     * @param config
+     * @param nonce the challenge given by the verifier
+     * @param proverNodeId
+     * @param verifierNodeId
+     * @param role the role of the prover
+     */
+    public static async createProof(
+        config: Config,
+        nonce: Uint8Array,
+        proverNodeId: string,
+        verifierNodeId: string,
+        role: AuthRole
+    ): Promise<AdmissionProof> {
+        return {
+            mac: config.NETWORK_KEY
+                ? await AdmissionUtils.computeMac(
+                      config.NETWORK_KEY,
+                      nonce,
+                      proverNodeId,
+                      verifierNodeId,
+                      role
+                  )
+                : undefined,
+            inviteToken: config.INVITE_TOKEN,
+        };
+    }
+
+    /**
+     * verify an AdmissionProof.
+     *
+     * @param config the config of the verifier
+     * @param clock  the clock of the verifier
+     * @param proof
+     * @param nonce the challenge sent to the prover
+     * @param proverNodeId
+     * @param verifierNodeId
+     * @param role the role of the prover
+     * @return undefined if admitted, or a reason of rejection
+     *  (one of {@link ManagerRejectReasons}).
+     */
+    public static async verifyProof(
+        config: Config,
+        clock: Clock,
+        proof: AdmissionProof | undefined,
+        nonce: Uint8Array,
+        proverNodeId: string,
+        verifierNodeId: string,
+        role: AuthRole
+    ): Promise<string | undefined> {
+        if (!AdmissionUtils.isRequired(config)) {
+            return undefined;
+        }
+        const mac = proof?.mac;
+        const token = proof?.inviteToken;
+        if (
+            config.NETWORK_KEY &&
+            (await AdmissionUtils.verifyMac(
+                config.NETWORK_KEY,
+                mac,
+                nonce,
+                proverNodeId,
+                verifierNodeId,
+                role
+            ))
+        ) {
+            return undefined;
+        }
+        if (config.INVITE_ISSUERS.length > 0 && typeof token === "string") {
+            if (await AdmissionUtils.verifyInviteToken(config, clock, token)) {
+                return undefined;
+            }
+            return ManagerRejectReasons.INVALID_INVITE_TOKEN;
+        }
+        return mac
+            ? ManagerRejectReasons.INVALID_NETWORK_KEY
+            : ManagerRejectReasons.ADMISSION_REQUIRED;
+    }
+
+    /**
+     * issue an invite token.
+     *
+     * @param clock     the clock of the issuer
+     * @param identity  the identity of the issuer, whose NodeID must be in
+     *                  INVITE_ISSUERS of the verifiers
+     * @param networkId the network that the token admits to
+     * @param ttl       the lifetime of the token (msec)
+     */
+    public static async issueInviteToken(
+        clock: Clock,
+        identity: NodeIdentity,
+        networkId: string | undefined,
+        ttl: number
+    ): Promise<string> {
+        const payload: InviteTokenPayload = {
+            type: "invite",
+            networkId: networkId,
+            issuer: identity.nodeId,
+            publicKey: b64.fromByteArray(identity.publicKey),
+            expires: clock.now() + ttl,
+        };
+        const bytes = encodeUtf8(JSON.stringify(payload));
+        const signature = await identity.sign(bytes);
+        return `${b64.fromByteArray(bytes)}.${b64.fromByteArray(signature)}`;
+    }
+
+    /**
+     * @return true if the token is issued by one of INVITE_ISSUERS for the
+     *  network and not expired.
+     */
+    public static async verifyInviteToken(
+        config: Config,
+        clock: Clock,
+        token: string
+    ): Promise<boolean> {
+        let bytes: Uint8Array;
+        let signature: Uint8Array;
+        let payload: InviteTokenPayload;
+        let publicKey: Uint8Array;
+        try {
+            const [p, s] = token.split(".");
+            bytes = b64.toByteArray(p);
+            signature = b64.toByteArray(s);
+            payload = JSON.parse(decodeUtf8(bytes));
+            publicKey = b64.toByteArray(payload.publicKey);
+        } catch (err) {
+            return false;
+        }
+        if (
+            payload?.type !== "invite" ||
+            payload.networkId !== config.NETWORK_ID ||
+            !(payload.expires > clock.now()) ||
+            !config.INVITE_ISSUERS.includes(payload.issuer)
+        ) {
+            return false;
+        }
+        if ((await IdentityUtils.computeNodeId(publicKey)) !== payload.issuer) {
+            return false;
+        }
+        return IdentityUtils.getCryptoProvider().verify(
+            publicKey,
+            bytes,
+            signature
+        );
+    }
+
+    /**
+     * compare two byte arrays in constant time.
+     */
+    public static equals(a: Uint8Array, b: Uint8Array): boolean {
+        if (a.length !== b.length) {
+            return false;
+        }
+        let diff = 0;
+        for (let i = 0; i < a.length; i++) {
+            diff |= a[i] ^ b[i];
+        }
+        return diff === 0;
+    }
+}
@@ -0,0 +1,116 @@
+import { CustomError } from "../utils";
+import { CodecUtils } from "./codec";
+
+/**
+ * The version of the wire protocol implemented by this build.
+ * Increment this when a message or frame format is added or changed.
+ *
+ * 1: capability negotiation
+ * 2: fragmented frames (see raw/fragment.ts)
+ * 3: NodeID verification on WebRTC connections (WebRTCAuth)
+ */
+export const PROTOCOL_VERSION = 3;
+
+/**
+ * The oldest protocol version that this build can talk to.
+ * Version 0 denotes builds that do not send any capabilities.
+ */
+export const MIN_PROTOCOL_VERSION = 0;
+
+/**
+ * The features that a node supports.  Exchanged in Hello/HelloReply and in
+ * ConnectionRequest/ConnectionReply (the WebRTC signaling path).
+ */
+export interface Capabilities {
+    version: number;
+    minVersion: number;
+    // wire codecs (see codec.ts)
+    codecs: string[];
+    // compression schemes
+    compression: string[];
+    // the digest of the @serializable class table (see MsgpackCodec)
+    classTable?: string;
+    // overlay applications (the names passed to Manager.registerApp())
+    apps: string[];
+}
+
+/**
+ * The features that both ends of a RawConnection support.
+ */
+export interface NegotiatedFeatures {
+    version: number;
+    // the codec used for outgoing messages
+    codec: string;
+    compression?: string;
+    // the digest of the class table if both ends have the same one
+    classTable?: string;
+    apps: string[];
+}
+
+/**
+ * The protocol versions of both ends do not overlap.
+ */
+export class IncompatibleProtocolError extends CustomError {}
+
+export abstract class CapabilityUtils {
+    // capabilities assumed for peers that do not send any
+    public static readonly LEGACY: Capabilities = {
+        version: 0,
+        minVersion: 0,
+        codecs: [CodecUtils.DEFAULT_CODEC],
+        compression: [],
+        apps: [],
+    };
+
+    public static isCompatible(
+        local: Capabilities,
+        remote: Capabilities | undefined
+    ): boolean {
+        remote = remote || CapabilityUtils.LEGACY;
+        return (
+            remote.version >= local.minVersion &&
+            local.version >= remote.minVersion
+        );
+    }
+
+    /**
+     * compute the features used on a connection.
+     *
+     * @param local  the capabilities of this node
+     * @param remote the capabilities of the remote node, or undefined if the
+     *               remote node is a legacy one.
+     * @param preferredCodec the codec to use if the remote node supports it
+     * @throws IncompatibleProtocolError
+     */
+    public static negotiate(
+        local: Capabilities,
+        remote: Capabilities | undefined,
+        preferredCodec: string
+    ): NegotiatedFeatures {
+        remote = remote || CapabilityUtils.LEGACY;
+        if (!CapabilityUtils.isCompatible(local, remote)) {
+            throw new IncompatibleProtocolError(
+                `incompatible protocol version: local=${local.version} (min=${local.minVersion}), remote=${remote.version} (min=${remote.minVersion})`
+            );
+        }
+        const codec =
+            local.codecs.includes(preferredCodec) &&
+            remote.codecs.includes(preferredCodec)
+                ? preferredCodec
+                : CodecUtils.DEFAULT_CODEC;
+        const compression = local.compression.find((c) =>
+            (remote!.compression || []).includes(c)
+        );
+        return {
+            version: Math.min(local.version, remote.version),
+            codec: codec,
+            compression: compression,
+            classTable:
+                local.classTable !== undefined &&
+                local.classTable === remote.classTable
+                    ? local.classTable
+                    : undefined,
+            apps: local.apps.filter((app) => remote!.apps.includes(app)),
+        };
+    }
+}
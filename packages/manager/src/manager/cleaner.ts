@@ -1,6 +1,7 @@
 import { Manager } from "./manager";
 import { ArrayUtils, Deferred } from "../utils";
 import { Logger } from "./logger";
+import { Clock, TimerHandle } from "./clock";
 
 export interface Cleanable {
     cleaner: Cleaner;
@@ -8,7 +9,7 @@ export interface Cleanable {
 }
 
 export class Cleaner {
-    private timers: Map<string, NodeJS.Timer> = new Map();
+    private timers = new Map<string, { clock: Clock; handle: TimerHandle }>();
     protected _cleaner: (() => void)[] = [];
     private cleaned = false;
     private logger: Logger;
@@ -51,9 +52,9 @@ export class Cleaner {
 
     public clean(): void {
         this.cleaned = true;
-        for (const [key, id] of this.timers.entries()) {
+        for (const [key, { clock, handle }] of this.timers.entries()) {
             this.timers.delete(key);
-            clearTimeout(id);
+            clock.clearTimer(handle);
         }
         let job;
         while ((job = this._cleaner.pop())) {
@@ -72,17 +73,18 @@ export class Cleaner {
             return;
         }
         if (delay > 0) {
-            const expectTime = Date.now() + delay;
-            const id = setTimeout(() => {
+            const clock = manager.clock;
+            const expectTime = clock.now() + delay;
+            const handle = clock.setTimeout(() => {
                 this.logger.newEvent("timer " + name);
-                const diff = Date.now() - expectTime;
+                const diff = clock.now() - expectTime;
                 if (diff > 2000) {
                     this.logger.info("timer delayed %d msec", diff);
                 }
                 this.timers.delete(name);
                 job();
             }, delay);
-            this.timers.set(name, id);
+            this.timers.set(name, { clock, handle });
         }
     }
 
@@ -97,11 +99,12 @@ export class Cleaner {
             return;
         }
         if (delay > 0) {
-            const id = setInterval(() => {
+            const clock = manager.clock;
+            const handle = clock.setInterval(() => {
                 this.logger.newEvent("interval timer (%s)", name);
                 job();
             }, delay);
-            this.timers.set(name, id);
+            this.timers.set(name, { clock, handle });
         }
     }
 
@@ -124,7 +127,7 @@ export class Cleaner {
         const oldTimer = this.timers.get(name);
         if (oldTimer) {
             this.timers.delete(name);
-            clearTimeout(oldTimer);
+            oldTimer.clock.clearTimer(oldTimer.handle);
         }
     }
 }
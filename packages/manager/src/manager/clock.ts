@@ -0,0 +1,215 @@
+/*
+ * Time sources.
+ *
+ * All timers in the system are started through Manager.clock (mostly via
+ * Cleaner.startTimer()).  By default, Manager uses RealClock, which is
+ * based on the wall-clock time.  Specify a VirtualClock in
+ * LocalConfig.CLOCK to run a discrete-event simulation, where time
+ * advances only when VirtualClock.advance() or VirtualClock.run() is called
+ * and timers fire as fast as possible.
+ */
+
+// setImmediate polyfill for browsers
+require("setimmediate");
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type TimerHandle = any;
+
+export interface Clock {
+    // the current time in msec (compatible with Date.now())
+    now(): number;
+    setTimeout(job: () => void, delay: number): TimerHandle;
+    setInterval(job: () => void, interval: number): TimerHandle;
+    // run a job as soon as possible (after the current job finishes)
+    setImmediate(job: () => void): TimerHandle;
+    // cancel a timer started by any of the above methods
+    clearTimer(handle: TimerHandle): void;
+}
+
+export class RealClock implements Clock {
+    public static readonly INSTANCE = new RealClock();
+
+    public now(): number {
+        return Date.now();
+    }
+
+    public setTimeout(job: () => void, delay: number): TimerHandle {
+        return { timeout: setTimeout(job, delay) };
+    }
+
+    public setInterval(job: () => void, interval: number): TimerHandle {
+        return { interval: setInterval(job, interval) };
+    }
+
+    public setImmediate(job: () => void): TimerHandle {
+        return { immediate: setImmediate(job) };
+    }
+
+    public clearTimer(handle: TimerHandle): void {
+        if (handle.timeout) {
+            clearTimeout(handle.timeout);
+        } else if (handle.interval) {
+            clearInterval(handle.interval);
+        } else if (handle.immediate) {
+            clearImmediate(handle.immediate);
+        }
+    }
+}
+
+interface VirtualTimer {
+    time: number;
+    // tie breaker for timers that expire at the same time
+    seq: number;
+    job: () => void;
+    // for interval timers
+    interval?: number;
+}
+
+/**
+ * A clock for discrete-event simulation.
+ *
+ * Timers are kept in a queue sorted by their expiration time.  Between two
+ * timers, the simulator yields to the event loop so that promise
+ * continuations and I/O triggered by the former timer are processed before
+ * the latter timer fires.
+ */
+export class VirtualClock implements Clock {
+    private time: number;
+    private nextSeq = 0;
+    private readonly queue: VirtualTimer[] = [];
+    private running = false;
+
+    /**
+     * @param startTime the initial time (default: the current wall-clock time)
+     */
+    constructor(startTime = Date.now()) {
+        this.time = startTime;
+    }
+
+    public now(): number {
+        return this.time;
+    }
+
+    public setTimeout(job: () => void, delay: number): TimerHandle {
+        return this.enqueue({
+            time: this.time + Math.max(0, delay),
+            seq: this.nextSeq++,
+            job: job,
+        });
+    }
+
+    public setInterval(job: () => void, interval: number): TimerHandle {
+        return this.enqueue({
+            time: this.time + Math.max(1, interval),
+            seq: this.nextSeq++,
+            job: job,
+            interval: Math.max(1, interval),
+        });
+    }
+
+    public setImmediate(job: () => void): TimerHandle {
+        return this.setTimeout(job, 0);
+    }
+
+    public clearTimer(handle: TimerHandle): void {
+        const index = this.queue.indexOf(handle as VirtualTimer);
+        if (index >= 0) {
+            this.queue.splice(index, 1);
+        }
+    }
+
+    /**
+     * the number of pending timers.
+     */
+    public getPendingTimers(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Advance the clock by the specified time, firing all the timers that
+     * expire in the meantime.
+     */
+    public async advance(duration: number): Promise<void> {
+        const end = this.time + duration;
+        await this.runWhile(() => this.queue[0].time <= end);
+        this.time = Math.max(this.time, end);
+    }
+
+    /**
+     * Fire timers until the promise is settled.
+     *
+     * @param promise
+     * @param limit   the maximum duration to advance the clock
+     * @return the settled value of the promise
+     * @throws Error if the promise is not settled within the limit or no
+     *  timer is left.
+     */
+    public async run<T>(promise: Promise<T>, limit = Infinity): Promise<T> {
+        let settled = false;
+        const guarded = promise.then(
+            (value) => {
+                settled = true;
+                return value;
+            },
+            (err) => {
+                settled = true;
+                throw err;
+            }
+        );
+        // suppress unhandled rejection while running
+        guarded.catch(() => undefined);
+        const end = this.time + limit;
+        await VirtualClock.yieldToEventLoop();
+        await this.runWhile(() => !settled && this.queue[0].time <= end);
+        if (!settled) {
+            throw new Error("VirtualClock.run: the promise is not settled");
+        }
+        return guarded;
+    }
+
+    private async runWhile(cond: () => boolean): Promise<void> {
+        if (this.running) {
+            throw new Error("VirtualClock is already running");
+        }
+        this.running = true;
+        try {
+            while (this.queue.length > 0 && cond()) {
+                const timer = this.queue.shift()!;
+                this.time = Math.max(this.time, timer.time);
+                if (timer.interval !== undefined) {
+                    timer.time = this.time + timer.interval;
+                    timer.seq = this.nextSeq++;
+                    this.enqueue(timer);
+                }
+                timer.job();
+                await VirtualClock.yieldToEventLoop();
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private enqueue(timer: VirtualTimer): VirtualTimer {
+        // binary search for the insertion point
+        let low = 0;
+        let high = this.queue.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            const t = this.queue[mid];
+            if (
+                t.time < timer.time ||
+                (t.time === timer.time && t.seq < timer.seq)
+            ) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        this.queue.splice(low, 0, timer);
+        return timer;
+    }
+
+    private static yieldToEventLoop(): Promise<void> {
+        return new Promise<void>((resolve) => setImmediate(resolve));
+    }
+}
@@ -0,0 +1,882 @@
+import b64 = require("base64-js");
+import { CustomError } from "../utils";
+import { SerializeUtils } from "./serialize";
+import { NegotiatedFeatures } from "./capabilities";
+
+/**
+ * A unit of data that is written to (or read from) a transport.
+ * Text codecs produce strings and binary codecs produce Uint8Arrays.
+ */
+export type Frame = string | Uint8Array;
+
+/**
+ * Wire codec interface.
+ *
+ * A codec converts a message into a {@link Frame} and vice versa.
+ * Decoded objects are plain objects that still have the
+ * {@link SerializeUtils.CLASSNAME_FIELD} property; prototypes are restored
+ * later by {@link SerializeUtils.restorePrototype}.
+ *
+ * A codec instance is created for each RawConnection, so a codec may have
+ * per-connection state.  However, frames may be lost or reordered (e.g.,
+ * by fault injection or retransmission), so each frame must be decodable
+ * without the preceding frames.
+ */
+export interface Codec {
+    /** the name used in {@link NetworkConfig.CODEC} */
+    readonly name: string;
+    /** the first byte of every binary frame produced by this codec.
+     * undefined for text codecs. */
+    readonly tag?: number;
+    encode(obj: unknown): Frame;
+    decode(frame: Frame): unknown;
+    /** called when the features of the connection are negotiated */
+    negotiated?(features: NegotiatedFeatures): void;
+}
+
+export type CodecFactory = () => Codec;
+
+export class CodecError extends CustomError {}
+
+const codecFactories = new Map<string, CodecFactory>();
+const codecTags = new Map<number, string>();
+
+/**
+ * Register a codec.
+ *
+ * @param name  the codec name
+ * @param factory
+ * @param tag   the first byte of binary frames (binary codecs only)
+ */
+export function registerCodec(
+    name: string,
+    factory: CodecFactory,
+    tag?: number
+): void {
+    if (codecFactories.has(name)) {
+        throw new Error(`codec ${name} is already registered`);
+    }
+    if (tag !== undefined) {
+        if (codecTags.has(tag) || tag === CodecUtils.FRAGMENT_TAG) {
+            throw new Error(`codec tag ${tag} is already used`);
+        }
+        codecTags.set(tag, name);
+    }
+    codecFactories.set(name, factory);
+}
+
+export abstract class CodecUtils {
+    public static readonly DEFAULT_CODEC = "json";
+    /** the first byte of fragment frames (see raw/fragment.ts) */
+    public static readonly FRAGMENT_TAG = 0x7f;
+
+    public static create(name: string): Codec {
+        const factory = codecFactories.get(name);
+        if (!factory) {
+            throw new CodecError(`unknown codec: ${name}`);
+        }
+        return factory();
+    }
+
+    public static getCodecNames(): string[] {
+        return [...codecFactories.keys()];
+    }
+
+    /**
+     * Get the name of the codec that can decode the frame.
+     * Text frames are always decoded by the default (JSON) codec.
+     */
+    public static getCodecNameOf(frame: Frame): string {
+        if (typeof frame === "string") {
+            return CodecUtils.DEFAULT_CODEC;
+        }
+        const name = codecTags.get(frame[0]);
+        if (!name) {
+            throw new CodecError(`unknown frame tag: ${frame[0]}`);
+        }
+        return name;
+    }
+
+    /**
+     * Convert data received from a transport (string, Buffer, ArrayBuffer,
+     * or typed array) into a Frame.
+     */
+    public static toFrame(data: unknown): Frame {
+        if (typeof data === "string" || data instanceof Uint8Array) {
+            return data;
+        }
+        if (data instanceof ArrayBuffer) {
+            return new Uint8Array(data);
+        }
+        if (ArrayBuffer.isView(data)) {
+            return new Uint8Array(
+                data.buffer,
+                data.byteOffset,
+                data.byteLength
+            );
+        }
+        throw new CodecError("unsupported frame type: " + typeof data);
+    }
+
+    /**
+     * get the size of a frame in bytes (in characters for string frames).
+     */
+    public static sizeOf(frame: Frame): number {
+        return typeof frame === "string" ? frame.length : frame.byteLength;
+    }
+
+    /**
+     * convert a frame into a form that socket.io recognizes as binary data.
+     * (socket.io-client does not treat Uint8Array as binary)
+     */
+    public static toTransportable(frame: Frame): string | ArrayBuffer {
+        if (typeof frame === "string") {
+            return frame;
+        }
+        return frame.buffer.slice(
+            frame.byteOffset,
+            frame.byteOffset + frame.byteLength
+        );
+    }
+}
+
+/**
+ * The default codec.  Uint8Array values are carried as base64 strings.
+ */
+export class JsonCodec implements Codec {
+    public static readonly NAME = "json";
+    private static readonly BINARY_FIELD = "$u8";
+    public readonly name = JsonCodec.NAME;
+
+    public encode(obj: unknown): Frame {
+        return JSON.stringify(obj, function (key, value) {
+            // check the original value because Buffer has toJSON()
+            const orig = this[key];
+            if (orig instanceof Uint8Array) {
+                return { [JsonCodec.BINARY_FIELD]: b64.fromByteArray(orig) };
+            }
+            return value;
+        });
+    }
+
+    public decode(frame: Frame): unknown {
+        if (typeof frame !== "string") {
+            throw new CodecError("JsonCodec: not a text frame");
+        }
+        return JSON.parse(frame, (key, value) => {
+            if (
+                value &&
+                typeof value === "object" &&
+                typeof value[JsonCodec.BINARY_FIELD] === "string" &&
+                Object.keys(value).length === 1
+            ) {
+                try {
+                    return b64.toByteArray(value[JsonCodec.BINARY_FIELD]);
+                } catch (err) {
+                    throw new CodecError(`JsonCodec: invalid base64: ${err}`);
+                }
+            }
+            return value;
+        });
+    }
+}
+
+/*
+ * MessagePack format constants
+ * (https://github.com/msgpack/msgpack/blob/master/spec.md)
+ */
+const MP = {
+    NIL: 0xc0,
+    FALSE: 0xc2,
+    TRUE: 0xc3,
+    BIN8: 0xc4,
+    BIN16: 0xc5,
+    BIN32: 0xc6,
+    EXT8: 0xc7,
+    EXT16: 0xc8,
+    EXT32: 0xc9,
+    FLOAT32: 0xca,
+    FLOAT64: 0xcb,
+    UINT8: 0xcc,
+    UINT16: 0xcd,
+    UINT32: 0xce,
+    UINT64: 0xcf,
+    INT8: 0xd0,
+    INT16: 0xd1,
+    INT32: 0xd2,
+    INT64: 0xd3,
+    FIXEXT1: 0xd4,
+    FIXEXT16: 0xd8,
+    STR8: 0xd9,
+    STR16: 0xda,
+    STR32: 0xdb,
+    ARRAY16: 0xdc,
+    ARRAY32: 0xdd,
+    MAP16: 0xde,
+    MAP32: 0xdf,
+};
+
+/** ext type: reference to an interned class name */
+const EXT_CLASS_REF = 1;
+/** ext type: definition of an interned class name (first occurrence) */
+const EXT_CLASS_DEF = 2;
+/** ext type: index into the class table shared by both ends */
+const EXT_CLASS_SHARED = 3;
+
+/** map keys that are rejected not to pollute prototypes */
+const FORBIDDEN_KEYS = ["__proto__", "constructor", "prototype"];
+
+class Writer {
+    private buf = new Uint8Array(256);
+    private view = new DataView(this.buf.buffer);
+    public length = 0;
+
+    private ensure(n: number): void {
+        if (this.length + n <= this.buf.length) {
+            return;
+        }
+        let size = this.buf.length * 2;
+        while (size < this.length + n) {
+            size *= 2;
+        }
+        const nbuf = new Uint8Array(size);
+        nbuf.set(this.buf.subarray(0, this.length));
+        this.buf = nbuf;
+        this.view = new DataView(nbuf.buffer);
+    }
+
+    public u8(v: number): void {
+        this.ensure(1);
+        this.buf[this.length++] = v;
+    }
+
+    public u16(v: number): void {
+        this.ensure(2);
+        this.view.setUint16(this.length, v);
+        this.length += 2;
+    }
+
+    public u32(v: number): void {
+        this.ensure(4);
+        this.view.setUint32(this.length, v);
+        this.length += 4;
+    }
+
+    public f64(v: number): void {
+        this.ensure(8);
+        this.view.setFloat64(this.length, v);
+        this.length += 8;
+    }
+
+    public bytes(v: Uint8Array): void {
+        this.ensure(v.length);
+        this.buf.set(v, this.length);
+        this.length += v.length;
+    }
+
+    public result(): Uint8Array {
+        return this.buf.slice(0, this.length);
+    }
+}
+
+class Reader {
+    private readonly view: DataView;
+    public pos = 0;
+
+    constructor(private readonly buf: Uint8Array) {
+        this.view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+    }
+
+    public check(n: number): void {
+        if (this.pos + n > this.buf.length) {
+            throw new CodecError("MsgpackCodec: unexpected end of frame");
+        }
+    }
+
+    public u8(): number {
+        this.check(1);
+        return this.buf[this.pos++];
+    }
+
+    public u16(): number {
+        this.check(2);
+        const v = this.view.getUint16(this.pos);
+        this.pos += 2;
+        return v;
+    }
+
+    public u32(): number {
+        this.check(4);
+        const v = this.view.getUint32(this.pos);
+        this.pos += 4;
+        return v;
+    }
+
+    public i8(): number {
+        this.check(1);
+        return this.view.getInt8(this.pos++);
+    }
+
+    public i16(): number {
+        this.check(2);
+        const v = this.view.getInt16(this.pos);
+        this.pos += 2;
+        return v;
+    }
+
+    public i32(): number {
+        this.check(4);
+        const v = this.view.getInt32(this.pos);
+        this.pos += 4;
+        return v;
+    }
+
+    public f32(): number {
+        this.check(4);
+        const v = this.view.getFloat32(this.pos);
+        this.pos += 4;
+        return v;
+    }
+
+    public f64(): number {
+        this.check(8);
+        const v = this.view.getFloat64(this.pos);
+        this.pos += 8;
+        return v;
+    }
+
+    public bytes(n: number): Uint8Array {
+        this.check(n);
+        const v = this.buf.slice(this.pos, this.pos + n);
+        this.pos += n;
+        return v;
+    }
+}
+
+export function encodeUtf8(s: string): Uint8Array {
+    const out: number[] = [];
+    for (let i = 0; i < s.length; i++) {
+        let c = s.charCodeAt(i);
+        if (c >= 0xd800 && c < 0xdc00 && i + 1 < s.length) {
+            const d = s.charCodeAt(i + 1);
+            if (d >= 0xdc00 && d < 0xe000) {
+                c = 0x10000 + ((c - 0xd800) << 10) + (d - 0xdc00);
+                i++;
+            }
+        }
+        if (c < 0x80) {
+            out.push(c);
+        } else if (c < 0x800) {
+            out.push(0xc0 | (c >> 6), 0x80 | (c & 0x3f));
+        } else if (c < 0x10000) {
+            out.push(
+                0xe0 | (c >> 12),
+                0x80 | ((c >> 6) & 0x3f),
+                0x80 | (c & 0x3f)
+            );
+        } else {
+            out.push(
+                0xf0 | (c >> 18),
+                0x80 | ((c >> 12) & 0x3f),
+                0x80 | ((c >> 6) & 0x3f),
+                0x80 | (c & 0x3f)
+            );
+        }
+    }
+    return new Uint8Array(out);
+}
+
+export function decodeUtf8(b: Uint8Array): string {
+    const codes: number[] = [];
+    let s = "";
+    for (let i = 0; i < b.length; ) {
+        const c = b[i++];
+        let cp: number;
+        if (c < 0x80) {
+            cp = c;
+        } else if (c < 0xe0) {
+            cp = ((c & 0x1f) << 6) | (b[i++] & 0x3f);
+        } else if (c < 0xf0) {
+            cp = ((c & 0x0f) << 12) | ((b[i++] & 0x3f) << 6) | (b[i++] & 0x3f);
+        } else {
+            cp =
+                ((c & 0x07) << 18) |
+                ((b[i++] & 0x3f) << 12) |
+                ((b[i++] & 0x3f) << 6) |
+                (b[i++] & 0x3f);
+        }
+        if (cp >= 0x10000) {
+            cp -= 0x10000;
+            codes.push(0xd800 + (cp >> 10), 0xdc00 + (cp & 0x3ff));
+        } else {
+            codes.push(cp);
+        }
+        if (codes.length > 4096) {
+            s += String.fromCharCode(...codes);
+            codes.length = 0;
+        }
+    }
+    return s + String.fromCharCode(...codes);
+}
+
+/**
+ * A compact binary codec based on MessagePack.
+ *
+ * - @serializable objects are encoded as MessagePack ext values and their
+ *   class names are replaced with small numeric tags.  If both ends have
+ *   registered the same classes (the digests of
+ *   SerializeUtils.getClassTable() in their capabilities match), a class
+ *   is referred by its index in the table (EXT_CLASS_SHARED), so that a
+ *   frame carries no class names.  Otherwise, the class name is sent at its
+ *   first occurrence in a frame (EXT_CLASS_DEF) and then referred by a
+ *   per-frame tag (EXT_CLASS_REF).  No tags are carried over to later
+ *   frames, so that each frame can be decoded even if other frames are lost
+ *   or reordered.
+ *   The receiver looks up EXT_CLASS_SHARED tags in its own table.  The
+ *   shared table is not used once a class is registered after the
+ *   negotiation, because the indices would no longer agree.
+ * - Uint8Array values are encoded as MessagePack bin values as is.
+ * - Other values are encoded in the same manner as JSON.stringify()
+ *   (toJSON() is honored and undefined properties are omitted).
+ */
+export class MsgpackCodec implements Codec {
+    public static readonly NAME = "msgpack";
+    public static readonly TAG = 0x01;
+    // the maximum nesting depth of arrays, maps and objects in a frame
+    public static readonly MAX_DEPTH = 100;
+    public readonly name = MsgpackCodec.NAME;
+    public readonly tag = MsgpackCodec.TAG;
+    // for encoding (per frame)
+    private readonly classTags = new Map<string, number>();
+    // the digest of the class table shared with the remote node (undefined
+    // if the tables differ)
+    private sharedDigest?: string;
+    // for encoding: class name -> index in the shared class table
+    private sharedTags?: Map<string, number>;
+    // for decoding (per frame)
+    private readonly classNames = new Map<number, string>();
+
+    public encode(obj: unknown): Frame {
+        const w = new Writer();
+        w.u8(this.tag);
+        this.classTags.clear();
+        this.write(w, obj);
+        return w.result();
+    }
+
+    public decode(frame: Frame): unknown {
+        if (typeof frame === "string" || frame[0] !== this.tag) {
+            throw new CodecError("MsgpackCodec: not a msgpack frame");
+        }
+        const r = new Reader(frame);
+        r.pos = 1;
+        this.classNames.clear();
+        const obj = this.read(r);
+        if (r.pos !== frame.length) {
+            throw new CodecError("MsgpackCodec: garbage at end of frame");
+        }
+        return obj;
+    }
+
+    public negotiated(features: NegotiatedFeatures): void {
+        this.sharedDigest = features.classTable;
+        this.sharedTags = undefined;
+    }
+
+    /**
+     * get the shared class table for encoding.  undefined if the tables
+     * differ or a class has been registered since the negotiation.
+     */
+    private getSharedTags(): Map<string, number> | undefined {
+        if (
+            this.sharedDigest === undefined ||
+            this.sharedDigest !== SerializeUtils.getClassTableDigest()
+        ) {
+            return undefined;
+        }
+        if (!this.sharedTags) {
+            const names = SerializeUtils.getClassTable();
+            this.sharedTags = new Map(names.map((name, i) => [name, i]));
+        }
+        return this.sharedTags;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private write(w: Writer, v: any): void {
+        if (v === null || v === undefined) {
+            w.u8(MP.NIL);
+            return;
+        }
+        switch (typeof v) {
+            case "boolean":
+                w.u8(v ? MP.TRUE : MP.FALSE);
+                return;
+            case "number":
+                this.writeNumber(w, v);
+                return;
+            case "string":
+                this.writeString(w, v);
+                return;
+            case "object":
+                break;
+            default:
+                // functions and symbols (JSON.stringify converts them to null in arrays)
+                w.u8(MP.NIL);
+                return;
+        }
+        if (v instanceof Uint8Array) {
+            this.writeBinary(w, v);
+            return;
+        }
+        if (typeof v.toJSON === "function") {
+            // @serializable objects are converted to plain objects here
+            v = v.toJSON();
+            if (v === null || typeof v !== "object") {
+                this.write(w, v);
+                return;
+            }
+        }
+        if (Array.isArray(v)) {
+            this.writeArrayHeader(w, v.length);
+            for (const elem of v) {
+                this.write(w, elem);
+            }
+            return;
+        }
+        const className = v[SerializeUtils.CLASSNAME_FIELD];
+        if (typeof className === "string") {
+            this.writeClassObject(w, className, v);
+            return;
+        }
+        this.writeMap(w, v);
+    }
+
+    private writeNumber(w: Writer, v: number): void {
+        if (Number.isInteger(v) && !Object.is(v, -0)) {
+            if (v >= 0) {
+                if (v < 0x80) {
+                    w.u8(v);
+                    return;
+                }
+                if (v <= 0xff) {
+                    w.u8(MP.UINT8);
+                    w.u8(v);
+                    return;
+                }
+                if (v <= 0xffff) {
+                    w.u8(MP.UINT16);
+                    w.u16(v);
+                    return;
+                }
+                if (v <= 0xffffffff) {
+                    w.u8(MP.UINT32);
+                    w.u32(v);
+                    return;
+                }
+            } else {
+                if (v >= -32) {
+                    w.u8(v & 0xff);
+                    return;
+                }
+                if (v >= -0x80) {
+                    w.u8(MP.INT8);
+                    w.u8(v & 0xff);
+                    return;
+                }
+                if (v >= -0x8000) {
+                    w.u8(MP.INT16);
+                    w.u16(v & 0xffff);
+                    return;
+                }
+                if (v >= -0x80000000) {
+                    w.u8(MP.INT32);
+                    w.u32(v >>> 0);
+                    return;
+                }
+            }
+        }
+        w.u8(MP.FLOAT64);
+        w.f64(v);
+    }
+
+    private writeString(w: Writer, v: string): void {
+        const b = encodeUtf8(v);
+        const n = b.length;
+        if (n < 32) {
+            w.u8(0xa0 | n);
+        } else if (n <= 0xff) {
+            w.u8(MP.STR8);
+            w.u8(n);
+        } else if (n <= 0xffff) {
+            w.u8(MP.STR16);
+            w.u16(n);
+        } else {
+            w.u8(MP.STR32);
+            w.u32(n);
+        }
+        w.bytes(b);
+    }
+
+    private writeBinary(w: Writer, v: Uint8Array): void {
+        const n = v.length;
+        if (n <= 0xff) {
+            w.u8(MP.BIN8);
+            w.u8(n);
+        } else if (n <= 0xffff) {
+            w.u8(MP.BIN16);
+            w.u16(n);
+        } else {
+            w.u8(MP.BIN32);
+            w.u32(n);
+        }
+        w.bytes(v);
+    }
+
+    private writeArrayHeader(w: Writer, n: number): void {
+        if (n < 16) {
+            w.u8(0x90 | n);
+        } else if (n <= 0xffff) {
+            w.u8(MP.ARRAY16);
+            w.u16(n);
+        } else {
+            w.u8(MP.ARRAY32);
+            w.u32(n);
+        }
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private writeMap(w: Writer, v: any, exclude?: string): void {
+        const keys = Object.keys(v).filter((key) => {
+            const t = typeof v[key];
+            return (
+                key !== exclude &&
+                t !== "undefined" &&
+                t !== "function" &&
+                t !== "symbol"
+            );
+        });
+        const n = keys.length;
+        if (n < 16) {
+            w.u8(0x80 | n);
+        } else if (n <= 0xffff) {
+            w.u8(MP.MAP16);
+            w.u16(n);
+        } else {
+            w.u8(MP.MAP32);
+            w.u32(n);
+        }
+        for (const key of keys) {
+            this.writeString(w, key);
+            this.write(w, v[key]);
+        }
+    }
+
+    private writeClassObject(
+        w: Writer,
+        className: string,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        v: any
+    ): void {
+        const body = new Writer();
+        let type: number;
+        let tag = this.getSharedTags()?.get(className);
+        if (tag !== undefined) {
+            type = EXT_CLASS_SHARED;
+            this.writeNumber(body, tag);
+        } else if ((tag = this.classTags.get(className)) === undefined) {
+            tag = this.classTags.size;
+            this.classTags.set(className, tag);
+            type = EXT_CLASS_DEF;
+            this.writeNumber(body, tag);
+            this.writeString(body, className);
+        } else {
+            type = EXT_CLASS_REF;
+            this.writeNumber(body, tag);
+        }
+        this.writeMap(body, v, SerializeUtils.CLASSNAME_FIELD);
+        const n = body.length;
+        if (n <= 0xff) {
+            w.u8(MP.EXT8);
+            w.u8(n);
+        } else if (n <= 0xffff) {
+            w.u8(MP.EXT16);
+            w.u16(n);
+        } else {
+            w.u8(MP.EXT32);
+            w.u32(n);
+        }
+        w.u8(type);
+        w.bytes(body.result());
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private read(r: Reader, depth = 0): any {
+        if (depth > MsgpackCodec.MAX_DEPTH) {
+            throw new CodecError("MsgpackCodec: too deeply nested");
+        }
+        const b = r.u8();
+        if (b < 0x80) {
+            return b;
+        }
+        if (b >= 0xe0) {
+            return b - 0x100;
+        }
+        if ((b & 0xf0) === 0x80) {
+            return this.readMap(r, b & 0x0f, depth);
+        }
+        if ((b & 0xf0) === 0x90) {
+            return this.readArray(r, b & 0x0f, depth);
+        }
+        if ((b & 0xe0) === 0xa0) {
+            return decodeUtf8(r.bytes(b & 0x1f));
+        }
+        switch (b) {
+            case MP.NIL:
+                return null;
+            case MP.FALSE:
+                return false;
+            case MP.TRUE:
+                return true;
+            case MP.BIN8:
+                return r.bytes(r.u8());
+            case MP.BIN16:
+                return r.bytes(r.u16());
+            case MP.BIN32:
+                return r.bytes(r.u32());
+            case MP.EXT8:
+                return this.readExt(r, r.u8(), depth);
+            case MP.EXT16:
+                return this.readExt(r, r.u16(), depth);
+            case MP.EXT32:
+                return this.readExt(r, r.u32(), depth);
+            case MP.FLOAT32:
+                return r.f32();
+            case MP.FLOAT64:
+                return r.f64();
+            case MP.UINT8:
+                return r.u8();
+            case MP.UINT16:
+                return r.u16();
+            case MP.UINT32:
+                return r.u32();
+            case MP.UINT64:
+                return r.u32() * 0x100000000 + r.u32();
+            case MP.INT8:
+                return r.i8();
+            case MP.INT16:
+                return r.i16();
+            case MP.INT32:
+                return r.i32();
+            case MP.INT64:
+                return r.i32() * 0x100000000 + r.u32();
+            case MP.STR8:
+                return decodeUtf8(r.bytes(r.u8()));
+            case MP.STR16:
+                return decodeUtf8(r.bytes(r.u16()));
+            case MP.STR32:
+                return decodeUtf8(r.bytes(r.u32()));
+            case MP.ARRAY16:
+                return this.readArray(r, r.u16(), depth);
+            case MP.ARRAY32:
+                return this.readArray(r, r.u32(), depth);
+            case MP.MAP16:
+                return this.readMap(r, r.u16(), depth);
+            case MP.MAP32:
+                return this.readMap(r, r.u32(), depth);
+        }
+        if (b >= MP.FIXEXT1 && b <= MP.FIXEXT16) {
+            return this.readExt(r, 1 << (b - MP.FIXEXT1), depth);
+        }
+        throw new CodecError(
+            `MsgpackCodec: unsupported type 0x${b.toString(16)}`
+        );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private readArray(r: Reader, n: number, depth: number): any[] {
+        // each element takes at least one byte
+        r.check(n);
+        const a = new Array(n);
+        for (let i = 0; i < n; i++) {
+            a[i] = this.read(r, depth + 1);
+        }
+        return a;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private readMap(r: Reader, n: number, depth: number): any {
+        // each entry takes at least two bytes
+        r.check(n * 2);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const obj: any = {};
+        for (let i = 0; i < n; i++) {
+            const key = this.read(r, depth + 1);
+            if (typeof key !== "string") {
+                throw new CodecError("MsgpackCodec: non-string map key");
+            }
+            if (FORBIDDEN_KEYS.includes(key)) {
+                throw new CodecError(`MsgpackCodec: forbidden map key ${key}`);
+            }
+            obj[key] = this.read(r, depth + 1);
+        }
+        return obj;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private readExt(r: Reader, length: number, depth: number): any {
+        const type = r.u8();
+        const end = r.pos + length;
+        let className: string | undefined;
+        if (type === EXT_CLASS_DEF) {
+            const tag = this.read(r, depth + 1);
+            className = this.read(r, depth + 1);
+            if (typeof tag !== "number" || typeof className !== "string") {
+                throw new CodecError("MsgpackCodec: wrong class definition");
+            }
+            this.classNames.set(tag, className);
+        } else if (type === EXT_CLASS_REF) {
+            const tag = this.read(r, depth + 1);
+            className = this.classNames.get(tag);
+            if (className === undefined) {
+                throw new CodecError(`MsgpackCodec: unknown class tag ${tag}`);
+            }
+        } else if (type === EXT_CLASS_SHARED) {
+            const tag = this.read(r, depth + 1);
+            // the sender uses the table whose digest matches the one we
+            // advertised.  (the first reply to a client may arrive before
+            // the client negotiates)
+            const digest = SerializeUtils.getClassTableDigest();
+            const names = SerializeUtils.getClassTable();
+            className =
+                (this.sharedDigest === undefined ||
+                    this.sharedDigest === digest) &&
+                Number.isInteger(tag)
+                    ? names[tag]
+                    : undefined;
+            if (className === undefined) {
+                throw new CodecError(
+                    `MsgpackCodec: unknown shared class tag ${tag}`
+                );
+            }
+        } else {
+            throw new CodecError(`MsgpackCodec: unknown ext type ${type}`);
+        }
+        const obj = this.read(r, depth + 1);
+        if (r.pos !== end) {
+            throw new CodecError("MsgpackCodec: wrong ext length");
+        }
+        if (
+            obj === null ||
+            typeof obj !== "object" ||
+            Array.isArray(obj) ||
+            obj instanceof Uint8Array
+        ) {
+            throw new CodecError("MsgpackCodec: ext body is not a map");
+        }
+        obj[SerializeUtils.CLASSNAME_FIELD] = className;
+        return obj;
+    }
+}
+
+registerCodec(JsonCodec.NAME, () => new JsonCodec());
+registerCodec(MsgpackCodec.NAME, () => new MsgpackCodec(), MsgpackCodec.TAG);
@@ -1,7 +1,47 @@
+import { NodeIdentity } from "./identity";
+import { Clock } from "./clock";
+import { PersistedState, StorageAdapter } from "./storage";
+import { IceServer } from "./ice";
+
+/**
+ * The transports for connecting to portal nodes.
+ * "socket.io": Socket.IO (WsConnection)
+ * "websocket": plain WebSocket with binary frames (NativeWsConnection)
+ */
+export type PortalTransport = "socket.io" | "websocket";
+
 export interface LocalConfig {
     NODE_ID: string | undefined;
+    // a key pair that the NodeID is derived from (see identity.ts).
+    // NODE_ID is ignored if this is specified.
+    NODE_IDENTITY: NodeIdentity | undefined;
+    // an invite token presented to other nodes (see admission.ts)
+    INVITE_TOKEN: string | undefined;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     WEBRTC_IMPL: any;
+    // WebSocket implementation used on Node.js (e.g., require("ws")).
+    // browsers use the built-in WebSocket.
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    WEBSOCKET_IMPL: any;
+    // time source.  specify a VirtualClock for simulation (see clock.ts).
+    // undefined means the wall-clock time.
+    CLOCK: Clock | undefined;
+    // persistent storage of the node state (see storage.ts)
+    STORAGE: StorageAdapter | undefined;
+    // the key in STORAGE (NETWORK_ID is appended if specified)
+    STORAGE_KEY: string;
+    // the state loaded by StorageUtils.prepareConfig()
+    PERSISTED_STATE: PersistedState | undefined;
+
+    // Relay budget (see relay.ts).  0 means unlimited.
+    // false to refuse relaying for other nodes (even if ENABLE_RELAY is on)
+    ACT_AS_RELAY: boolean;
+    // the maximum number of relay paths that go through this node
+    RELAY_MAX_PATHS: number;
+    // the maximum relayed traffic (bytes/sec)
+    RELAY_MAX_BYTES_PER_SEC: number;
+    // the maximum number of relayed messages/sec
+    RELAY_MAX_MESSAGES_PER_SEC: number;
 }
 
 export interface NetworkConfig {
@@ -11,6 +51,38 @@ export interface NetworkConfig {
     MAX_IDLE_TIME_BEFORE_RAW_CLOSE: number;
     MAX_RAWCONNECTION_ESTABLISH_TIME: number;
     SUSPICIOUS_NODE_EXPIRATION_TIME: number;
+    // reject nodes that do not prove their NodeIDs
+    REQUIRE_NODE_AUTH: boolean;
+
+    // Admission control (see admission.ts)
+    // a pre-shared key.  nodes that do not know this key are rejected
+    // unless they have a valid invite token.
+    NETWORK_KEY: string | undefined;
+    // NodeIDs of the nodes that are trusted to issue invite tokens
+    INVITE_ISSUERS: string[];
+    // wire codec for outgoing messages ("json" or "msgpack").
+    // incoming messages are decoded regardless of this value.
+    CODEC: string;
+    // partially received frames are discarded after this period (msec)
+    FRAGMENT_REASSEMBLY_TIMEOUT: number;
+    // the maximum size of a reassembled frame (bytes)
+    MAX_REASSEMBLED_FRAME_SIZE: number;
+    // the maximum number of partially received frames per RawConnection.
+    // the RawConnection is closed if exceeded.
+    MAX_PARTIAL_FRAMES: number;
+    // the maximum total size of partially received frames per
+    // RawConnection (bytes).  the RawConnection is closed if exceeded.
+    MAX_REASSEMBLY_BUFFER_SIZE: number;
+
+    // Flow control
+    // the maximum number of messages queued in a RawConnection
+    SEND_QUEUE_MAX_LENGTH: number;
+    // queueing starts when the transport buffers this amount of data (bytes)
+    SEND_BUFFER_HIGH_WATER_MARK: number;
+    // a RawConnection is drained when the transport buffer falls below this
+    SEND_BUFFER_LOW_WATER_MARK: number;
+    // the interval of checking the transport buffer while congested (msec)
+    SEND_QUEUE_POLL_INTERVAL: number;
 
     // Relay Connections
     ENABLE_RELAY: boolean;
@@ -19,11 +91,62 @@ export interface NetworkConfig {
     RELAY_PATH_MAINTENANCE_PERIOD: number;
     MINIMUM_RELAY_PATHS: number;
     INDIRECT_NODE_EXPIRATION_TIME: number;
+    // relay paths are selected by the sum of PATH_HOP_COST + RTT of links
+    // (msec, see rtt.ts)
+    PATH_HOP_COST: number;
+    // the RTT assumed for links whose RTT is unknown (msec)
+    DEFAULT_LINK_RTT: number;
+    // measured RTTs are discarded after this period (msec)
+    LINK_RTT_EXPIRATION_TIME: number;
+    // try to upgrade relayed PeerConnections to direct connections
+    // (see upgrade.ts)
+    ENABLE_RELAY_UPGRADE: boolean;
+    // the delay before the first upgrade attempt (msec).  the delay is
+    // doubled on every failure up to RELAY_UPGRADE_MAX_INTERVAL.
+    RELAY_UPGRADE_INTERVAL: number;
+    RELAY_UPGRADE_MAX_INTERVAL: number;
+    // restart ICE when a WebRTC connection is temporarily lost
+    ENABLE_ICE_RESTART: boolean;
+    // a RawConnection that is reconnecting is regarded as disconnected if
+    // it is not recovered within this period (msec)
+    RECONNECT_GRACE_PERIOD: number;
+    // a PeerConnection that loses all paths is kept for this period while
+    // trying to resume it (msec, see resume.ts).  0 disables resumption.
+    RESUME_TIMEOUT: number;
+    // the interval between resumption attempts (msec)
+    RESUME_RETRY_INTERVAL: number;
+    // a message sent in the reliable delivery mode is retransmitted if not
+    // acknowledged within this period (msec)
+    RELIABLE_RETRANSMIT_TIMEOUT: number;
+    // a PeerConnection is closed if a message is not acknowledged after
+    // this number of retransmissions
+    RELIABLE_MAX_RETRANSMITS: number;
+    // the receive window of a stream over PeerConnection (bytes, see
+    // stream.ts)
+    STREAM_WINDOW_SIZE: number;
+    // the maximum size of data in a stream frame (bytes)
+    STREAM_CHUNK_SIZE: number;
+    // the maximum number of streams opened by the remote end and not taken
+    // by the application yet, per PeerConnection
+    STREAM_MAX_PENDING: number;
+    // a stream opened by the remote end is aborted if the application does
+    // not take it within this time (msec)
+    STREAM_PENDING_TIMEOUT: number;
+    // probe the NAT type after connecting to a portal node (see nat.ts)
+    ENABLE_NAT_PROBE: boolean;
+    // the maximum time for gathering ICE candidates in the probe (msec)
+    NAT_PROBE_TIMEOUT: number;
+
+    // the transport used for connecting to portal nodes
+    PORTAL_TRANSPORT: PortalTransport;
 
     // WebRTC
-    STUN_SERVERS: { urls: string }[];
+    // STUN and TURN servers (see ice.ts)
+    STUN_SERVERS: IceServer[];
     TRICKLE_ICE: boolean;
     NO_WEBRTC_SIGNALING: boolean;
+    // frames larger than this are fragmented (bytes)
+    WEBRTC_MTU: number;
 
     // Debugging
     // we use "debug-level" package
@@ -36,6 +159,8 @@ export type ManagerConfig = Partial<Config>;
 
 export const defaultConfig: Config = {
     NODE_ID: undefined,
+    NODE_IDENTITY: undefined,
+    INVITE_TOKEN: undefined,
     NETWORK_ID: undefined,
     ACK_TIMEOUT: 5000,
     // sometimes it takes long time to receive ConnectionReply
@@ -43,6 +168,19 @@ export const defaultConfig: Config = {
     MAX_IDLE_TIME_BEFORE_RAW_CLOSE: 120 * 1000,
     MAX_RAWCONNECTION_ESTABLISH_TIME: 6 * 1000,
     SUSPICIOUS_NODE_EXPIRATION_TIME: 120 * 1000,
+    REQUIRE_NODE_AUTH: false,
+    NETWORK_KEY: undefined,
+    INVITE_ISSUERS: [],
+    CODEC: "json",
+    FRAGMENT_REASSEMBLY_TIMEOUT: 30 * 1000,
+    MAX_REASSEMBLED_FRAME_SIZE: 64 * 1024 * 1024,
+    MAX_PARTIAL_FRAMES: 64,
+    MAX_REASSEMBLY_BUFFER_SIZE: 128 * 1024 * 1024,
+
+    SEND_QUEUE_MAX_LENGTH: 10000,
+    SEND_BUFFER_HIGH_WATER_MARK: 1024 * 1024,
+    SEND_BUFFER_LOW_WATER_MARK: 256 * 1024,
+    SEND_QUEUE_POLL_INTERVAL: 20,
 
     ENABLE_RELAY: true,
     ALWAYS_RELAY: false,
@@ -53,6 +191,8 @@ export const defaultConfig: Config = {
     RELAY_PATH_MAINTENANCE_PERIOD: 30 * 1000,
     MINIMUM_RELAY_PATHS: 3,
 
+    PORTAL_TRANSPORT: "socket.io",
+
     STUN_SERVERS: [
         { urls: "stun:stun.l.google.com:19302" },
         { urls: "stun:stun1.l.google.com:19302" },
@@ -65,8 +205,37 @@ export const defaultConfig: Config = {
     // because sometimes full ICE requires long time (5 sec or so).
     TRICKLE_ICE: true,
     NO_WEBRTC_SIGNALING: false,
+    // 16KiB is the largest message size that all browsers can exchange
+    WEBRTC_MTU: 16 * 1024,
     INDIRECT_NODE_EXPIRATION_TIME: 5 * 60 * 1000,
+    PATH_HOP_COST: 20,
+    DEFAULT_LINK_RTT: 100,
+    LINK_RTT_EXPIRATION_TIME: 10 * 60 * 1000,
+    ENABLE_RELAY_UPGRADE: true,
+    RELAY_UPGRADE_INTERVAL: 30 * 1000,
+    RELAY_UPGRADE_MAX_INTERVAL: 30 * 60 * 1000,
+    ENABLE_ICE_RESTART: true,
+    RECONNECT_GRACE_PERIOD: 15 * 1000,
+    RESUME_TIMEOUT: 0,
+    RESUME_RETRY_INTERVAL: 1000,
+    RELIABLE_RETRANSMIT_TIMEOUT: 1000,
+    RELIABLE_MAX_RETRANSMITS: 5,
+    STREAM_WINDOW_SIZE: 256 * 1024,
+    STREAM_CHUNK_SIZE: 16 * 1024,
+    STREAM_MAX_PENDING: 16,
+    STREAM_PENDING_TIMEOUT: 30 * 1000,
+    ENABLE_NAT_PROBE: true,
+    NAT_PROBE_TIMEOUT: 5 * 1000,
     WEBRTC_IMPL: undefined,
+    WEBSOCKET_IMPL: undefined,
+    CLOCK: undefined,
+    STORAGE: undefined,
+    STORAGE_KEY: "web-overlay",
+    PERSISTED_STATE: undefined,
+    ACT_AS_RELAY: true,
+    RELAY_MAX_PATHS: 0,
+    RELAY_MAX_BYTES_PER_SEC: 0,
+    RELAY_MAX_MESSAGES_PER_SEC: 0,
 
     DEBUG: "WARN:*",
     LOG_SERVER_URL: undefined,
@@ -0,0 +1,142 @@
+import { RawConnectionType } from "./raw/raw";
+
+/*
+ * Fault injection for testing.
+ *
+ * Each Manager has a FaultInjector (Manager.faults).  Rules registered to it
+ * are applied to messages sent or received through RawConnections (other
+ * than the loopback connection), in addition to Manager.mute().
+ *
+ * Examples:
+ *   // drop 10% of messages to and from node B
+ *   manager.faults.add({ remoteNodeId: "B", drop: 0.1 });
+ *   // asymmetric partition: this node can receive from B but cannot send
+ *   manager.faults.add({ remoteNodeId: "B", direction: "outgoing", drop: 1 });
+ *   // delay DdllSetR messages by 100-200 msec
+ *   manager.faults.add({
+ *       messageClass: "DdllSetR",
+ *       delay: () => 100 + Math.random() * 100,
+ *   });
+ */
+
+export type FaultDirection = "outgoing" | "incoming";
+
+/**
+ * Describes a message that is about to be sent or has been received.
+ */
+export interface FaultContext {
+    direction: FaultDirection;
+    // the NodeID of the other end of the RawConnection (undefined if the
+    // RawConnection is not bound yet)
+    remoteNodeId: string | undefined;
+    // the class name of the message
+    messageClass: string;
+    connectionType: RawConnectionType;
+}
+
+/**
+ * A fault injection rule.
+ * Conditions that are not specified match any message.
+ * Probabilities are from 0 to 1.
+ */
+export interface FaultRule {
+    // conditions
+    direction?: FaultDirection;
+    remoteNodeId?: string | string[];
+    messageClass?: string | string[];
+    connectionType?: RawConnectionType | RawConnectionType[];
+    filter?: (ctx: FaultContext) => boolean;
+
+    // actions
+    // probability that a message is dropped
+    drop?: number;
+    // delay in msec.  specify a function to give a distribution.
+    delay?: number | (() => number);
+    // probability that a message is delivered twice
+    duplicate?: number;
+    // probability that a message is held for reorderDelay msec so that
+    // subsequent messages overtake it
+    reorder?: number;
+    reorderDelay?: number;
+}
+
+export class FaultInjector {
+    public static readonly DEFAULT_REORDER_DELAY = 50;
+    private rules: FaultRule[] = [];
+    // random number generator, replaceable for reproducible tests
+    public random: () => number = Math.random;
+
+    /**
+     * add a rule.
+     *
+     * @return the rule, which can be passed to remove()
+     */
+    public add(rule: FaultRule): FaultRule {
+        this.rules.push(rule);
+        return rule;
+    }
+
+    public remove(rule: FaultRule): void {
+        this.rules = this.rules.filter((r) => r !== rule);
+    }
+
+    public clear(): void {
+        this.rules = [];
+    }
+
+    public getRules(): FaultRule[] {
+        return [...this.rules];
+    }
+
+    public isActive(): boolean {
+        return this.rules.length > 0;
+    }
+
+    /**
+     * Decide the fate of a message.
+     *
+     * @param ctx
+     * @return the delays (msec) after which the message is delivered,
+     *  one for each copy.  an empty array means the message is dropped.
+     */
+    public apply(ctx: FaultContext): number[] {
+        let delays = [0];
+        for (const rule of this.rules) {
+            if (!FaultInjector.matches(rule, ctx)) {
+                continue;
+            }
+            if (rule.drop && this.random() < rule.drop) {
+                return [];
+            }
+            if (rule.duplicate && this.random() < rule.duplicate) {
+                delays = [...delays, ...delays];
+            }
+            let extra = 0;
+            if (rule.delay !== undefined) {
+                extra +=
+                    typeof rule.delay === "number" ? rule.delay : rule.delay();
+            }
+            if (rule.reorder && this.random() < rule.reorder) {
+                extra +=
+                    rule.reorderDelay ?? FaultInjector.DEFAULT_REORDER_DELAY;
+            }
+            delays = delays.map((d) => d + Math.max(0, extra));
+        }
+        return delays;
+    }
+
+    private static matches(rule: FaultRule, ctx: FaultContext): boolean {
+        const includes = <T>(cond: T | T[] | undefined, value: T): boolean =>
+            cond === undefined ||
+            (Array.isArray(cond) ? cond.includes(value) : cond === value);
+        return (
+            includes(rule.direction, ctx.direction) &&
+            (rule.remoteNodeId === undefined ||
+                (ctx.remoteNodeId !== undefined &&
+                    includes(rule.remoteNodeId, ctx.remoteNodeId))) &&
+            includes(rule.messageClass, ctx.messageClass) &&
+            includes(rule.connectionType, ctx.connectionType) &&
+            (!rule.filter || rule.filter(ctx))
+        );
+    }
+}
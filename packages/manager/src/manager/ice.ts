@@ -0,0 +1,164 @@
+import { Manager } from "./manager";
+import { ReplyMessage, RequestMessage, RequestMessageSpec } from "./messages";
+import { serializable } from "./serialize";
+import { override } from "core-decorators";
+
+/*
+ * STUN/TURN servers for WebRTC.
+ *
+ * STUN_SERVERS in the config may contain TURN servers with static
+ * credentials.  In addition, a portal node can deliver TURN servers with
+ * short-lived credentials (e.g., minted with the TURN REST API scheme that
+ * coturn supports) in HelloReply.  WebRTC connections use both of them.
+ *
+ * The delivered credentials are renewed before they expire: the node sends
+ * IceServerRequest to the portal node that delivered them, over the
+ * RawConnection to the portal node, and replaces them with the ones in the
+ * IceServerReply.
+ */
+
+/**
+ * A STUN or TURN server (compatible with RTCIceServer).
+ */
+export interface IceServer {
+    urls: string | string[];
+    username?: string;
+    credential?: string;
+}
+
+/**
+ * TURN servers and their credentials delivered by a portal node.
+ */
+export interface IceServerGrant {
+    servers: IceServer[];
+    // the lifetime of the credentials (msec)
+    ttl: number;
+}
+
+/**
+ * A request for renewing TURN credentials, sent to a portal node.
+ */
+@serializable
+export class IceServerRequest extends RequestMessage<
+    IceServerRequest,
+    IceServerReply
+> {
+    constructor(manager: Manager) {
+        super(manager);
+    }
+
+    @override
+    public getSpec(): RequestMessageSpec {
+        return { replyClassName: IceServerReply.name };
+    }
+
+    public toString(): string {
+        return `<IceServerRequest srcNodeId=${this.srcNodeId}>`;
+    }
+
+    public onReceive(): void {
+        this.sendReply(
+            new IceServerReply(
+                this,
+                this.manager.createIceServerGrant(this.srcNodeId as string)
+            )
+        );
+    }
+}
+
+@serializable
+export class IceServerReply extends ReplyMessage<
+    IceServerRequest,
+    IceServerReply
+> {
+    // undefined if the sender does not mint TURN credentials any more
+    constructor(req: IceServerRequest, public readonly grant?: IceServerGrant) {
+        super(req);
+    }
+}
+
+/**
+ * The ICE servers of a node.
+ */
+export class IceServerTable {
+    public static readonly REFRESH_TIMER_NAME = "ice-server-refresh";
+    // the delivered credentials are renewed after this ratio of their
+    // lifetime has elapsed
+    public static readonly REFRESH_RATIO = 0.8;
+
+    private delivered: IceServer[] = [];
+    private expire = 0;
+    // the portal node that delivered the servers
+    private portalNodeId?: string;
+
+    constructor(private readonly manager: Manager) {}
+
+    /**
+     * register TURN servers delivered by a portal node.  The servers
+     * delivered previously are replaced, and the new ones are renewed
+     * through the portal node before they expire.
+     *
+     * @param grant
+     * @param portalNodeId the NodeID of the portal node
+     */
+    public setDelivered(grant: IceServerGrant, portalNodeId: string): void {
+        this.delivered = grant.servers;
+        this.expire = this.manager.clock.now() + grant.ttl;
+        this.portalNodeId = portalNodeId;
+        this.manager.cleaner.startTimer(
+            this.manager,
+            IceServerTable.REFRESH_TIMER_NAME,
+            Math.floor(grant.ttl * IceServerTable.REFRESH_RATIO),
+            () => this.refresh()
+        );
+    }
+
+    /**
+     * renew the delivered credentials.  if the portal node is not
+     * connected, the credentials are left to expire.
+     */
+    private refresh(): void {
+        const manager = this.manager;
+        const portalNodeId = this.portalNodeId;
+        const raw = manager
+            .getRawConnections()
+            .find(
+                (r) => r.isConnected() && r.getRemoteNodeId() === portalNodeId
+            );
+        if (!portalNodeId || !raw) {
+            manager.mgrLogger.debug(
+                "IceServerTable.refresh: portal %s is not connected",
+                portalNodeId
+            );
+            return;
+        }
+        new IceServerRequest(manager).request(raw).then(
+            (reply) => {
+                if (reply.grant && this.portalNodeId === portalNodeId) {
+                    this.setDelivered(reply.grant, portalNodeId);
+                }
+            },
+            (err) => {
+                manager.mgrLogger.info("IceServerTable.refresh: %s", err);
+            }
+        );
+    }
+
+    /**
+     * get the TURN servers delivered by portal nodes, excluding the ones
+     * whose credentials are expired.
+     */
+    public getDelivered(): IceServer[] {
+        if (this.expire < this.manager.clock.now()) {
+            this.delivered = [];
+        }
+        return this.delivered;
+    }
+
+    /**
+     * get the servers that WebRTC connections use.
+     */
+    public getAll(): IceServer[] {
+        return [...this.manager.config.STUN_SERVERS, ...this.getDelivered()];
+    }
+}
@@ -0,0 +1,406 @@
+import b64 = require("base64-js");
+import { CustomError } from "../utils";
+import { encodeUtf8 } from "./codec";
+
+/**
+ * Public key cryptography used for node identities.
+ * Keys are ECDSA P-256 key pairs, public keys are exported in SPKI (DER)
+ * format and signatures are in IEEE P1363 format (r || s), so that the
+ * browser (WebCrypto) and Node.js implementations can verify each other.
+ */
+export interface CryptoProvider {
+    // if extractable is true, the private key can be exported later
+    generateKeyPair(
+        extractable?: boolean
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ): Promise<{ publicKey: Uint8Array; privateKey: any }>;
+    // export a private key in PKCS#8 (DER) format
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    exportPrivateKey(privateKey: any): Promise<Uint8Array>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    importPrivateKey(pkcs8: Uint8Array): Promise<any>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    sign(privateKey: any, data: Uint8Array): Promise<Uint8Array>;
+    verify(
+        publicKey: Uint8Array,
+        data: Uint8Array,
+        signature: Uint8Array
+    ): Promise<boolean>;
+    // SHA-256
+    digest(data: Uint8Array): Promise<Uint8Array>;
+    // HMAC-SHA-256
+    hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array>;
+    randomBytes(length: number): Uint8Array;
+}
+
+/**
+ * CryptoProvider based on WebCrypto.  Used in browsers.
+ */
+export class WebCryptoProvider implements CryptoProvider {
+    private static readonly ALGORITHM = {
+        name: "ECDSA",
+        namedCurve: "P-256",
+    };
+    private static readonly SIGN_ALGORITHM = {
+        name: "ECDSA",
+        hash: { name: "SHA-256" },
+    };
+
+    private get crypto(): Crypto {
+        if (typeof globalThis === "undefined" || !globalThis.crypto?.subtle) {
+            throw new Error("WebCrypto is not available");
+        }
+        return globalThis.crypto;
+    }
+
+    public async generateKeyPair(
+        extractable = false
+    ): Promise<{
+        publicKey: Uint8Array;
+        privateKey: CryptoKey;
+    }> {
+        const pair = (await this.crypto.subtle.generateKey(
+            WebCryptoProvider.ALGORITHM,
+            extractable,
+            ["sign", "verify"]
+        )) as CryptoKeyPair;
+        const spki = await this.crypto.subtle.exportKey("spki", pair.publicKey);
+        return { publicKey: new Uint8Array(spki), privateKey: pair.privateKey };
+    }
+
+    public async exportPrivateKey(privateKey: CryptoKey): Promise<Uint8Array> {
+        const pkcs8 = await this.crypto.subtle.exportKey("pkcs8", privateKey);
+        return new Uint8Array(pkcs8);
+    }
+
+    public async importPrivateKey(pkcs8: Uint8Array): Promise<CryptoKey> {
+        return this.crypto.subtle.importKey(
+            "pkcs8",
+            pkcs8,
+            WebCryptoProvider.ALGORITHM,
+            false,
+            ["sign"]
+        );
+    }
+
+    public async sign(
+        privateKey: CryptoKey,
+        data: Uint8Array
+    ): Promise<Uint8Array> {
+        const sig = await this.crypto.subtle.sign(
+            WebCryptoProvider.SIGN_ALGORITHM,
+            privateKey,
+            data
+        );
+        return new Uint8Array(sig);
+    }
+
+    public async verify(
+        publicKey: Uint8Array,
+        data: Uint8Array,
+        signature: Uint8Array
+    ): Promise<boolean> {
+        let key: CryptoKey;
+        try {
+            key = await this.crypto.subtle.importKey(
+                "spki",
+                publicKey,
+                WebCryptoProvider.ALGORITHM,
+                false,
+                ["verify"]
+            );
+        } catch (err) {
+            // malformed public key
+            return false;
+        }
+        return this.crypto.subtle.verify(
+            WebCryptoProvider.SIGN_ALGORITHM,
+            key,
+            signature,
+            data
+        );
+    }
+
+    public async digest(data: Uint8Array): Promise<Uint8Array> {
+        const hash = await this.crypto.subtle.digest("SHA-256", data);
+        return new Uint8Array(hash);
+    }
+
+    public async hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+        const k = await this.crypto.subtle.importKey(
+            "raw",
+            key,
+            { name: "HMAC", hash: { name: "SHA-256" } },
+            false,
+            ["sign"]
+        );
+        const mac = await this.crypto.subtle.sign("HMAC", k, data);
+        return new Uint8Array(mac);
+    }
+
+    public randomBytes(length: number): Uint8Array {
+        return this.crypto.getRandomValues(new Uint8Array(length));
+    }
+}
+
+/**
+ * A proof that the sender owns the private key of its NodeID.
+ * The signature covers the challenge nonce given by the verifier.
+ */
+export interface IdentityProof {
+    publicKey: Uint8Array;
+    signature: Uint8Array;
+}
+
+/**
+ * The role of the prover in a connection setup: "initiator" is the node
+ * that sends Hello (or the WebRTC initiator) and "responder" is the other.
+ * The role is included in the signed data so that a proof given in one
+ * direction cannot be reflected in the other direction.
+ */
+export type AuthRole = "initiator" | "responder";
+
+/**
+ * The remote node failed to prove its NodeID.
+ */
+export class AuthenticationError extends CustomError {}
+
+/**
+ * A NodeIdentity in a form that can be stored as JSON.
+ */
+export interface ExportedIdentity {
+    // base64 SPKI
+    publicKey: string;
+    // base64 PKCS#8
+    privateKey: string;
+}
+
+/**
+ * A key pair in the form held by a CryptoProvider.  It can be stored by
+ * the structured clone algorithm (e.g., in IndexedDB) even if the private
+ * key is not extractable.
+ */
+export interface IdentityKeyPair {
+    publicKey: Uint8Array;
+    privateKey: unknown;
+}
+
+/**
+ * A key pair and the NodeID derived from its public key.
+ * Pass an instance to {@link LocalConfig.NODE_IDENTITY}.
+ */
+export class NodeIdentity {
+    private constructor(
+        public readonly nodeId: string,
+        public readonly publicKey: Uint8Array,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        private readonly privateKey: any,
+        private readonly provider: CryptoProvider
+    ) {}
+
+    /**
+     * generate a new key pair.
+     *
+     * @param extractable if true, the identity can be exported by
+     *  {@link NodeIdentity.export}
+     */
+    public static async generate(extractable = false): Promise<NodeIdentity> {
+        const provider = IdentityUtils.getCryptoProvider();
+        const { publicKey, privateKey } = await provider.generateKeyPair(
+            extractable
+        );
+        const nodeId = await IdentityUtils.computeNodeId(publicKey);
+        return new NodeIdentity(nodeId, publicKey, privateKey, provider);
+    }
+
+    /**
+     * restore an identity exported by {@link NodeIdentity.export}.
+     */
+    public static async import(
+        exported: ExportedIdentity
+    ): Promise<NodeIdentity> {
+        const provider = IdentityUtils.getCryptoProvider();
+        const publicKey = b64.toByteArray(exported.publicKey);
+        const privateKey = await provider.importPrivateKey(
+            b64.toByteArray(exported.privateKey)
+        );
+        const nodeId = await IdentityUtils.computeNodeId(publicKey);
+        return new NodeIdentity(nodeId, publicKey, privateKey, provider);
+    }
+
+    /**
+     * restore an identity from {@link NodeIdentity.getKeyPair}.
+     */
+    public static async fromKeyPair(
+        pair: IdentityKeyPair
+    ): Promise<NodeIdentity> {
+        if (!(pair?.publicKey instanceof Uint8Array) || !pair.privateKey) {
+            throw new Error("malformed key pair");
+        }
+        const provider = IdentityUtils.getCryptoProvider();
+        const nodeId = await IdentityUtils.computeNodeId(pair.publicKey);
+        return new NodeIdentity(
+            nodeId,
+            pair.publicKey,
+            pair.privateKey,
+            provider
+        );
+    }
+
+    /**
+     * get the key pair without exporting the private key.
+     */
+    public getKeyPair(): IdentityKeyPair {
+        return { publicKey: this.publicKey, privateKey: this.privateKey };
+    }
+
+    /**
+     * export the key pair.  The identity must be generated with
+     * extractable = true.
+     */
+    public async export(): Promise<ExportedIdentity> {
+        const pkcs8 = await this.provider.exportPrivateKey(this.privateKey);
+        return {
+            publicKey: b64.fromByteArray(this.publicKey),
+            privateKey: b64.fromByteArray(pkcs8),
+        };
+    }
+
+    public sign(data: Uint8Array): Promise<Uint8Array> {
+        return this.provider.sign(this.privateKey, data);
+    }
+
+    /**
+     * answer a challenge given by a verifier.
+     *
+     * @param nonce the challenge
+     * @param verifierNodeId the NodeID of the verifier
+     * @param role the role of this node
+     */
+    public async prove(
+        nonce: Uint8Array,
+        verifierNodeId: string,
+        role: AuthRole
+    ): Promise<IdentityProof> {
+        const data = IdentityUtils.getSignedData(
+            nonce,
+            this.nodeId,
+            verifierNodeId,
+            role
+        );
+        return {
+            publicKey: this.publicKey,
+            signature: await this.sign(data),
+        };
+    }
+
+    public toString(): string {
+        return `NodeIdentity[${this.nodeId}]`;
+    }
+}
+
+export abstract class IdentityUtils {
+    // the length of a NodeID derived from a public key (bytes)
+    public static readonly NODE_ID_LENGTH = 16;
+    public static readonly NONCE_LENGTH = 16;
+    private static provider: CryptoProvider = new WebCryptoProvider();
+
+    /**
+     * replace the crypto implementation (e.g., with the one based on
+     * Node.js's crypto module).
+     */
+    public static setCryptoProvider(provider: CryptoProvider): void {
+        IdentityUtils.provider = provider;
+    }
+
+    public static getCryptoProvider(): CryptoProvider {
+        return IdentityUtils.provider;
+    }
+
+    /**
+     * compute a NodeID from a public key.
+     * A NodeID is the hex representation of the leading bytes of the
+     * SHA-256 hash of the public key (SPKI).
+     */
+    public static async computeNodeId(publicKey: Uint8Array): Promise<string> {
+        const hash = await IdentityUtils.provider.digest(publicKey);
+        return [...hash.subarray(0, IdentityUtils.NODE_ID_LENGTH)]
+            .map((b) => b.toString(16).padStart(2, "0"))
+            .join("");
+    }
+
+    /**
+     * true if nodeId has the form of a NodeID derived from a public key.
+     * Such a NodeID is accepted only when the remote node proves it.
+     */
+    public static isKeyDerivedNodeId(nodeId: string): boolean {
+        return new RegExp(
+            `^[0-9a-f]{${IdentityUtils.NODE_ID_LENGTH * 2}}$`
+        ).test(nodeId);
+    }
+
+    public static createNonce(): Uint8Array {
+        return IdentityUtils.provider.randomBytes(IdentityUtils.NONCE_LENGTH);
+    }
+
+    /**
+     * Get the data signed in an IdentityProof.  The NodeIDs of both ends and
+     * the role of the signer are included so that a proof cannot be reused
+     * for another pair of nodes or in the opposite direction.
+     */
+    public static getSignedData(
+        nonce: Uint8Array,
+        signerNodeId: string,
+        verifierNodeId: string,
+        role: AuthRole
+    ): Uint8Array {
+        const prefix = encodeUtf8(
+            `web-overlay-auth\n${role}\n${signerNodeId}\n${verifierNodeId}\n`
+        );
+        const data = new Uint8Array(prefix.length + nonce.length);
+        data.set(prefix);
+        data.set(nonce, prefix.length);
+        return data;
+    }
+
+    /**
+     * verify an IdentityProof.
+     *
+     * @param proof
+     * @param signerNodeId   the NodeID claimed by the prover
+     * @param verifierNodeId the NodeID of this node
+     * @param nonce          the challenge sent to the prover
+     * @param role           the role of the prover
+     * @return true if the public key matches signerNodeId and the signature
+     *  is valid.
+     */
+    public static async verifyProof(
+        proof: IdentityProof,
+        signerNodeId: string,
+        verifierNodeId: string,
+        nonce: Uint8Array,
+        role: AuthRole
+    ): Promise<boolean> {
+        if (
+            !(proof.publicKey instanceof Uint8Array) ||
+            !(proof.signature instanceof Uint8Array)
+        ) {
+            return false;
+        }
+        const nodeId = await IdentityUtils.computeNodeId(proof.publicKey);
+        if (nodeId !== signerNodeId) {
+            return false;
+        }
+        const data = IdentityUtils.getSignedData(
+            nonce,
+            signerNodeId,
+            verifierNodeId,
+            role
+        );
+        return IdentityUtils.provider.verify(
+            proof.publicKey,
+            data,
+            proof.signature
+        );
+    }
+}
@@ -5,9 +5,28 @@ export * from "./raw/raw";
 export * from "./raw/loopback";
 export * from "./raw/webrtc";
 export * from "./raw/websocket";
+export * from "./raw/fragment";
+export * from "./raw/simulated";
 export * from "./serialize";
+export * from "./codec";
+export * from "./capabilities";
+export * from "./identity";
+export * from "./admission";
+export * from "./simnetwork";
 export * from "./path";
 export * from "./cleaner";
+export * from "./clock";
+export * from "./fault";
+export * from "./metrics";
+export * from "./storage";
+export * from "./rtt";
+export * from "./relay";
+export * from "./upgrade";
+export * from "./ice";
+export * from "./nat";
+export * from "./resume";
+export * from "./stream";
+export * from "./rpc";
 export * from "./config";
 export * from "./logger";
 export * from "./logData";
@@ -5,6 +5,7 @@ import {
     Deferred,
     EquitySet,
     TimeoutDeferred,
+    TypedEventEmitter,
 } from "../utils";
 import { Config, ManagerConfig, defaultConfig } from "./config";
 import {
@@ -18,11 +19,29 @@ import {
 import { PeerConnection } from "./peerconnection";
 import { RawConnection, RawConnectionType } from "./raw/raw";
 import { Path } from "./path";
-import { WsConnection } from "./raw/websocket";
+import { NativeWsConnection, WsConnection } from "./raw/websocket";
 import { LoopbackConnection } from "./raw/loopback";
 import { Cleanable, Cleaner } from "./cleaner";
 import { WebRTCConnection } from "./raw/webrtc";
 import { Logger, LogSender } from "./logger";
+import {
+    Capabilities,
+    MIN_PROTOCOL_VERSION,
+    PROTOCOL_VERSION,
+} from "./capabilities";
+import { CodecUtils } from "./codec";
+import { SerializeUtils } from "./serialize";
+import { NodeIdentity } from "./identity";
+import { Clock, RealClock } from "./clock";
+import { FaultInjector } from "./fault";
+import { ManagerMetrics } from "./metrics";
+import { PersistedState, StorageUtils } from "./storage";
+import { LinkRttTable } from "./rtt";
+import { RelayBudget } from "./relay";
+import { RelayUpgradeHistory } from "./upgrade";
+import { IceServerGrant, IceServerTable } from "./ice";
+import { NatProbeResult, NatProber } from "./nat";
+import { RpcUtils } from "./rpc";
 import isNode = require("detect-node");
 
 // setup UnhandledRejectionHandler for debugging
@@ -68,6 +87,10 @@ export enum PeerConnectionState {
     A_WAIT_RELAY,
     /** connected */
     CONNECTED,
+    /** connected, but the RawConnection is being recovered */
+    RECONNECTING,
+    /** all paths are lost and being resumed */
+    RESUMING,
     /** error state */
     ERROR,
     REJECTED,
@@ -107,13 +130,33 @@ export class DisconnectedError extends CustomError {}
 /**
  * Connection request is rejected by remote node.
  * See {@link ConnectionRequest.reject}.
+ * Also thrown when a portal node does not admit this node to the network
+ * (see admission.ts).
  */
 export class RejectionError extends CustomError {}
 
+/**
+ * A message is dropped because the outgoing queue of a RawConnection is full.
+ * See {@link Config.SEND_QUEUE_MAX_LENGTH}.
+ */
+export class SendQueueFullError extends CustomError {}
+
+/**
+ * A request or a connection attempt is aborted by an AbortSignal.
+ * See {@link RequestOptions}.
+ */
+export class AbortError extends CustomError {}
+
 export const ManagerRejectReasons = {
     CONSTRAINT: "CONSTRAINT CANNOT BE SATISFIED",
     NO_RELAY_IS_ON: "RELAY IS NECESSARY BUT noRelay IS SPECIFIED",
     ENABLE_RELAY_IS_OFF: "RELAY IS NECESSARY BUT and ENABLE_RELAY IS OFF",
+    INCOMPATIBLE_PROTOCOL: "INCOMPATIBLE PROTOCOL VERSION",
+    ADMISSION_REQUIRED: "NETWORK KEY OR INVITE TOKEN IS REQUIRED",
+    INVALID_NETWORK_KEY: "INVALID NETWORK KEY",
+    INVALID_INVITE_TOKEN: "INVALID OR EXPIRED INVITE TOKEN",
+    RELAY_IS_OFF: "THIS NODE DOES NOT ACT AS A RELAY",
+    RELAY_OVER_BUDGET: "RELAY BUDGET IS EXCEEDED",
 };
 
 export interface ConnectOptions {
@@ -128,6 +171,8 @@ export interface AcceptOptions {
 export interface NodeSpec {
     webrtc?: boolean;
     serverUrl?: string;
+    // the result of the connectivity probe (see nat.ts)
+    nat?: NatProbeResult;
 }
 
 export type ConnectSpec = NodeSpec & ConnectOptions;
@@ -144,6 +189,35 @@ export interface PortalCacheInfo {
     lastSuccessfulConnectionTime?: number /* Date */;
 }
 
+/**
+ * Events emitted by {@link Manager.events}.
+ * Listeners are called synchronously.
+ */
+export interface ManagerEvents {
+    // a RawConnection is bound to a remote node (after Hello/HelloReply)
+    rawConnected: [RawConnection];
+    // a RawConnection bound to a remote node is closed
+    rawDisconnected: [RawConnection];
+    // a RawConnection starts recovering its lost transport
+    rawReconnecting: [RawConnection];
+    // a RawConnection recovers its transport
+    rawReconnected: [RawConnection];
+    peerConnectionEstablished: [PeerConnection, RawConnectionType];
+    // an established PeerConnection is closed
+    peerConnectionClosed: [PeerConnection];
+    relayPathAdded: [PeerConnection, Path];
+    relayPathRemoved: [PeerConnection, Path];
+    // a relayed PeerConnection is switched to a direct connection
+    peerConnectionUpgraded: [PeerConnection, RawConnectionType];
+    // an established PeerConnection loses all paths and starts resuming
+    peerConnectionResuming: [PeerConnection];
+    // a PeerConnection is resumed with a new path
+    peerConnectionResumed: [PeerConnection, Path];
+    suspiciousNode: [string /* nodeId */];
+    // the set of URLs in the portal cache is changed
+    portalCacheChanged: [string[] /* URLs */];
+}
+
 /**
  * Managerクラス
  */
@@ -155,6 +229,8 @@ export class Manager implements Cleanable {
     public readonly rawLogger: Logger;
     public readonly networkId?: string;
     private readonly nodeId: string;
+    private readonly identity?: NodeIdentity;
+    public readonly clock: Clock;
     public readonly isWebRTCSupported = WebRTCConnection.isWebRTCSupported();
 
     // mapping from a key to an object whose property is set by registerApp().
@@ -162,6 +238,22 @@ export class Manager implements Cleanable {
     private apps = new Map<string, any>();
 
     public isMuted = false;
+    // fault injection rules (for simulating failures)
+    public readonly faults = new FaultInjector();
+    // counters and histograms for monitoring
+    public readonly metrics: ManagerMetrics;
+    // connection lifecycle events
+    public readonly events: TypedEventEmitter<ManagerEvents>;
+    // measured and estimated RTTs of links (for relay path selection)
+    public readonly linkRtts = new LinkRttTable(this);
+    // limits of traffic that this node relays for other nodes
+    public readonly relayBudget = new RelayBudget(this);
+    // failures of upgrading relayed PeerConnections, per remote node
+    public readonly relayUpgradeHistory = new RelayUpgradeHistory(this);
+    // STUN/TURN servers for WebRTC, including ones delivered by portals
+    public readonly iceServers = new IceServerTable(this);
+    // the NAT type of this node, probed after connecting to a portal
+    public readonly natProber = new NatProber(this);
 
     private loopbackConnection?: LoopbackConnection;
     public readonly peerConnections: PeerConnection[] = [];
@@ -171,12 +263,20 @@ export class Manager implements Cleanable {
 
     // nodeId -> RawConnection
     private readonly nodeIdConnections = new Map<string, RawConnection>();
+    // RawConnections for which rawConnected event has been emitted
+    private readonly boundRawConnections = new WeakSet<RawConnection>();
 
     // nodes that we could not established a direct connection to
-    private indirectNodes = new Set<string>();
+    private indirectNodes = new Map<
+        string /* nodeId */,
+        number /* expiration time */
+    >();
 
     // nodes that are likely failed
-    private readonly suspiciousNodes = new Set<string>();
+    private readonly suspiciousNodes = new Map<
+        string /* nodeId */,
+        number /* expiration time */
+    >();
 
     public nextMsgId = Math.floor(Math.random() * 65536);
     public nextAckId = Math.floor(Math.random() * 65536);
@@ -193,6 +293,12 @@ export class Manager implements Cleanable {
         OngoingRequestInfo
     >();
 
+    // handlers registered by RequestMessage.onCancel() at recipient nodes
+    private readonly cancelHandlers = new Map<
+        string /* srcNodeId:msgId */,
+        () => void
+    >();
+
     // ack management
     public readonly unAckedMessages = new Map<
         number /* ackRequestId */,
@@ -205,6 +311,10 @@ export class Manager implements Cleanable {
         PortalCacheInfo
     >();
     public static readonly PORTAL_CACHE_EXPIRE_TIME = 60 * 60 * 1000;
+    // changes are written to LocalConfig.STORAGE after this delay
+    public static readonly STATE_SAVE_DELAY = 1000;
+    private static readonly STATE_SAVE_TIMER_NAME = "Manager.saveState";
+    private isStateSaveScheduled = false;
     public readonly cleaner: Cleaner;
 
     /**
@@ -217,7 +327,14 @@ export class Manager implements Cleanable {
         if (conf) {
             Object.assign(this.config, conf);
         }
-        this.nodeId = conf?.NODE_ID || generateRandomId();
+        this.identity = this.config.NODE_IDENTITY;
+        this.clock = this.config.CLOCK || RealClock.INSTANCE;
+        this.metrics = new ManagerMetrics(this);
+        this.events = new TypedEventEmitter<ManagerEvents>((err, event) =>
+            this.mgrLogger.warn("listener of %s failed: %s", event, err)
+        );
+        this.nodeId =
+            this.identity?.nodeId || conf?.NODE_ID || generateRandomId();
         if (this.config.LOG_SERVER_URL) {
             this.logSender = new LogSender(
                 this.nodeId,
@@ -241,6 +358,9 @@ export class Manager implements Cleanable {
         if (!isNode && !this.isWebRTCSupported) {
             this.mgrLogger.warn("This browser does not support WebRTC!");
         }
+        if (this.config.PERSISTED_STATE) {
+            this.restoreState(this.config.PERSISTED_STATE);
+        }
     }
 
     /**
@@ -287,6 +407,23 @@ export class Manager implements Cleanable {
         return obj ? obj[prop] : undefined;
     }
 
+    /**
+     * Register an object as an RPC service.  Remote nodes call its methods
+     * via a client proxy (see PeerConnection.createRpcClient), through a
+     * PeerConnection or a DDLL node whose local key is `key`.
+     *
+     * @param key
+     * @param service the service name
+     * @param impl
+     */
+    public registerService(key: string, service: string, impl: unknown): void {
+        this.registerApp(key, RpcUtils.getPropName(service), impl);
+    }
+
+    public unregisterService(key: string, service: string): void {
+        this.unregisterApp(key, RpcUtils.getPropName(service));
+    }
+
     public getApps<T>(prop: string): T[] {
         const rc = [...this.apps.values()]
             .map((obj) => obj[prop])
@@ -316,14 +453,17 @@ export class Manager implements Cleanable {
             pc.bindRawConnection(raw);
             pc.established();
             this.addPortalURL(url, {
-                lastSuccessfulConnectionTime: Date.now(),
+                lastSuccessfulConnectionTime: this.clock.now(),
             });
+            this.natProber.start(
+                raw instanceof WsConnection ? raw.myAddress : undefined
+            );
             return pc;
         } catch (err) {
             pc.setState(PeerConnectionState.ERROR);
             pc.destroy();
             const obj = this.portalCache.get(url) || {};
-            const now = Date.now();
+            const now = this.clock.now();
             obj.lastConnectionFailTime = now;
             obj.earliestConnectionFailTime =
                 obj.earliestConnectionFailTime || now;
@@ -332,7 +472,7 @@ export class Manager implements Cleanable {
                     Manager.PORTAL_CACHE_EXPIRE_TIME <
                 now
             ) {
-                this.portalCache.delete(url);
+                this.deletePortalURL(url);
                 this.mgrLogger.debug(
                     "connectPortal: %s is purged from portalCache",
                     url
@@ -436,6 +576,11 @@ export class Manager implements Cleanable {
      */
     public destroy(): void {
         this.mgrLogger.debug("destroy()");
+        if (this.isStateSaveScheduled) {
+            this.saveState().catch((err) =>
+                this.mgrLogger.warn("saveState failed: %s", err)
+            );
+        }
         // this order is important because cleaner code may call unregisterApp().
         this.cleaner.clean();
         this.apps.clear();
@@ -482,6 +627,28 @@ export class Manager implements Cleanable {
         return ent ? ent.req : undefined;
     }
 
+    public _registerCancelHandler(key: string, handler: () => void): void {
+        this.cancelHandlers.set(key, handler);
+    }
+
+    public _unregisterCancelHandler(key: string): void {
+        this.cancelHandlers.delete(key);
+    }
+
+    /**
+     * called when RequestCancelNotify is received.
+     */
+    public _handleCancelNotify(srcNodeId: string, reqMsgId: number): void {
+        const key = `${srcNodeId}:${reqMsgId}`;
+        const handler = this.cancelHandlers.get(key);
+        if (!handler) {
+            this.mgrLogger.debug("no cancel handler: %s", key);
+            return;
+        }
+        this.cancelHandlers.delete(key);
+        handler();
+    }
+
     public handleAck(ack: Ack): void {
         const ackStat = this.unAckedMessages.get(ack.ackReplyId);
         if (!ackStat) {
@@ -521,6 +688,13 @@ export class Manager implements Cleanable {
                 raw.getConnectionType() === RawConnectionType.Loopback)
         ) {
             this.nodeIdConnections.set(remNodeId, raw);
+            if (
+                raw.getConnectionType() !== RawConnectionType.Loopback &&
+                !this.boundRawConnections.has(raw)
+            ) {
+                this.boundRawConnections.add(raw);
+                this.events.emit("rawConnected", raw);
+            }
         }
         this.mgrLogger.debug(
             "nodeIdConnections.keys=%s",
@@ -536,6 +710,28 @@ export class Manager implements Cleanable {
         if (remNodeId) {
             this.nodeIdConnections.delete(remNodeId);
         }
+        if (this.boundRawConnections.delete(raw)) {
+            this.events.emit("rawDisconnected", raw);
+        }
+    }
+
+    /**
+     * called by RawConnection when it starts or finishes reconnecting.
+     *
+     * @param raw
+     * @param reconnecting
+     */
+    public _onRawReconnecting(raw: RawConnection, reconnecting: boolean): void {
+        this.getPeerConnections().forEach((pc) => {
+            if (pc.getRawConnection() === raw) {
+                pc._setReconnecting(reconnecting);
+            }
+        });
+        if (reconnecting) {
+            this.events.emit("rawReconnecting", raw);
+        } else {
+            this.events.emit("rawReconnected", raw);
+        }
     }
 
     /**
@@ -575,10 +771,60 @@ export class Manager implements Cleanable {
         return this.nodeId;
     }
 
+    /**
+     * Get the identity of this node, or undefined if the NodeID is not
+     * derived from a key pair.
+     */
+    public getIdentity(): NodeIdentity | undefined {
+        return this.identity;
+    }
+
+    /**
+     * get TURN servers and credentials delivered to a node that connects
+     * to this node (in HelloReply).
+     * overridden by a subclass (portal nodes).
+     *
+     * @param nodeId
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public createIceServerGrant(nodeId: string): IceServerGrant | undefined {
+        return undefined;
+    }
+
     // overridden by a subclass
     public getNodeSpec(): NodeSpec {
         return {
             webrtc: this.isWebRTCSupported,
+            nat: this.natProber.getResult(),
+        };
+    }
+
+    /**
+     * create a (not yet connected) RawConnection to a portal node.
+     * overridden by a subclass.
+     */
+    public createPortalConnection(url: string): WsConnection {
+        return this.config.PORTAL_TRANSPORT === "websocket"
+            ? new NativeWsConnection(this, url)
+            : new WsConnection(this, url);
+    }
+
+    /**
+     * get the features supported by this node.
+     */
+    public getCapabilities(): Capabilities {
+        const apps = new Set<string>();
+        for (const obj of this.apps.values()) {
+            Object.keys(obj).forEach((prop) => apps.add(prop));
+        }
+        return {
+            version: PROTOCOL_VERSION,
+            minVersion: MIN_PROTOCOL_VERSION,
+            codecs: CodecUtils.getCodecNames(),
+            // no compression scheme is implemented yet
+            compression: [],
+            classTable: SerializeUtils.getClassTableDigest(),
+            apps: [...apps],
         };
     }
 
@@ -654,7 +900,9 @@ export class Manager implements Cleanable {
         }
         if (doCreate) {
             defer = new TimeoutDeferred(
-                this.config.MAX_RAWCONNECTION_ESTABLISH_TIME
+                this.config.MAX_RAWCONNECTION_ESTABLISH_TIME,
+                undefined,
+                this.clock
             );
             defer.promise.then(
                 () => this.removeHelloDefer(nodeId),
@@ -680,8 +928,8 @@ export class Manager implements Cleanable {
         msg.isReceived = true;
         // source node is no longer suspicious
         const src = msg.srcNodeId;
-        if (src) {
-            this.suspiciousNodes.delete(src);
+        if (src && this.suspiciousNodes.delete(src)) {
+            this.scheduleSaveState();
         }
         const pc = msg.peerConnection;
         msg.invokeOnReceive(pc?.getLocalKey());
@@ -705,23 +953,27 @@ export class Manager implements Cleanable {
      *
      * @param nodeId
      */
-    public _registerIndirectNode(nodeId: string): void {
+    public _registerIndirectNode(
+        nodeId: string,
+        duration = this.config.INDIRECT_NODE_EXPIRATION_TIME
+    ): void {
         if (nodeId === this.nodeId) {
             return;
         }
-        this.indirectNodes.add(nodeId);
+        this.indirectNodes.set(nodeId, this.clock.now() + duration);
         this.cleaner.startTimer(
             this,
             "expireIndirect:" + nodeId,
-            this.config.INDIRECT_NODE_EXPIRATION_TIME,
+            duration,
             () => {
                 this.indirectNodes.delete(nodeId);
             }
         );
+        this.scheduleSaveState();
     }
 
     public getIndirectNodes(): string[] {
-        return [...this.indirectNodes.values()];
+        return [...this.indirectNodes.keys()];
     }
 
     public _isIndirectNode(nodeId: string): boolean {
@@ -731,11 +983,19 @@ export class Manager implements Cleanable {
     /*
      * Suspicious nodes (possibly failed nodes) handling
      */
-    public _registerSuspiciousNode(nodeId: string): void {
+    public _registerSuspiciousNode(
+        nodeId: string,
+        duration = this.config.SUSPICIOUS_NODE_EXPIRATION_TIME
+    ): void {
         if (nodeId === this.nodeId) {
             return;
         }
-        this.suspiciousNodes.add(nodeId);
+        const isNew = !this.suspiciousNodes.has(nodeId);
+        this.suspiciousNodes.set(nodeId, this.clock.now() + duration);
+        this.metrics.suspiciousNodes.inc();
+        if (isNew) {
+            this.events.emit("suspiciousNode", nodeId);
+        }
         this.mgrLogger.debug(
             "_registerSuspiciousNode: add %s: %s",
             nodeId,
@@ -744,15 +1004,16 @@ export class Manager implements Cleanable {
         this.cleaner.startTimer(
             this,
             "expireSuspicious:" + nodeId,
-            this.config.SUSPICIOUS_NODE_EXPIRATION_TIME,
+            duration,
             () => {
                 this.suspiciousNodes.delete(nodeId);
             }
         );
+        this.scheduleSaveState();
     }
 
     public getSuspiciousNodes(): string[] {
-        return [...this.suspiciousNodes.values()];
+        return [...this.suspiciousNodes.keys()];
     }
 
     public isSuspiciousNode(nodeId: string): boolean {
@@ -766,16 +1027,24 @@ export class Manager implements Cleanable {
             return;
         }
         opt = opt || {};
+        const isNew = !this.portalCache.has(url);
         this.portalCache.set(url, opt);
         this.mgrLogger.debug("addPortalURL: url=%s, opt=%j", url, opt);
         this.mgrLogger.debug(
             "addPortalURL: current set={%s}",
             this.getPortalURLs()
         );
+        if (isNew) {
+            this.events.emit("portalCacheChanged", this.getPortalURLs());
+        }
+        this.scheduleSaveState();
     }
 
     public deletePortalURL(url: string): void {
-        this.portalCache.delete(url);
+        if (this.portalCache.delete(url)) {
+            this.events.emit("portalCacheChanged", this.getPortalURLs());
+            this.scheduleSaveState();
+        }
     }
 
     public getPortalURLs(): string[] {
@@ -795,7 +1064,7 @@ export class Manager implements Cleanable {
         while (this.portalCache.size > 0) {
             // sort by latest connection success date
             const entries = [...this.portalCache.entries()];
-            const now = Date.now();
+            const now = this.clock.now();
             /*
              * EARLIEST_FAIL         LAST_FAIL    NOW             NEXT_TRY
              *      |-------- T ---------|---------- T*FACTOR -------->
@@ -837,6 +1106,106 @@ export class Manager implements Cleanable {
         throw new Error("no portal node is available");
     }
 
+    /*
+     * Persistent state (see storage.ts)
+     */
+
+    /**
+     * Get the state to be saved in LocalConfig.STORAGE.
+     */
+    public getPersistedState(): PersistedState {
+        const now = this.clock.now();
+        const unexpired = (map: Map<string, number>): [string, number][] =>
+            [...map.entries()].filter(([, expire]) => expire > now);
+        return {
+            ...StorageUtils.emptyState(),
+            identity: this.config.PERSISTED_STATE?.identity,
+            portalCache: [...this.portalCache.entries()],
+            suspiciousNodes: unexpired(this.suspiciousNodes),
+            indirectNodes: unexpired(this.indirectNodes),
+        };
+    }
+
+    /**
+     * Save the state to LocalConfig.STORAGE immediately.
+     * The state is also saved automatically when it is changed.
+     */
+    public async saveState(): Promise<void> {
+        this.cleaner.cancelTimer(Manager.STATE_SAVE_TIMER_NAME);
+        this.isStateSaveScheduled = false;
+        const storage = this.config.STORAGE;
+        if (!storage) {
+            return;
+        }
+        await storage.set(
+            StorageUtils.getKey(this.config),
+            JSON.stringify(this.getPersistedState())
+        );
+    }
+
+    private scheduleSaveState(): void {
+        if (!this.config.STORAGE || this.isStateSaveScheduled) {
+            return;
+        }
+        this.isStateSaveScheduled = true;
+        this.cleaner.startTimer(
+            this,
+            Manager.STATE_SAVE_TIMER_NAME,
+            Manager.STATE_SAVE_DELAY,
+            () => {
+                this.saveState().catch((err) =>
+                    this.mgrLogger.warn("saveState failed: %s", err)
+                );
+            }
+        );
+    }
+
+    private restoreState(state: PersistedState): void {
+        const now = this.clock.now();
+        for (const [url, info] of state.portalCache) {
+            // portals that have been failing for a long time are purged
+            // as in connectPortal()
+            if (
+                info.earliestConnectionFailTime &&
+                info.earliestConnectionFailTime +
+                    Manager.PORTAL_CACHE_EXPIRE_TIME <
+                    now
+            ) {
+                continue;
+            }
+            this.portalCache.set(url, info);
+        }
+        const restore = (
+            entries: [string, number][],
+            map: Map<string, number>,
+            timerPrefix: string
+        ): void => {
+            for (const [nodeId, expire] of entries) {
+                if (expire > now && nodeId !== this.nodeId) {
+                    map.set(nodeId, expire);
+                    this.cleaner.startTimer(
+                        this,
+                        timerPrefix + nodeId,
+                        expire - now,
+                        () => map.delete(nodeId)
+                    );
+                }
+            }
+        };
+        restore(
+            state.suspiciousNodes,
+            this.suspiciousNodes,
+            "expireSuspicious:"
+        );
+        restore(state.indirectNodes, this.indirectNodes, "expireIndirect:");
+        this.mgrLogger.debug(
+            "restoreState: portals=%s, suspicious=%s, indirect=%s",
+            this.getPortalURLs(),
+            this.getSuspiciousNodes(),
+            this.getIndirectNodes()
+        );
+    }
+
     public getAgentString(): string {
         let ag: string;
         if (isNode) {
@@ -895,9 +1264,9 @@ export class Manager implements Cleanable {
                 .map((raw) => `  [${raw.id}] ${raw}`)
                 .join("\n"),
             bar("Indirect Nodes"),
-            `${[...this.indirectNodes.values()]}`,
+            `${[...this.indirectNodes.keys()]}`,
             bar("Suspicious Nodes"),
-            `${[...this.suspiciousNodes.values()]}`,
+            `${[...this.suspiciousNodes.keys()]}`,
             "-".repeat(W),
         ].join("\n");
     }
@@ -1,5 +1,6 @@
 import { override } from "core-decorators";
 import {
+    AbortError,
     AcceptOptions,
     ConnectOptions,
     ConnectSpec,
@@ -14,11 +15,31 @@ import { serializable, SerializeUtils, transient } from "./serialize";
 import { Path } from "./path";
 import { Cleaner } from "./cleaner";
 import { Deferred, prettyPrint, quote } from "../utils";
+import { Capabilities } from "./capabilities";
+import { LinkRtt } from "./rtt";
+
+/**
+ * Scheduling classes of messages.  When a RawConnection is congested,
+ * queued messages of a higher class (smaller value) are sent first.
+ */
+export enum MessagePriority {
+    // connection management and failure detection
+    CONTROL,
+    NORMAL,
+    // large or delay-tolerant payloads such as replication
+    BULK,
+}
 
 export interface MessageSpec {
     noAck?: boolean;
-    // TODO: currently all messages are noSequence! (see PeerConnection#send)
+    // not delivered in order in the reliable delivery mode of PeerConnection
+    // (CONTROL messages are never ordered)
     noSequence?: boolean;
+    // MessagePriority.NORMAL if omitted
+    priority?: MessagePriority;
+    // a CONTROL message that must not overtake the messages queued earlier
+    // for the same PeerConnection (see RawConnection#send)
+    barrier?: boolean;
 }
 
 /**
@@ -143,6 +164,14 @@ export abstract class Message {
         this.rawConnection = container.rawConnection;
         this.peerConnection = container.peerConnection;
         this.isReceived = true;
+        if (!this.cleaner) {
+            // cleaner is transient and a received piggy-backed message is
+            // not passed to afterRestore()
+            this.cleaner = new Cleaner(
+                container.manager.mgrLogger,
+                container.manager.cleaner
+            );
+        }
         if (container.source) {
             this.source = new Path(
                 container.source.asArray(),
@@ -179,8 +208,20 @@ export abstract class Message {
         }
     }
 
+    /**
+     * called on an intermediate node before this message is forwarded to
+     * the next hop.
+     *
+     * @return false if this message should not be forwarded
+     */
+    public beforeRelay(): boolean {
+        return true;
+    }
+
     /**
      * forward this message along with this.destination or specified destination.
+     * At each hop, the message is scheduled according to its priority
+     * (see {@link RawConnection.send}).
      */
     public forward(destination?: Path): void {
         if (!this.source) {
@@ -280,12 +321,17 @@ export abstract class Message {
             manager.config.ACK_TIMEOUT,
             () => {
                 manager.mgrLogger.debug("ack timeout: %s", this);
+                manager.metrics.ackTimeouts.inc();
                 const dest = destRaw.getRemoteNodeId();
                 if (dest) {
                     manager._registerSuspiciousNode(dest);
                 }
                 ackStat.destroy();
-                destRaw.destroy();
+                // a reconnecting connection is closed when its grace
+                // period expires
+                if (!destRaw.isReconnecting()) {
+                    destRaw.destroy();
+                }
             }
         );
     }
@@ -312,11 +358,16 @@ export abstract class Message {
     }
 
     public ackReceived(ackStat: AckStat): void {
+        const rtt = this.manager.clock.now() - ackStat.time;
         this.manager.mgrLogger.debug(
             "Ack received for %s, ack time=%d",
             ackStat.message,
-            Date.now() - ackStat.time
+            rtt
         );
+        const remote = ackStat.destRaw.getRemoteNodeId();
+        if (remote) {
+            this.manager.linkRtts.update(this.manager.getNodeId(), remote, rtt);
+        }
         ackStat.destroy();
     }
 }
@@ -327,12 +378,24 @@ export interface RequestMessageSpec extends MessageSpec {
     allowMultipleReply?: boolean;
 }
 
+/**
+ * Options for {@link RequestMessage.request}.
+ */
+export interface RequestOptions {
+    // aborting the signal rejects the request with AbortError
+    signal?: AbortSignal;
+    // on abort, send RequestCancelNotify to the destination so that the
+    // recipient node stops handling the request (see RequestMessage.onCancel)
+    notifyCancel?: boolean;
+}
+
 export class AckStat {
     private readonly manager: Manager;
-    public readonly time = Date.now();
+    public readonly time: number;
     cleaner: Cleaner;
     constructor(public message: Message, public destRaw: RawConnection) {
         this.manager = message.manager;
+        this.time = this.manager.clock.now();
         this.cleaner = new Cleaner(this.manager.mgrLogger);
     }
     public destroy(): void {
@@ -361,6 +424,9 @@ export abstract class RequestMessage<
     public _onReply?: ReplyHandler<U> | StreamingReplyHandler<U>;
     @transient
     public readonly isRequestingNode: boolean;
+    // the time when this request is sent (for measuring the latency)
+    @transient
+    private requestTime?: number;
 
     /**
      * @constructor
@@ -378,6 +444,7 @@ export abstract class RequestMessage<
     }
 
     private prepareForReply(): void {
+        this.requestTime = this.manager.clock.now();
         if (this.getSpec().noReplyTimeout) {
             return;
         }
@@ -386,6 +453,9 @@ export abstract class RequestMessage<
             RequestMessage.REPLY_TIMER_NAME,
             this.manager.config.REPLY_TIMEOUT,
             () => {
+                this.manager.metrics.replyTimeouts.inc({
+                    class: this.constructor.name,
+                });
                 this.fail(new ReplyTimeoutError("timeout: " + this));
             }
         );
@@ -439,6 +509,9 @@ export abstract class RequestMessage<
     public sendReply(msg: U): void {
         this.checkReply(msg);
         msg.forward();
+        if (!this.getSpec().allowMultipleReply) {
+            this.manager._unregisterCancelHandler(this.getCancelKey());
+        }
     }
 
     protected checkReply(msg: U): void {
@@ -476,6 +549,13 @@ export abstract class RequestMessage<
                 );
                 return;
             }
+            if (this.requestTime !== undefined) {
+                this.manager.metrics.requestLatency.observe(
+                    (this.manager.clock.now() - this.requestTime) / 1000,
+                    { class: this.constructor.name }
+                );
+                this.requestTime = undefined;
+            }
         }
         if (!onReplyHandler) {
             this.destroy();
@@ -493,6 +573,65 @@ export abstract class RequestMessage<
         }
     }
 
+    /**
+     * Abort this request at the requesting node.  The reply handler gets
+     * AbortError, the reply timer is canceled and no more replies are
+     * delivered.
+     *
+     * @param notify if specified, RequestCancelNotify is sent to it
+     */
+    public abort(notify?: PeerConnection | RawConnection | Path): void {
+        if (
+            this.isFailed ||
+            this.manager._lookupRequestMessage(this.msgId) !== this
+        ) {
+            // already replied, failed or not sent yet
+            return;
+        }
+        if (notify) {
+            this.sendCancelNotify(notify);
+        }
+        this.fail(new AbortError("aborted: " + this));
+        this.destroy();
+    }
+
+    private sendCancelNotify(
+        dest: PeerConnection | RawConnection | Path
+    ): void {
+        const notify = new RequestCancelNotify(this.manager, this.msgId);
+        try {
+            if (dest instanceof Path) {
+                notify.forward(dest);
+            } else if (dest.isConnected()) {
+                notify.beforeSend();
+                dest.send(notify).catch(() => {
+                    /* ignore */
+                });
+            }
+        } catch (err) {
+            this.manager.mgrLogger.info("sendCancelNotify: %s", err);
+        }
+    }
+
+    /**
+     * Register a handler that is called at the recipient node when the
+     * requesting node aborts this request and sends RequestCancelNotify.
+     * Use this to stop long-running handling such as streaming replies.
+     * The handler is unregistered when a reply is sent (unless
+     * allowMultipleReply is set) or this request is destroyed.
+     *
+     * @param handler
+     */
+    public onCancel(handler: () => void): void {
+        const key = this.getCancelKey();
+        this.manager._registerCancelHandler(key, handler);
+        this.cleaner.push(() => this.manager._unregisterCancelHandler(key));
+    }
+
+    private getCancelKey(): string {
+        return `${this.srcNodeId}:${this.msgId}`;
+    }
+
     /**
      * Make the request fail.
      *
@@ -514,8 +653,13 @@ export abstract class RequestMessage<
         dest: PeerConnection | RawConnection | Path,
         container: Message | undefined,
         handler: (_: U) => V,
-        onError?: (_: Error) => V
+        onError?: (_: Error) => V,
+        opts?: RequestOptions
     ): Promise<V> {
+        const signal = opts?.signal;
+        if (signal?.aborted) {
+            throw new AbortError("aborted: " + this);
+        }
         const defer = new Deferred<V>();
         this.onReply((reply) => {
             this.manager.mgrLogger.debug("requestAndHandle: got reply!");
@@ -549,14 +693,29 @@ export abstract class RequestMessage<
             msg.beforeSend();
             dest.send(msg);
         }
+        if (signal) {
+            const onAbort = (): void =>
+                this.abort(opts?.notifyCancel ? dest : undefined);
+            signal.addEventListener("abort", onAbort);
+            this.cleaner.push(() =>
+                signal.removeEventListener("abort", onAbort)
+            );
+        }
         return defer.promise;
     }
 
     public async request(
         dest: PeerConnection | RawConnection | Path,
-        container?: Message
+        container?: Message,
+        opts?: RequestOptions
     ): Promise<U> {
-        return this.requestAndHandle(dest, container, (reply) => reply);
+        return this.requestAndHandle(
+            dest,
+            container,
+            (reply) => reply,
+            undefined,
+            opts
+        );
     }
 }
 
@@ -613,6 +772,7 @@ export class Ack extends Message {
         return {
             noAck: true,
             noSequence: true,
+            priority: MessagePriority.CONTROL,
         };
     }
 
@@ -625,6 +785,31 @@ export class Ack extends Message {
     }
 }
 
+/**
+ * Sent from a requesting node when it aborts a request.
+ * See {@link RequestMessage.abort}.
+ */
+@serializable
+export class RequestCancelNotify extends Message {
+    constructor(manager: Manager, public readonly reqMsgId: number) {
+        super(manager);
+    }
+
+    public getSpec(): MessageSpec {
+        return {
+            noAck: true,
+            noSequence: true,
+            priority: MessagePriority.CONTROL,
+        };
+    }
+
+    public onReceive(): void {
+        if (this.srcNodeId) {
+            this.manager._handleCancelNotify(this.srcNodeId, this.reqMsgId);
+        }
+    }
+}
+
 @serializable
 export class NoNextHopNotify extends Message {
     constructor(
@@ -640,6 +825,7 @@ export class NoNextHopNotify extends Message {
         return {
             noAck: true,
             noSequence: true,
+            priority: MessagePriority.CONTROL,
         };
     }
 
@@ -665,6 +851,8 @@ export abstract class ConnectionRequest extends RequestMessage<
     // the key of the connecting node
     public readonly connectKey: string;
     public readonly connectSpec: ConnectSpec;
+    // the capabilities of the connecting node (undefined if legacy)
+    public readonly connectCapabilities?: Capabilities;
 
     // fires when PeerConnection is established
     @transient
@@ -682,6 +870,7 @@ export abstract class ConnectionRequest extends RequestMessage<
         super(manager);
         this.connectKey = localKey;
         this.connectSpec = manager.getNodeSpec();
+        this.connectCapabilities = manager.getCapabilities();
         if (connectOpts) {
             this.connectSpec.noRelay = connectOpts.noRelay;
             this.connectSpec.webrtcOnly = connectOpts.webrtcOnly;
@@ -740,6 +929,20 @@ export abstract class ConnectionRequest extends RequestMessage<
         this.manager._reject(this, reason);
     }
 
+    /**
+     * Abort the connection attempt.  The PeerConnection is destroyed unless
+     * it has been established.
+     *
+     * @param notify
+     */
+    @override
+    public abort(notify?: PeerConnection | RawConnection | Path): void {
+        super.abort(notify);
+        this.peerConnection?._abortEstablishing(
+            new AbortError("connection is aborted")
+        );
+    }
+
     @override
     public getSpec(): RequestMessageSpec {
         return {
@@ -787,11 +990,15 @@ export class ConnectionReply extends ReplyMessage<
     public readonly acceptPeerConnectionId?: number;
     public readonly acceptKey?: string;
     public readonly acceptSpec: NodeSpec;
+    // the capabilities of the accepting node (undefined if legacy)
+    public readonly acceptCapabilities?: Capabilities;
     public readonly type: ConnectType;
     public readonly sdp?: string;
     public readonly rejectReason?: string; // used when type == ConnectType.REJECT
     // all paths that the accept node has
     public readonly acceptNodePaths?: Path[];
+    // the secret required for resuming the PeerConnection (see resume.ts)
+    public readonly resumeSecret?: Uint8Array;
 
     constructor(
         manager: Manager,
@@ -844,8 +1051,10 @@ export class ConnectionReply extends ReplyMessage<
         super(creq);
         this.acceptPeerConnectionId = pc ? pc.localConnId : undefined;
         this.acceptKey = pc ? pc.getLocalKey() : undefined;
+        this.resumeSecret = pc ? pc.resumeSecret : undefined;
         this.sdp = sdp;
         this.acceptSpec = manager.getNodeSpec();
+        this.acceptCapabilities = manager.getCapabilities();
         this.type = type;
         this.acceptNodePaths = paths;
         this.rejectReason = rejectReason;
@@ -889,6 +1098,33 @@ export class PathCReq extends ConnectionRequest {
     }
 }
 
+/**
+ * A cumulative acknowledgement in the reliable delivery mode of
+ * PeerConnection.  All messages up to the sequence number are received.
+ */
+@serializable
+export class SequenceAck extends Message {
+    constructor(manager: Manager, public readonly ackedSequence: number) {
+        super(manager);
+    }
+
+    public getSpec(): MessageSpec {
+        return {
+            noAck: true,
+            noSequence: true,
+            priority: MessagePriority.CONTROL,
+        };
+    }
+
+    public toString(): string {
+        return `<SequenceAck ackedSequence=${this.ackedSequence}, source=${this.source}>`;
+    }
+
+    public onReceive(): void {
+        this.peerConnection?._onSequenceAck(this.ackedSequence);
+    }
+}
+
 /**
  * A message used to inform this PeerConnection is closed
  */
@@ -901,6 +1137,14 @@ export class ClosePeerConnection extends Message {
     ) {
         super(manager);
     }
+
+    public getSpec(): MessageSpec {
+        return {
+            priority: MessagePriority.CONTROL,
+            barrier: true,
+        };
+    }
+
     public onReceive(): void {
         const manager = this.manager;
         const pc = this.peerConnection;
@@ -954,6 +1198,7 @@ export class ProbePath extends RequestMessage<ProbePath, ProbePathReply> {
     public getSpec(): RequestMessageSpec {
         return {
             replyClassName: ProbePathReply.name,
+            priority: MessagePriority.CONTROL,
         };
     }
 
@@ -986,17 +1231,62 @@ export class ProbePath extends RequestMessage<ProbePath, ProbePathReply> {
             pc.established(path);
             manager.mgrLogger.debug("ProbePath.onReceive: established: %s", pc);
         }
-        const msg = new ProbePathReply(manager, this);
+        const msg = new ProbePathReply(
+            manager,
+            this,
+            manager.linkRtts.getMeasuredRtts()
+        );
         this.sendReply(msg);
     }
+
+    public beforeRelay(): boolean {
+        const manager = this.manager;
+        const src = this.srcNodeId;
+        const dst = this.destNodeId;
+        if (!src || !dst) {
+            return true;
+        }
+        const reason = manager.relayBudget.checkNewPath(src, dst);
+        if (reason === undefined) {
+            return true;
+        }
+        manager.mgrLogger.debug(
+            "ProbePath.beforeRelay: refuse %s: %s",
+            this,
+            reason
+        );
+        manager.metrics.relayRejections.inc({ reason });
+        this.sendReply(new ProbePathReply(manager, this, undefined, reason));
+        return false;
+    }
 }
 
 @serializable
 export class ProbePathReply extends ReplyMessage<ProbePath, ProbePathReply> {
-    constructor(manager: Manager, req: ProbePath) {
+    /**
+     * @param manager
+     * @param req
+     * @param linkRtts RTTs of links measured by the replying node
+     *  (undefined if sent by an older version)
+     * @param refused the reason if an intermediate node refused to relay
+     *  the path (see relay.ts)
+     */
+    constructor(
+        manager: Manager,
+        req: ProbePath,
+        public linkRtts?: LinkRtt[],
+        public refused?: string
+    ) {
         super(req);
     }
 
+    public getSpec(): MessageSpec {
+        return {
+            noAck: true,
+            priority: MessagePriority.CONTROL,
+        };
+    }
+
     public toString(): string {
         return `<ProbePathReply srcNodeId=${this.srcNodeId}, dest=${this.destination}>`;
     }
@@ -1020,6 +1310,7 @@ export class GetNeighbors extends RequestMessage<
         return {
             replyClassName: GetNeighborsReply.name,
             noAck: true,
+            priority: MessagePriority.CONTROL,
         };
     }
 
@@ -1039,6 +1330,13 @@ export class GetNeighborsReply extends ReplyMessage<
     constructor(manager: Manager, req: GetNeighbors, public paths: Path[]) {
         super(req);
     }
+
+    public getSpec(): MessageSpec {
+        return {
+            noAck: true,
+            priority: MessagePriority.CONTROL,
+        };
+    }
 }
 
 @serializable
@@ -1049,6 +1347,7 @@ export class GracefulCloseRawConnection extends Message {
     public getSpec(): MessageSpec {
         return {
             noAck: true,
+            priority: MessagePriority.CONTROL,
         };
     }
     protected onReceive(): void {
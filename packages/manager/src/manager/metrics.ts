@@ -0,0 +1,403 @@
+import { RawConnectionType } from "./raw/raw";
+import { Manager } from "./manager";
+
+/*
+ * Structured metrics (counters, gauges and histograms).
+ *
+ * Each Manager has a ManagerMetrics (Manager.metrics) that collects
+ * statistics of the node.  MetricsRegistry.toPrometheus() formats all the
+ * metrics in the Prometheus text exposition format, which is served at
+ * "/metrics" on portal nodes.
+ */
+
+export type Labels = { [name: string]: string };
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(
+        Object.keys(labels)
+            .sort()
+            .map((name) => [name, labels[name]])
+    );
+}
+
+function formatLabels(labels: Labels, extra?: [string, string]): string {
+    const pairs = Object.keys(labels)
+        .sort()
+        .map((name): [string, string] => [name, labels[name]]);
+    if (extra) {
+        pairs.push(extra);
+    }
+    if (pairs.length === 0) {
+        return "";
+    }
+    const escape = (v: string): string =>
+        v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+    return "{" + pairs.map(([n, v]) => `${n}="${escape(v)}"`).join(",") + "}";
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) {
+        return "+Inf";
+    }
+    if (value === -Infinity) {
+        return "-Inf";
+    }
+    return value.toString();
+}
+
+export abstract class Metric {
+    constructor(public readonly name: string, public readonly help: string) {}
+
+    public abstract getType(): "counter" | "gauge" | "histogram";
+
+    /**
+     * get the sample lines (without HELP and TYPE lines).
+     */
+    public abstract getSamples(): string[];
+
+    public abstract reset(): void;
+
+    public format(): string {
+        return [
+            `# HELP ${this.name} ${this.help.replace(/\n/g, " ")}`,
+            `# TYPE ${this.name} ${this.getType()}`,
+            ...this.getSamples(),
+        ].join("\n");
+    }
+}
+
+abstract class LabeledValues extends Metric {
+    protected readonly values = new Map<
+        string,
+        { labels: Labels; value: number }
+    >();
+
+    /**
+     * get the value for the labels.
+     */
+    public get(labels: Labels = {}): number {
+        return this.values.get(labelKey(labels))?.value || 0;
+    }
+
+    protected update(labels: Labels, f: (value: number) => number): void {
+        const key = labelKey(labels);
+        const entry = this.values.get(key);
+        if (entry) {
+            entry.value = f(entry.value);
+        } else {
+            this.values.set(key, { labels: { ...labels }, value: f(0) });
+        }
+    }
+
+    public getSamples(): string[] {
+        return [...this.values.values()].map(
+            (e) =>
+                `${this.name}${formatLabels(e.labels)} ${formatValue(e.value)}`
+        );
+    }
+
+    public reset(): void {
+        this.values.clear();
+    }
+}
+
+/**
+ * A monotonically increasing value.
+ */
+export class Counter extends LabeledValues {
+    public getType(): "counter" {
+        return "counter";
+    }
+
+    public inc(labels: Labels = {}, amount = 1): void {
+        if (amount < 0) {
+            throw new Error("Counter.inc: negative amount");
+        }
+        this.update(labels, (v) => v + amount);
+    }
+}
+
+/**
+ * A value that can go up and down.
+ * If a collector is given, it is called to set the values every time the
+ * samples are taken.
+ */
+export class Gauge extends LabeledValues {
+    constructor(
+        name: string,
+        help: string,
+        private readonly collector?: (gauge: Gauge) => void
+    ) {
+        super(name, help);
+    }
+
+    public getType(): "gauge" {
+        return "gauge";
+    }
+
+    public set(labels: Labels, value: number): void {
+        this.update(labels, () => value);
+    }
+
+    public getSamples(): string[] {
+        if (this.collector) {
+            this.values.clear();
+            this.collector(this);
+        }
+        return super.getSamples();
+    }
+}
+
+/**
+ * Distribution of observed values.
+ */
+export class Histogram extends Metric {
+    public static readonly DEFAULT_BUCKETS = [
+        0.005,
+        0.01,
+        0.025,
+        0.05,
+        0.1,
+        0.25,
+        0.5,
+        1,
+        2.5,
+        5,
+        10,
+    ];
+    public readonly buckets: number[];
+    private readonly values = new Map<
+        string,
+        { labels: Labels; counts: number[]; sum: number; count: number }
+    >();
+
+    /**
+     * @param name
+     * @param help
+     * @param buckets upper bounds of the buckets ("+Inf" is implicit)
+     */
+    constructor(name: string, help: string, buckets?: number[]) {
+        super(name, help);
+        this.buckets = [...(buckets || Histogram.DEFAULT_BUCKETS)].sort(
+            (a, b) => a - b
+        );
+    }
+
+    public getType(): "histogram" {
+        return "histogram";
+    }
+
+    public observe(value: number, labels: Labels = {}): void {
+        const key = labelKey(labels);
+        let entry = this.values.get(key);
+        if (!entry) {
+            entry = {
+                labels: { ...labels },
+                counts: this.buckets.map(() => 0),
+                sum: 0,
+                count: 0,
+            };
+            this.values.set(key, entry);
+        }
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) {
+                entry!.counts[i]++;
+            }
+        });
+        entry.sum += value;
+        entry.count++;
+    }
+
+    /**
+     * get the number of observations for the labels.
+     */
+    public getCount(labels: Labels = {}): number {
+        return this.values.get(labelKey(labels))?.count || 0;
+    }
+
+    /**
+     * get the sum of observed values for the labels.
+     */
+    public getSum(labels: Labels = {}): number {
+        return this.values.get(labelKey(labels))?.sum || 0;
+    }
+
+    public getSamples(): string[] {
+        const lines: string[] = [];
+        for (const e of this.values.values()) {
+            this.buckets.forEach((bound, i) => {
+                const labels = formatLabels(e.labels, [
+                    "le",
+                    formatValue(bound),
+                ]);
+                lines.push(`${this.name}_bucket${labels} ${e.counts[i]}`);
+            });
+            const inf = formatLabels(e.labels, ["le", "+Inf"]);
+            lines.push(`${this.name}_bucket${inf} ${e.count}`);
+            lines.push(`${this.name}_sum${formatLabels(e.labels)} ${e.sum}`);
+            lines.push(
+                `${this.name}_count${formatLabels(e.labels)} ${e.count}`
+            );
+        }
+        return lines;
+    }
+
+    public reset(): void {
+        this.values.clear();
+    }
+}
+
+export class MetricsRegistry {
+    private readonly metrics = new Map<string, Metric>();
+
+    public register<T extends Metric>(metric: T): T {
+        if (this.metrics.has(metric.name)) {
+            throw new Error(`metric ${metric.name} is already registered`);
+        }
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+
+    public counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    public gauge(
+        name: string,
+        help: string,
+        collector?: (gauge: Gauge) => void
+    ): Gauge {
+        return this.register(new Gauge(name, help, collector));
+    }
+
+    public histogram(
+        name: string,
+        help: string,
+        buckets?: number[]
+    ): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    public getMetric(name: string): Metric | undefined {
+        return this.metrics.get(name);
+    }
+
+    public getMetrics(): Metric[] {
+        return [...this.metrics.values()];
+    }
+
+    public reset(): void {
+        this.metrics.forEach((m) => m.reset());
+    }
+
+    /**
+     * format all the metrics in the Prometheus text exposition format.
+     */
+    public toPrometheus(): string {
+        return this.getMetrics()
+            .map((m) => m.format() + "\n")
+            .join("");
+    }
+}
+
+/**
+ * The metrics of a Manager.
+ */
+export class ManagerMetrics extends MetricsRegistry {
+    public static readonly PREFIX = "webol_";
+    public static readonly CONTENT_TYPE = "text/plain; version=0.0.4";
+
+    public readonly messagesSent = this.counter(
+        ManagerMetrics.PREFIX + "messages_sent_total",
+        "Number of messages sent, by message class"
+    );
+    public readonly messagesReceived = this.counter(
+        ManagerMetrics.PREFIX + "messages_received_total",
+        "Number of messages received, by message class"
+    );
+    public readonly bytesSent = this.counter(
+        ManagerMetrics.PREFIX + "bytes_sent_total",
+        "Number of bytes sent, by RawConnectionType"
+    );
+    public readonly bytesReceived = this.counter(
+        ManagerMetrics.PREFIX + "bytes_received_total",
+        "Number of bytes received, by RawConnectionType"
+    );
+    public readonly ackTimeouts = this.counter(
+        ManagerMetrics.PREFIX + "ack_timeouts_total",
+        "Number of messages that were not acknowledged in time"
+    );
+    public readonly replyTimeouts = this.counter(
+        ManagerMetrics.PREFIX + "reply_timeouts_total",
+        "Number of requests that were not replied in time, by message class"
+    );
+    public readonly suspiciousNodes = this.counter(
+        ManagerMetrics.PREFIX + "suspicious_node_registrations_total",
+        "Number of times a node is registered as suspicious"
+    );
+    public readonly relayedMessages = this.counter(
+        ManagerMetrics.PREFIX + "relayed_messages_total",
+        "Number of messages forwarded for other nodes"
+    );
+    public readonly relayedBytes = this.counter(
+        ManagerMetrics.PREFIX + "relayed_bytes_total",
+        "Number of bytes forwarded for other nodes"
+    );
+    public readonly relayRejections = this.counter(
+        ManagerMetrics.PREFIX + "relay_rejections_total",
+        "Number of relay paths refused by this node, by reason"
+    );
+    public readonly requestLatency = this.histogram(
+        ManagerMetrics.PREFIX + "request_latency_seconds",
+        "Time from sending a request to receiving the (first) reply, by message class"
+    );
+
+    constructor(manager: Manager) {
+        super();
+        this.gauge(
+            ManagerMetrics.PREFIX + "peer_connections",
+            "Number of connected PeerConnections, by RawConnectionType",
+            (gauge) => {
+                for (const pc of manager.getPeerConnections()) {
+                    if (pc.isConnected()) {
+                        const type = RawConnectionType[pc.getConnectionType()];
+                        gauge.set({ type }, gauge.get({ type }) + 1);
+                    }
+                }
+            }
+        );
+        this.gauge(
+            ManagerMetrics.PREFIX + "relay_paths",
+            "Number of relay paths of connected PeerConnections",
+            (gauge) => {
+                const n = manager
+                    .getPeerConnections()
+                    .filter(
+                        (pc) =>
+                            pc.getConnectionType() === RawConnectionType.Relay
+                    )
+                    .reduce((sum, pc) => sum + pc.paths.length, 0);
+                gauge.set({}, n);
+            }
+        );
+        this.gauge(
+            ManagerMetrics.PREFIX + "relayed_paths",
+            "Number of relay paths that go through this node",
+            (gauge) => {
+                gauge.set({}, manager.relayBudget.getRelayedPathCount());
+            }
+        );
+        this.gauge(
+            ManagerMetrics.PREFIX + "raw_connections",
+            "Number of connected RawConnections, by RawConnectionType",
+            (gauge) => {
+                for (const raw of manager.getRawConnections()) {
+                    if (raw.isConnected()) {
+                        const type = RawConnectionType[raw.getConnectionType()];
+                        gauge.set({ type }, gauge.get({ type }) + 1);
+                    }
+                }
+            }
+        );
+    }
+}
@@ -0,0 +1,226 @@
+import { Manager } from "./manager";
+import { Deferred } from "../utils";
+import getBrowserRTC = require("get-browser-rtc");
+
+/*
+ * Connectivity probing.
+ *
+ * After connecting to a portal node, a WebRTC-capable node gathers its own
+ * ICE candidates with a local RTCPeerConnection and classifies them:
+ * - host:  the node has a host candidate
+ * - srflx: a STUN server reflected an address (the node is behind a NAT
+ *          that allows UDP hole punching, or has a public address)
+ * - relay: a TURN server allocated a relay address
+ * A symmetric NAT is suspected if one local socket is mapped to different
+ * ports by different STUN servers.  The node has a public address if the
+ * address reflected by the portal node (HelloReply.yourAddress) is one of
+ * its host addresses.
+ *
+ * The result is put in NodeSpec, so that the accepting node of a
+ * PeerConnection can skip WebRTC connection attempts that are doomed to
+ * fail and use relay paths immediately (see isWebRTCViable()).
+ */
+
+/**
+ * The result of the connectivity probe.
+ */
+export interface NatProbeResult {
+    host: boolean;
+    srflx: boolean;
+    relay: boolean;
+    // a symmetric NAT is suspected
+    symmetric: boolean;
+    // the node has a public (non-NATed) address
+    public: boolean;
+}
+
+interface Candidate {
+    ip: string;
+    port: number;
+    protocol: string;
+    type: string;
+    // the local address that a srflx candidate is derived from, or
+    // undefined if unknown (browsers hide it behind mDNS as
+    // "raddr 0.0.0.0 rport 0")
+    base?: string;
+}
+
+export class NatProber {
+    public static readonly PROBE_TIMER_NAME = "nat-probe";
+    private result?: NatProbeResult;
+    private probing = false;
+
+    constructor(private readonly manager: Manager) {}
+
+    /**
+     * get the result of the probe, or undefined if not probed yet.
+     */
+    public getResult(): NatProbeResult | undefined {
+        return this.result;
+    }
+
+    /**
+     * probe the connectivity in the background if not probed yet.
+     *
+     * @param reflectedAddress  the address of this node seen by a portal
+     */
+    public start(reflectedAddress?: string): void {
+        if (
+            this.result ||
+            this.probing ||
+            !this.manager.config.ENABLE_NAT_PROBE ||
+            !this.manager.getNodeSpec().webrtc
+        ) {
+            return;
+        }
+        this.probing = true;
+        this.gatherCandidates()
+            .then((candidates) => {
+                this.result = NatProber.classify(candidates, reflectedAddress);
+                this.manager.mgrLogger.info("NAT probe: %j", this.result);
+            })
+            .catch((err) => {
+                this.manager.mgrLogger.info("NAT probe failed: %s", err);
+            })
+            .then(() => {
+                this.probing = false;
+            });
+    }
+
+    /**
+     * gather ICE candidates of this node.
+     *
+     * @return the candidate attributes ("candidate:...")
+     */
+    private async gatherCandidates(): Promise<string[]> {
+        const manager = this.manager;
+        const rtc = manager.config.WEBRTC_IMPL || getBrowserRTC();
+        if (!rtc) {
+            throw new Error("WebRTC is not supported");
+        }
+        const pc = new rtc.RTCPeerConnection({
+            iceServers: manager.iceServers.getAll(),
+        });
+        const candidates: string[] = [];
+        const defer = new Deferred<void>();
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        pc.onicecandidate = (ev: any): void => {
+            if (ev.candidate) {
+                candidates.push(ev.candidate.candidate);
+            } else {
+                // gathering is completed
+                defer.resolve();
+            }
+        };
+        manager.cleaner.startTimer(
+            manager,
+            NatProber.PROBE_TIMER_NAME,
+            manager.config.NAT_PROBE_TIMEOUT,
+            () => defer.resolve()
+        );
+        try {
+            pc.createDataChannel("probe");
+            await pc.setLocalDescription(await pc.createOffer());
+            await defer.promise;
+            return candidates;
+        } finally {
+            manager.cleaner.cancelTimer(NatProber.PROBE_TIMER_NAME);
+            pc.close();
+        }
+    }
+
+    private static parseCandidate(attr: string): Candidate | undefined {
+        // candidate:842163049 1 udp 1677729535 1.2.3.4 51234 typ srflx raddr 192.168.1.2 rport 51234 generation 0
+        const a = attr.replace(/^a=/, "").split(" ");
+        const typ = a.indexOf("typ");
+        if (a.length < 8 || typ < 0) {
+            return undefined;
+        }
+        const raddr = a.indexOf("raddr");
+        const rport = a.indexOf("rport");
+        const baseIp = raddr >= 0 ? a[raddr + 1] : undefined;
+        const basePort = rport >= 0 ? parseInt(a[rport + 1]) : 0;
+        const known =
+            !!baseIp && baseIp !== "0.0.0.0" && baseIp !== "::" && basePort > 0;
+        return {
+            ip: a[4],
+            port: parseInt(a[5]),
+            protocol: a[2].toLowerCase(),
+            type: a[typ + 1],
+            base: known ? `${baseIp}:${basePort}` : undefined,
+        };
+    }
+
+    /**
+     * classify the gathered ICE candidates.
+     *
+     * @param candidates        the candidate attributes
+     * @param reflectedAddress  the address of this node seen by a portal
+     */
+    public static classify(
+        candidates: string[],
+        reflectedAddress?: string
+    ): NatProbeResult {
+        const parsed = candidates
+            .map((c) => NatProber.parseCandidate(c))
+            .filter((c): c is Candidate => !!c);
+        const hosts = parsed.filter((c) => c.type === "host");
+        const srflxs = parsed.filter(
+            (c) => c.type === "srflx" && c.protocol === "udp"
+        );
+        // base -> mapped ports
+        // (candidates whose base is unknown are not grouped because they
+        // may be derived from different sockets)
+        const mappings = new Map<string, Set<number>>();
+        for (const c of srflxs) {
+            if (!c.base) {
+                continue;
+            }
+            const ports = mappings.get(c.base) || new Set<number>();
+            ports.add(c.port);
+            mappings.set(c.base, ports);
+        }
+        const symmetric = [...mappings.values()].some((s) => s.size > 1);
+        // IPv4-mapped IPv6 address (e.g., "::ffff:1.2.3.4")
+        const reflected = reflectedAddress?.replace(/^::ffff:/, "");
+        const hostIps = hosts.map((c) => c.ip);
+        return {
+            host: hosts.length > 0,
+            srflx: srflxs.length > 0,
+            relay: parsed.some((c) => c.type === "relay"),
+            symmetric: symmetric,
+            public:
+                (!!reflected && hostIps.includes(reflected)) ||
+                srflxs.some((c) => hostIps.includes(c.ip)),
+        };
+    }
+
+    /**
+     * check if a WebRTC connection between two nodes may be established.
+     * returns true if unknown.
+     *
+     * @param local   the probe result of a node
+     * @param remote  the probe result of the other node
+     */
+    public static isWebRTCViable(
+        local?: NatProbeResult,
+        remote?: NatProbeResult
+    ): boolean {
+        if (!local || !remote) {
+            return true;
+        }
+        if (local.relay || remote.relay || local.public || remote.public) {
+            return true;
+        }
+        // UDP hole punching fails if both ends are behind symmetric NATs,
+        // or one end is behind a symmetric NAT and the other end cannot
+        // even reach STUN servers.
+        if (local.symmetric && (remote.symmetric || !remote.srflx)) {
+            return false;
+        }
+        if (remote.symmetric && !local.srflx) {
+            return false;
+        }
+        return true;
+    }
+}
@@ -1,6 +1,6 @@
 import { serializable } from "./serialize";
 import * as GraphLib from "graphlib";
-import { ArrayUtils } from "../utils";
+import { ArrayUtils, GraphUtils } from "../utils";
 import { Manager } from "./manager";
 
 /**
@@ -75,9 +75,15 @@ export class Path {
 
     /**
      * smaller score indicates a better path
+     *
+     * @param weightFn the weight of each link.  if omitted, the score is
+     *  the number of nodes in the path.
      * @return {number}
      */
-    public score(): number {
+    public score(weightFn?: (e: GraphLib.Edge) => number): number {
+        if (weightFn) {
+            return GraphUtils.weight(this.elements, weightFn);
+        }
         return this.elements.length;
     }
 
@@ -119,9 +125,12 @@ export class Path {
         return p;
     }
 
-    public static sortByScore(paths: Path[]): Path[] {
+    public static sortByScore(
+        paths: Path[],
+        weightFn?: (e: GraphLib.Edge) => number
+    ): Path[] {
         return paths.sort((a, b) => {
-            return a.score() - b.score();
+            return a.score(weightFn) - b.score(weightFn);
         });
     }
 }
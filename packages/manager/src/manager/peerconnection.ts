@@ -15,9 +15,11 @@ import {
     DisconnectedError,
     Manager,
     ManagerRejectReasons,
+    NodeSpec,
     NotConnectedError,
     PeerConnectionState,
     RejectionError,
+    SendQueueFullError,
 } from "./manager";
 import {
     ClosePeerConnection,
@@ -25,8 +27,11 @@ import {
     ConnectionRequest,
     GetNeighbors,
     Message,
+    MessagePriority,
     PathCReq,
     ProbePath,
+    RequestOptions,
+    SequenceAck,
 } from "./messages";
 import { RawConnection, RawConnectionType } from "./raw/raw";
 import { Path } from "./path";
@@ -35,6 +40,13 @@ import { WsConnection } from "./raw/websocket";
 import { Cleanable, Cleaner } from "./cleaner";
 import { LoopbackConnection } from "./raw/loopback";
 import { Logger } from "./logger";
+import { Capabilities, CapabilityUtils } from "./capabilities";
+import { RelayUpgradeNotify, RelayUpgradeSignal } from "./upgrade";
+import { NatProber } from "./nat";
+import { IdentityUtils } from "./identity";
+import { ResumeRequest } from "./resume";
+import { PeerStream, PeerStreamTable, StreamFrame } from "./stream";
+import { RpcClient, RpcRequest, RpcUtils } from "./rpc";
 
 /**
  * PeerConnectionクラス
@@ -43,6 +55,11 @@ export class PeerConnection implements Cleanable {
     public static readonly RELAY_ESTABLISH_TIMER_NAME = "peerconnection.relay";
     public static readonly RELAY_MAINTENANCE_TIMER_NAME =
         "peerconnection.relayMaintenance";
+    public static readonly RELAY_UPGRADE_TIMER_NAME = "peerconnection.upgrade";
+    public static readonly RETRANSMIT_TIMER_NAME = "peerconnection.retransmit";
+    public static readonly RESUME_TIMER_NAME = "peerconnection.resume";
+    public static readonly RESUME_DEADLINE_TIMER_NAME =
+        "peerconnection.resumeDeadline";
     public static readonly EXPIRE_RECEIVED_IDS_TIMER_NAME =
         "peerconnection.expireReceived";
     public static readonly CHECK_EXPIRE_RECEIVED_IDS_PERIOD = 60 * 1000;
@@ -52,12 +69,26 @@ export class PeerConnection implements Cleanable {
     private remoteNodeId?: string;
     public localConnId!: number; // assigned by Manager#registerPeerConnection
     public remoteConnId?: number;
+    // a random value shared with the remote node, required in ResumeRequest.
+    // the connecting node replaces it with the one in ConnectionReply.
+    public resumeSecret = IdentityUtils.createNonce();
     private readonly localKey: string;
     // on the connect side, remoteKey is initially unknown and becomes ready
     // when PeerConnection is established.
     private remoteKey?: string;
     private _paths: Path[] = [];
     private rawConnection?: RawConnection;
+    // the spec and capabilities of the remote node (for upgrading)
+    private remoteSpec?: NodeSpec;
+    private remoteCapabilities?: Capabilities;
+    // a WebRTCConnection being established for upgrading relay paths
+    private upgradingRaw?: WebRTCConnection;
+    private upgradeAttempt = 0;
+    // messages to be sent when resumed (see resume.ts)
+    private readonly resumeQueue: {
+        msg: Message;
+        defer: Deferred<void>;
+    }[] = [];
     public readonly isConnectSide: boolean;
     private state = PeerConnectionState.DISCONNECTED;
     public readonly defer = new Deferred<this>();
@@ -69,11 +100,21 @@ export class PeerConnection implements Cleanable {
     private msgStore = new Map<number, Message>();
 
     private _onDisconnect = new Callbacks();
-    private connectStartTime = Date.now();
+    private _onDrain = new Callbacks();
+    private drainWaiting = false;
+    private connectStartTime: number;
     private connectFinishTime?: number;
 
     private nextSequence = 1;
     private nextExpectedSequence = 1;
+    // true if messages from this end are sent in the reliable delivery mode
+    private reliable = false;
+    private readonly streams = new PeerStreamTable(this);
+    // sequence number -> a message waiting for SequenceAck
+    private readonly unackedMessages = new Map<
+        number,
+        { msg: Message; sentTime: number; retransmits: number }
+    >();
     public cleaner: Cleaner;
 
     /**
@@ -88,6 +129,7 @@ export class PeerConnection implements Cleanable {
         this.localKey = _localKey;
         this.isConnectSide = isConnectSide;
         this.cleaner = new Cleaner(_manager.mgrLogger, _manager.cleaner);
+        this.connectStartTime = _manager.clock.now();
         _manager.registerPeerConnection(this);
         this.cleaner.push(() => {
             _manager.unregisterPeerConnection(this);
@@ -98,7 +140,8 @@ export class PeerConnection implements Cleanable {
             PeerConnection.CHECK_EXPIRE_RECEIVED_IDS_PERIOD,
             () => {
                 const threshold =
-                    Date.now() - PeerConnection.EXPIRE_RECEIVED_IDS_TIME;
+                    this.manager.clock.now() -
+                    PeerConnection.EXPIRE_RECEIVED_IDS_TIME;
                 for (const ent of this.receivedIds.entries()) {
                     const [id, val] = ent;
                     if (val.recvTime < threshold) {
@@ -129,6 +172,11 @@ export class PeerConnection implements Cleanable {
                 return;
             }
             this.remoteConnId = reply.acceptPeerConnectionId;
+            if (reply.resumeSecret instanceof Uint8Array) {
+                this.resumeSecret = reply.resumeSecret;
+            }
+            this.remoteSpec = reply.acceptSpec;
+            this.remoteCapabilities = reply.acceptCapabilities;
             if (reply.acceptKey !== undefined) {
                 this.setRemoteKey(reply.acceptKey);
             }
@@ -196,6 +244,8 @@ export class PeerConnection implements Cleanable {
                         }
                     );
                     raw.setRemoteNodeId(remoteNodeId);
+                    // compatibility has been checked by the accept node
+                    raw.setRemoteCapabilities(reply.acceptCapabilities);
                     // WebRTCSignal refers rawConnection so we have to bind raw before raw connection establishes
                     this.bindRawConnection(raw);
                     this.setState(PeerConnectionState.C_WAIT_ESTABLISH_WRTC);
@@ -294,6 +344,20 @@ export class PeerConnection implements Cleanable {
         const remoteNodeId = creq.srcNodeId;
         this.remoteKey = creq.connectKey;
         this.remoteConnId = creq.connectPeerConnectionId;
+        this.remoteSpec = creq.connectSpec;
+        this.remoteCapabilities = creq.connectCapabilities;
+        if (
+            !CapabilityUtils.isCompatible(
+                this.manager.getCapabilities(),
+                creq.connectCapabilities
+            )
+        ) {
+            this.sendReplyReject(
+                creq,
+                ManagerRejectReasons.INCOMPATIBLE_PROTOCOL
+            );
+            return;
+        }
 
         const direct = this.manager.getRawConnectionByNodeId(remoteNodeId);
         const webrtcOnly = creq.connectSpec.webrtcOnly || !!opts?.webrtcOnly;
@@ -348,7 +412,11 @@ export class PeerConnection implements Cleanable {
         }
         const remoteUrl = creq.connectSpec.serverUrl;
         if (!remoteUrl && !this.manager.getNodeSpec().serverUrl) {
-            if (creq.connectSpec.webrtc && this.manager.getNodeSpec().webrtc) {
+            if (
+                creq.connectSpec.webrtc &&
+                this.manager.getNodeSpec().webrtc &&
+                this.isWebRTCViable(creq.connectSpec)
+            ) {
                 this.connectWebRTC(creq);
                 return;
             }
@@ -425,6 +493,23 @@ export class PeerConnection implements Cleanable {
         throw new Error("should not happen");
     }
 
+    /**
+     * check if a WebRTC connection to the remote node may be established,
+     * from the NAT types of both nodes.
+     *
+     * @param remoteSpec
+     */
+    private isWebRTCViable(remoteSpec: NodeSpec): boolean {
+        const viable = NatProber.isWebRTCViable(
+            this.manager.getNodeSpec().nat,
+            remoteSpec.nat
+        );
+        if (!viable) {
+            this.logger.debug("skip WebRTC (NAT): %j", remoteSpec.nat);
+        }
+        return viable;
+    }
+
     private sendReplyRelay(creq: ConnectionRequest): void {
         if (!creq.srcNodeId) {
             this.logger.warn("no srcNodeId");
@@ -503,6 +588,8 @@ export class PeerConnection implements Cleanable {
             return;
         }
         raw.setRemoteNodeId(remoteNodeId);
+        // compatibility has been checked in doAccept0()
+        raw.setRemoteCapabilities(creq.connectCapabilities);
         // WebRTCSignal uses .rawConnection so we have to bind raw before raw connection establishes
         this.bindRawConnection(raw);
         this.setState(PeerConnectionState.A_WAIT_ESTABLISH_WRTC);
@@ -604,7 +691,13 @@ export class PeerConnection implements Cleanable {
         const g = this.getGraph(allPaths);
 
         // compute the top 6 shortest paths from me to the destination node
-        const topKs = this.computeTopKShortestPaths(g, dest.destNodeId, 6);
+        // (excluding paths via nodes that refused to relay)
+        const budget = this.manager.relayBudget;
+        const topKs = this.computeTopKShortestPaths(
+            g,
+            dest.destNodeId,
+            6
+        ).filter((p) => !budget.containsRefusingNode(p.slice(1, -1)));
         debug("top-k=%j", topKs);
 
         const exec = new ConcurrentExecutor<Path>(
@@ -687,7 +780,8 @@ export class PeerConnection implements Cleanable {
                         const last = p[p.length - 1];
                         return (
                             !g.hasEdge(this.manager.getNodeId(), last) &&
-                            last !== this.manager.getNodeId()
+                            last !== this.manager.getNodeId() &&
+                            !budget.containsRefusingNode(p.slice(1))
                         );
                     })
                     .map((p) => Path.optimizePath(p));
@@ -723,7 +817,10 @@ export class PeerConnection implements Cleanable {
         } /* outer */
         debug("exit outer loop. waiting...");
         await exec.waitAll();
-        const results = Path.sortByScore(exec.getResults());
+        const results = Path.sortByScore(
+            exec.getResults(),
+            this.manager.linkRtts.getWeightFunction()
+        );
         debug("results=%s", results);
         if (results.length === 0) {
             this.notEstablished(new Error("no relay path is found"));
@@ -733,6 +830,10 @@ export class PeerConnection implements Cleanable {
             debug("establishRelayPaths: already destroyed!: %s", this);
             return;
         }
+        if (this.rawConnection) {
+            debug("establishRelayPaths: already upgraded: %s", this);
+            return;
+        }
         if (!this.isConnected()) {
             // relay path(s) established
             this.established(results[0]);
@@ -782,6 +883,10 @@ export class PeerConnection implements Cleanable {
             PeerConnection.RELAY_MAINTENANCE_TIMER_NAME,
             delay,
             () => {
+                if (this.rawConnection) {
+                    // upgraded to a direct connection
+                    return;
+                }
                 try {
                     this.maintainRelayPaths();
                 } finally {
@@ -823,7 +928,13 @@ export class PeerConnection implements Cleanable {
         k: number
     ): string[][] {
         const src = this.manager.getNodeId();
-        return GraphUtils.computeShortestK(g, src, destNodeId, k);
+        return GraphUtils.computeShortestK(
+            g,
+            src,
+            destNodeId,
+            k,
+            this.manager.linkRtts.getWeightFunction()
+        );
     }
 
     /**
@@ -835,7 +946,26 @@ export class PeerConnection implements Cleanable {
     private async probeRelayPath(path: Path): Promise<Path> {
         try {
             const msg = new ProbePath(this.getManager(), this);
-            await msg.request(path);
+            const start = this.manager.clock.now();
+            const reply = await msg.request(path);
+            if (reply.refused) {
+                if (reply.srcNodeId) {
+                    this.manager.relayBudget._registerRefusingNode(
+                        reply.srcNodeId
+                    );
+                }
+                throw new RejectionError(
+                    `${reply.srcNodeId} refused to relay: ${reply.refused}`
+                );
+            }
+            const linkRtts = this.manager.linkRtts;
+            if (reply.linkRtts && reply.srcNodeId) {
+                linkRtts.addReportedRtts(reply.srcNodeId, reply.linkRtts);
+            }
+            linkRtts.updatePath(
+                path.asArray(),
+                this.manager.clock.now() - start
+            );
             return path;
         } catch (err) {
             this.logger.debug("probeRelayPath: %s failed: %s", path, err);
@@ -855,8 +985,13 @@ export class PeerConnection implements Cleanable {
         const promises: Promise<Path[]>[] = [];
         this._paths.forEach((path, i) => {
             const req = new GetNeighbors(this.manager);
+            const start = this.manager.clock.now();
             promises[i] = req.request(path).then(
                 (reply) => {
+                    this.manager.linkRtts.updatePath(
+                        path.asArray(),
+                        this.manager.clock.now() - start
+                    );
                     validPaths.push(path);
                     return reply.paths;
                 },
@@ -902,6 +1037,214 @@ export class PeerConnection implements Cleanable {
         return this.establishRelayPaths(validPaths, allPaths);
     }
 
+    /*
+     * Upgrading relay paths to a direct connection (see upgrade.ts)
+     */
+    private startRelayUpgradeTask(): void {
+        const config = this.manager.config;
+        if (
+            !this.isConnectSide ||
+            !config.ENABLE_RELAY_UPGRADE ||
+            config.ALWAYS_RELAY
+        ) {
+            return;
+        }
+        const delay = this.manager.relayUpgradeHistory.getDelay(
+            this.getRemoteNodeId()
+        );
+        this.cleaner.startTimer(
+            this.manager,
+            PeerConnection.RELAY_UPGRADE_TIMER_NAME,
+            delay,
+            () => {
+                this.tryRelayUpgrade().then((done) => {
+                    if (!done) {
+                        this.startRelayUpgradeTask();
+                    }
+                });
+            }
+        );
+    }
+
+    /**
+     * try to switch the relay paths to a direct connection.
+     *
+     * @return a promise that is resolved to false if we should try again
+     */
+    private async tryRelayUpgrade(): Promise<boolean> {
+        if (!this.isConnected() || this.rawConnection) {
+            return true;
+        }
+        const remoteNodeId = this.getRemoteNodeId();
+        const history = this.manager.relayUpgradeHistory;
+        this.logger.debug("tryRelayUpgrade: %s", this);
+        let raw = this.manager.getRawConnectionByNodeId(remoteNodeId);
+        if (!raw) {
+            if (
+                !this.manager.getNodeSpec().webrtc ||
+                !this.remoteSpec?.webrtc ||
+                !this.isWebRTCViable(this.remoteSpec)
+            ) {
+                // wait for a RawConnection established by others
+                history.recordFailure(remoteNodeId);
+                return false;
+            }
+            try {
+                raw = await this.upgradeWithWebRTC();
+            } catch (err) {
+                this.logger.info("tryRelayUpgrade: failed: %s, %s", err, this);
+                history.recordFailure(remoteNodeId);
+                return false;
+            }
+        }
+        if (!this.isConnected() || this.rawConnection) {
+            return true;
+        }
+        history.recordSuccess(remoteNodeId);
+        this.switchToDirect(raw);
+        // let the remote node use the connection too
+        this.send(new RelayUpgradeNotify(this.manager));
+        return true;
+    }
+
+    /**
+     * establish a WebRTCConnection to the remote node by signaling over the
+     * relay paths.
+     */
+    private upgradeWithWebRTC(): Promise<RawConnection> {
+        const attempt = ++this.upgradeAttempt;
+        const raw = new WebRTCConnection(
+            this.manager,
+            undefined,
+            (sdp: string): void => {
+                if (this.isConnected() && this.upgradingRaw === raw) {
+                    this.send(
+                        new RelayUpgradeSignal(this.manager, attempt, sdp)
+                    );
+                }
+            }
+        );
+        this.prepareUpgradingRaw(raw);
+        return raw.promise;
+    }
+
+    private prepareUpgradingRaw(raw: WebRTCConnection): void {
+        this.upgradingRaw?.destroy();
+        this.upgradingRaw = raw;
+        raw.setRemoteNodeId(this.getRemoteNodeId());
+        raw.setRemoteCapabilities(this.remoteCapabilities);
+        const done = (): void => {
+            if (this.upgradingRaw === raw) {
+                this.upgradingRaw = undefined;
+            }
+        };
+        raw.promise.then(done, (err) => {
+            done();
+            this.logger.debug("upgrade: %s: %s", err, raw);
+        });
+    }
+
+    /**
+     * called when RelayUpgradeSignal is received.
+     */
+    public _onRelayUpgradeSignal(attempt: number, sdp: string): void {
+        if (!this.isConnected() || this.rawConnection) {
+            return;
+        }
+        if (this.upgradingRaw && attempt === this.upgradeAttempt) {
+            this.upgradingRaw.signaling(sdp);
+            return;
+        }
+        if (this.isConnectSide || !this.manager.getNodeSpec().webrtc) {
+            return;
+        }
+        // a new attempt from the connecting node
+        this.upgradeAttempt = attempt;
+        let raw: WebRTCConnection;
+        try {
+            raw = new WebRTCConnection(
+                this.manager,
+                sdp,
+                (answer: string): void => {
+                    if (this.isConnected() && this.upgradingRaw === raw) {
+                        this.send(
+                            new RelayUpgradeSignal(
+                                this.manager,
+                                attempt,
+                                answer
+                            )
+                        );
+                    }
+                }
+            );
+        } catch (err) {
+            this.logger.info("_onRelayUpgradeSignal: %s", err);
+            return;
+        }
+        this.prepareUpgradingRaw(raw);
+        raw.promise.then(
+            () => {
+                if (this.isConnected() && !this.rawConnection) {
+                    this.switchToDirect(raw);
+                }
+            },
+            () => {
+                /* the connecting node retries */
+            }
+        );
+    }
+
+    /**
+     * called when RelayUpgradeNotify is received via RAW.
+     * the notification is accepted only from the remote node of this
+     * PeerConnection.
+     */
+    public _onRelayUpgradeNotify(
+        raw: RawConnection,
+        srcNodeId: string | undefined
+    ): void {
+        if (srcNodeId !== this.getRemoteNodeId()) {
+            this.logger.warn(
+                "_onRelayUpgradeNotify: from other node (%s): %s",
+                srcNodeId,
+                this
+            );
+            return;
+        }
+        if (this.isConnected() && !this.rawConnection && raw.isConnected()) {
+            this.switchToDirect(raw);
+        }
+    }
+
+    /**
+     * bind RAW and discard the relay paths without disconnecting.
+     * RAW must be connected to the remote node of this PeerConnection.
+     */
+    private switchToDirect(raw: RawConnection): void {
+        if (raw.getRemoteNodeId() !== this.getRemoteNodeId()) {
+            this.logger.warn(
+                "switchToDirect: %s is not connected to the remote node: %s",
+                raw,
+                this
+            );
+            return;
+        }
+        this.logger.debug("switchToDirect: %s, %s", raw, this);
+        this.cleaner.cancelTimer(PeerConnection.RELAY_MAINTENANCE_TIMER_NAME);
+        this.cleaner.cancelTimer(PeerConnection.RELAY_UPGRADE_TIMER_NAME);
+        const old = this._paths;
+        this.bindRawConnection(raw);
+        this._paths = [raw.getDirectPath(this.remoteConnId)];
+        old.forEach((p) =>
+            this.manager.events.emit("relayPathRemoved", this, p)
+        );
+        this.manager.events.emit(
+            "peerConnectionUpgraded",
+            this,
+            raw.getConnectionType()
+        );
+    }
+
     /**
      * called when a PeerConnection is established
      *
@@ -919,27 +1262,45 @@ export class PeerConnection implements Cleanable {
         } else {
             // we are using relay path.
             this.startRelayMaintenanceTask(true);
+            this.startRelayUpgradeTask();
         }
         this.remoteNodeId = path.destNodeId;
         this.addPath(path);
         this.cleaner.cancelTimer(PeerConnection.RELAY_ESTABLISH_TIMER_NAME);
-        this.connectFinishTime = Date.now();
+        this.connectFinishTime = this.manager.clock.now();
         const time = this.connectFinishTime - this.connectStartTime;
         this.logger.debug(
             "PeerConnection established, time=%d, %s",
             time,
             this
         );
+        this.manager.events.emit(
+            "peerConnectionEstablished",
+            this,
+            this.getConnectionType()
+        );
         this.defer.resolve(this);
     }
 
+    /**
+     * give up establishing this PeerConnection (see ConnectionRequest.abort).
+     */
+    public _abortEstablishing(err: Error): void {
+        if (
+            !this.isConnected() &&
+            this.state !== PeerConnectionState.DESTROYED
+        ) {
+            this.notEstablished(err);
+        }
+    }
+
     private notEstablished(err: Error): void {
         if (err instanceof RejectionError) {
             this.setState(PeerConnectionState.REJECTED);
         } else {
             this.setState(PeerConnectionState.ERROR);
         }
-        this.connectFinishTime = Date.now();
+        this.connectFinishTime = this.manager.clock.now();
         const time = this.connectFinishTime - this.connectStartTime;
         this.logger.info(
             "PeerConnection could not be established, time=%d, %s, %s",
@@ -965,10 +1326,24 @@ export class PeerConnection implements Cleanable {
 
     public addPath(path: Path): void {
         this._paths.push(path);
+        if (!this.rawConnection) {
+            this.manager.events.emit("relayPathAdded", this, path);
+        }
     }
 
     public setPaths(paths: Path[]): void {
+        const old = this._paths;
         this._paths = paths;
+        if (!this.rawConnection) {
+            old.filter((p) => !paths.includes(p)).forEach((p) =>
+                this.manager.events.emit("relayPathRemoved", this, p)
+            );
+            paths
+                .filter((p) => !old.includes(p))
+                .forEach((p) =>
+                    this.manager.events.emit("relayPathAdded", this, p)
+                );
+        }
     }
 
     public get paths(): Path[] {
@@ -987,10 +1362,173 @@ export class PeerConnection implements Cleanable {
      */
     public removePath(path: Path): void {
         this.logger.debug("removePath: %s from %s", path, this);
-        ArrayUtils.remove(this._paths, path);
+        if (ArrayUtils.remove(this._paths, path) && !this.rawConnection) {
+            this.manager.events.emit("relayPathRemoved", this, path);
+        }
         if (this._paths.length === 0) {
             this.logger.debug("no path is left");
-            this.remoteClose(new Error("No path is left"));
+            if (this.isResumable()) {
+                this.startResuming();
+            } else {
+                this.remoteClose(new Error("No path is left"));
+            }
+        }
+    }
+
+    private isResumable(): boolean {
+        return (
+            this.manager.config.RESUME_TIMEOUT > 0 &&
+            (this.state === PeerConnectionState.CONNECTED ||
+                this.state === PeerConnectionState.RECONNECTING) &&
+            this.remoteConnId !== undefined &&
+            !(this.rawConnection instanceof LoopbackConnection)
+        );
+    }
+
+    /**
+     * keep this PeerConnection for RESUME_TIMEOUT and try to resume it
+     * through another path.
+     */
+    private startResuming(): void {
+        this.logger.info("startResuming: %s", this);
+        this.setState(PeerConnectionState.RESUMING);
+        this.unbindRawConnection();
+        this.cleaner.cancelTimer(PeerConnection.RELAY_MAINTENANCE_TIMER_NAME);
+        this.cleaner.cancelTimer(PeerConnection.RELAY_UPGRADE_TIMER_NAME);
+        this.cleaner.startTimer(
+            this.manager,
+            PeerConnection.RESUME_DEADLINE_TIMER_NAME,
+            this.manager.config.RESUME_TIMEOUT,
+            () => {
+                this.logger.info("resumption timeout: %s", this);
+                this.remoteClose(new Error("resumption timeout"));
+            }
+        );
+        this.manager.events.emit("peerConnectionResuming", this);
+        // not to run in the middle of RawConnection.destroy()
+        this.manager.clock.setImmediate(() => this.runResumeTask());
+    }
+
+    private runResumeTask(): void {
+        if (!this.isResuming()) {
+            return;
+        }
+        this.tryResume()
+            .catch((err) => {
+                this.logger.debug("tryResume: %s, %s", err, this);
+            })
+            .then(() => {
+                if (this.isResuming()) {
+                    this.cleaner.startTimer(
+                        this.manager,
+                        PeerConnection.RESUME_TIMER_NAME,
+                        this.manager.config.RESUME_RETRY_INTERVAL,
+                        () => this.runResumeTask()
+                    );
+                }
+            });
+    }
+
+    /**
+     * find a path to the remote node and send ResumeRequest along it.
+     */
+    private async tryResume(): Promise<void> {
+        const manager = this.manager;
+        const me = manager.getNodeId();
+        const remoteNodeId = this.getRemoteNodeId();
+        let raw = manager.getRawConnectionByNodeId(remoteNodeId);
+        const url = this.remoteSpec?.serverUrl;
+        if (!raw && url) {
+            try {
+                raw = await WsConnection.getConnection(
+                    manager,
+                    url,
+                    remoteNodeId
+                );
+            } catch (err) {
+                this.logger.debug("tryResume: %s", err);
+            }
+        }
+        let nodes: string[] | undefined;
+        if (raw) {
+            nodes = [me, remoteNodeId];
+        } else {
+            const g = this.getGraph(manager.getAllPaths());
+            if (g.hasNode(me) && g.hasNode(remoteNodeId)) {
+                nodes = this.computeTopKShortestPaths(g, remoteNodeId, 1)[0];
+            }
+        }
+        if (!nodes) {
+            throw new Error("no path to the remote node");
+        }
+        if (!this.isResuming()) {
+            return;
+        }
+        this.logger.debug("tryResume: path=%s, %s", nodes, this);
+        const reply = await new ResumeRequest(manager, this).request(
+            new Path(nodes)
+        );
+        if (!reply.ok) {
+            // the remote node has lost the PeerConnection
+            this.remoteClose(new Error("resumption is refused"));
+            return;
+        }
+        this.resumed(new Path(nodes, this.remoteConnId));
+    }
+
+    /**
+     * called when a resuming PeerConnection gets a new path.  The buffered
+     * messages are sent along the path.
+     *
+     * @param path
+     */
+    public resumed(path: Path): void {
+        if (!this.isResuming()) {
+            return;
+        }
+        this.logger.info("resumed: %s, %s", path, this);
+        this.cleaner.cancelTimer(PeerConnection.RESUME_TIMER_NAME);
+        this.cleaner.cancelTimer(PeerConnection.RESUME_DEADLINE_TIMER_NAME);
+        this.setState(PeerConnectionState.CONNECTED);
+        const raw =
+            path.asArray().length === 2
+                ? this.manager.getRawConnectionByNodeId(path.destNodeId)
+                : undefined;
+        if (raw) {
+            this.bindRawConnection(raw);
+        }
+        this.addPath(path);
+        if (!raw) {
+            this.startRelayMaintenanceTask(false);
+            this.startRelayUpgradeTask();
+        }
+        this.manager.events.emit("peerConnectionResumed", this, path);
+        for (const q of this.resumeQueue.splice(0, this.resumeQueue.length)) {
+            this.transmit(q.msg, this._paths).then(
+                () => q.defer.resolve(),
+                (err) => q.defer.reject(err)
+            );
+        }
+    }
+
+    /**
+     * take back a message that was sent through a lost RawConnection but
+     * has not been acknowledged, to send it again.
+     *
+     * @param msg
+     * @param defer resolved when the message is passed to the transport
+     */
+    public _requeue(msg: Message, defer = new Deferred<void>()): void {
+        defer.promise.catch(() => {
+            /* ignore */
+        });
+        if (this._paths.length > 0) {
+            this.transmit(msg, this._paths).then(
+                () => defer.resolve(),
+                (err) => defer.reject(err)
+            );
+        } else {
+            this.resumeQueue.push({ msg, defer });
         }
     }
 
@@ -1080,7 +1618,14 @@ export class PeerConnection implements Cleanable {
     public destroy(): void {
         this.logger.debug("PeerConnection.destroy: %s", this);
         this.unbindRawConnection();
+        this.upgradingRaw?.destroy();
+        const err = new DisconnectedError("PeerConnection is destroyed");
+        this.resumeQueue
+            .splice(0, this.resumeQueue.length)
+            .forEach((q) => q.defer.reject(err));
+        const wasConnected = this.isConnected();
         this.state = PeerConnectionState.DESTROYED;
+        this.streams.destroy(err);
         for (const reqinfo of this.manager.ongoingRequests.values()) {
             if (reqinfo.pc === this) {
                 reqinfo.req.destroy();
@@ -1090,6 +1635,9 @@ export class PeerConnection implements Cleanable {
             }
         }
         this._onDisconnect.invoke();
+        if (wasConnected) {
+            this.manager.events.emit("peerConnectionClosed", this);
+        }
         this.cleaner.clean();
     }
 
@@ -1100,7 +1648,42 @@ export class PeerConnection implements Cleanable {
      * @returns {boolean} 接続していればtrue
      */
     public isConnected(): boolean {
-        return this.state === PeerConnectionState.CONNECTED;
+        return (
+            this.state === PeerConnectionState.CONNECTED ||
+            this.state === PeerConnectionState.RECONNECTING ||
+            this.state === PeerConnectionState.RESUMING
+        );
+    }
+
+    /**
+     * true while all paths are lost and being resumed.
+     * messages sent during this state are delivered after resumption.
+     */
+    public isResuming(): boolean {
+        return this.state === PeerConnectionState.RESUMING;
+    }
+
+    /**
+     * true while the bound RawConnection is recovering its transport.
+     * messages sent during this state are delivered after recovery.
+     */
+    public isReconnecting(): boolean {
+        return this.state === PeerConnectionState.RECONNECTING;
+    }
+
+    /**
+     * called by Manager when the bound RawConnection starts or finishes
+     * reconnecting.
+     */
+    public _setReconnecting(reconnecting: boolean): void {
+        if (reconnecting && this.state === PeerConnectionState.CONNECTED) {
+            this.setState(PeerConnectionState.RECONNECTING);
+        } else if (
+            !reconnecting &&
+            this.state === PeerConnectionState.RECONNECTING
+        ) {
+            this.setState(PeerConnectionState.CONNECTED);
+        }
     }
 
     public getRemoteNodeId(): string {
@@ -1163,9 +1746,14 @@ export class PeerConnection implements Cleanable {
      *
      * 受け取ったmessageを再度送信すること（転送）は可能である．
      *
+     * The returned promise is resolved when the message is passed to the
+     * transports of all paths.  You do not have to handle the rejection.
+     * If some RawConnection becomes congested, drain callbacks registered
+     * by {@link onDrain} are called later.
+     *
      * @param {Message} msg
      */
-    public send(msg: Message): void {
+    public send(msg: Message): Promise<void> {
         if (msg.manager !== this.manager) {
             throw new Error("wrong manager!");
         }
@@ -1174,12 +1762,6 @@ export class PeerConnection implements Cleanable {
             throw new NotConnectedError();
         }
         // this.logger.debug("PeerConnection.send: " + msg);
-        // TODO: sequence number feature is buggy now
-        const ENABLE_SEQUENCE_NUMBER = false;
-        if (ENABLE_SEQUENCE_NUMBER && !msg.getSpec().noSequence) {
-            // assign a message sequence number
-            msg.sequence = this.nextSequence++;
-        }
         if (!msg.source) {
             msg.initSource(this);
         }
@@ -1189,10 +1771,182 @@ export class PeerConnection implements Cleanable {
         } else {
             paths = this._paths;
         }
+        msg.beforeSend(this);
+        let sent = msg;
+        if (this.isSequenced(msg)) {
+            if (
+                this.unackedMessages.size >=
+                this.manager.config.SEND_QUEUE_MAX_LENGTH
+            ) {
+                const rejected = Promise.reject(
+                    new SendQueueFullError("too many unacknowledged messages")
+                );
+                rejected.catch(() => {
+                    /* ignore */
+                });
+                return rejected;
+            }
+            sent = this.assignSequence(msg);
+        } else {
+            // the message may be received from another PeerConnection
+            msg.sequence = undefined;
+        }
         this.logger.debug(
-            `PeerConnection.send: seq=${msg.sequence}, ${msg}, ${this}`
+            `PeerConnection.send: seq=${sent.sequence}, ${sent}, ${this}`
         );
-        msg.beforeSend(this);
+        if (this.isResuming()) {
+            return this.enqueueForResume(sent);
+        }
+        const promise = this.transmit(sent, paths);
+        if (this.isCongested() && !this.drainWaiting) {
+            this.drainWaiting = true;
+            this.waitDrain().then(
+                () => {
+                    this.drainWaiting = false;
+                    this._onDrain.invoke();
+                },
+                () => {
+                    this.drainWaiting = false;
+                }
+            );
+        }
+        return promise;
+    }
+
+    /*
+     * Reliable delivery mode
+     *
+     * In the reliable delivery mode, each message sent from this end is
+     * assigned a sequence number and kept until the remote end acknowledges
+     * it with SequenceAck (a cumulative ack).  Unacknowledged messages are
+     * retransmitted every RELIABLE_RETRANSMIT_TIMEOUT, and this
+     * PeerConnection is closed after RELIABLE_MAX_RETRANSMITS
+     * retransmissions.  The receiving end drops duplicates and passes the
+     * messages to onReceive() in the order of the sequence numbers.
+     * Messages of CONTROL priority or with the noSequence spec are sent in
+     * the best effort manner as usual.
+     */
+
+    /**
+     * enable the reliable delivery mode for messages sent from this end.
+     * To make both directions reliable, call this method on both ends.
+     * The receiving end needs no setup.  Messages are not ordered if the
+     * remote end has no PeerConnection (e.g., connections made by
+     * Manager.connectPortal()).
+     */
+    public enableReliableDelivery(): void {
+        this.reliable = true;
+    }
+
+    public isReliable(): boolean {
+        return this.reliable;
+    }
+
+    private isSequenced(msg: Message): boolean {
+        const spec = msg.getSpec();
+        return (
+            this.reliable &&
+            this.remoteConnId !== undefined &&
+            !spec.noSequence &&
+            spec.priority !== MessagePriority.CONTROL
+        );
+    }
+
+    /**
+     * make a copy of a message with a new sequence number and keep it until
+     * acknowledged.  (a message may be sent to multiple PeerConnections)
+     */
+    private assignSequence(msg: Message): Message {
+        const copy: Message = Object.assign(
+            Object.create(Object.getPrototypeOf(msg)),
+            msg
+        );
+        copy.sequence = this.nextSequence++;
+        this.unackedMessages.set(copy.sequence, {
+            msg: copy,
+            sentTime: this.manager.clock.now(),
+            retransmits: 0,
+        });
+        if (this.unackedMessages.size === 1) {
+            this.startRetransmitTimer();
+        }
+        return copy;
+    }
+
+    private startRetransmitTimer(): void {
+        this.cleaner.startTimer(
+            this.manager,
+            PeerConnection.RETRANSMIT_TIMER_NAME,
+            this.manager.config.RELIABLE_RETRANSMIT_TIMEOUT,
+            () => this.retransmit()
+        );
+    }
+
+    private retransmit(): void {
+        const now = this.manager.clock.now();
+        const timeout = this.manager.config.RELIABLE_RETRANSMIT_TIMEOUT;
+        // while resuming, unacknowledged messages are sent after resumption
+        if (!this.isResuming()) {
+            for (const ent of this.unackedMessages.values()) {
+                if (now - ent.sentTime < timeout) {
+                    continue;
+                }
+                if (
+                    ent.retransmits >=
+                    this.manager.config.RELIABLE_MAX_RETRANSMITS
+                ) {
+                    this.logger.info(
+                        "retransmit: give up seq=%d, %s",
+                        ent.msg.sequence,
+                        this
+                    );
+                    this.close();
+                    return;
+                }
+                this.logger.debug(
+                    "retransmit: seq=%d, %s",
+                    ent.msg.sequence,
+                    this
+                );
+                ent.retransmits++;
+                ent.sentTime = now;
+                this.transmit(ent.msg, this._paths);
+            }
+        }
+        if (this.unackedMessages.size > 0) {
+            this.startRetransmitTimer();
+        }
+    }
+
+    /**
+     * called when SequenceAck is received.
+     *
+     * @param ackedSequence
+     */
+    public _onSequenceAck(ackedSequence: number): void {
+        for (const seq of this.unackedMessages.keys()) {
+            if (seq <= ackedSequence) {
+                this.unackedMessages.delete(seq);
+            }
+        }
+        if (this.unackedMessages.size === 0) {
+            this.cleaner.cancelTimer(PeerConnection.RETRANSMIT_TIMER_NAME);
+        }
+    }
+
+    private sendSequenceAck(): void {
+        this.send(
+            new SequenceAck(this.manager, this.nextExpectedSequence - 1)
+        ).catch(() => {
+            /* ignore */
+        });
+    }
+
+    /**
+     * pass a message to the RawConnections of the paths.
+     */
+    private transmit(msg: Message, paths: Path[]): Promise<void> {
+        const promises: Promise<void>[] = [];
         // すべての経路でメッセージを送る
         // XXX: 時間差で送るべき?
         for (const path of paths) {
@@ -1207,18 +1961,148 @@ export class PeerConnection implements Cleanable {
                         msg.destination
                 );
             } else {
-                raw.send(msg);
+                promises.push(raw.send(msg));
             }
         }
         // XXX: workaround: to allow messages to be sent to multiple PeerConnections.
         msg.destination = undefined;
+        const promise = Promise.all(promises).then(() => undefined);
+        promise.catch(() => {
+            /* ignore */
+        });
+        return promise;
+    }
+
+    /**
+     * buffer a message sent while resuming.
+     */
+    private enqueueForResume(msg: Message): Promise<void> {
+        const defer = new Deferred<void>();
+        defer.promise.catch(() => {
+            /* ignore */
+        });
+        const priority = msg.getSpec().priority ?? MessagePriority.NORMAL;
+        if (
+            priority !== MessagePriority.CONTROL &&
+            this.resumeQueue.length >= this.manager.config.SEND_QUEUE_MAX_LENGTH
+        ) {
+            defer.reject(new SendQueueFullError("resume queue is full"));
+            return defer.promise;
+        }
+        // the caller may modify the message after this method returns
+        const copy = Object.assign(
+            Object.create(Object.getPrototypeOf(msg)),
+            msg
+        );
+        copy.destination = undefined;
+        this.resumeQueue.push({ msg: copy, defer });
+        return defer.promise;
+    }
+
+    /**
+     * Get RawConnections that are used for sending messages to the remote node.
+     */
+    private getNextHopRawConnections(): RawConnection[] {
+        const raws = new Set<RawConnection>();
+        for (const path of this._paths) {
+            const raw = this.manager.getRawConnectionByNodeId(
+                path.nextHop(this.manager)
+            );
+            if (raw) {
+                raws.add(raw);
+            }
+        }
+        return [...raws];
+    }
+
+    /**
+     * true if some RawConnection used by this PeerConnection is congested.
+     * Bulk senders should wait for {@link waitDrain} before sending more.
+     */
+    public isCongested(): boolean {
+        return this.getNextHopRawConnections().some((raw) => raw.isCongested());
+    }
+
+    /**
+     * @return a promise that is resolved when no RawConnection used by this
+     *  PeerConnection is congested.
+     */
+    public async waitDrain(): Promise<void> {
+        while (this.isCongested()) {
+            await Promise.all(
+                this.getNextHopRawConnections().map((raw) => raw.waitDrain())
+            );
+        }
+    }
+
+    /**
+     * register a callback that is called when this PeerConnection is drained
+     * after {@link send} makes it congested.
+     */
+    public onDrain(cb: () => void): void {
+        this._onDrain.addCallback(cb);
+    }
+
+    /*
+     * Byte streams (see stream.ts)
+     */
+
+    /**
+     * open a byte stream to the remote node, or take the stream that the
+     * remote node has opened with the same name.
+     * This method enables the reliable delivery mode.
+     *
+     * @param name
+     * @throws NotConnectedError
+     */
+    public openStream(name: string): PeerStream {
+        if (!this.isConnected()) {
+            throw new NotConnectedError();
+        }
+        if (this.remoteConnId === undefined) {
+            throw new Error("the remote node has no PeerConnection");
+        }
+        return this.streams.open(name);
+    }
+
+    /**
+     * register a callback that is called when the remote node opens a
+     * stream.
+     */
+    public onStream(cb: (stream: PeerStream) => void): void {
+        this.streams.onStream(cb);
+    }
+
+    /**
+     * create a client proxy of a service registered at the remote node
+     * (see Manager.registerService).
+     *
+     * @param service
+     * @param opts  options for each call
+     */
+    public createRpcClient<S>(
+        service: string,
+        opts?: RequestOptions
+    ): RpcClient<S> {
+        return RpcUtils.createProxy<RpcClient<S>>(async (method, args) => {
+            const req = new RpcRequest(this.manager, service, method, args);
+            const reply = await req.request(this, undefined, opts);
+            return reply.getResult();
+        });
+    }
+
+    public _onStreamFrame(frame: StreamFrame): void {
+        this.streams.onFrame(frame);
     }
 
     /*
      * If the message has sequence number, order it.
      */
     public onReceive(msg: Message): void {
-        // TODO: we have to increment this.nextExpectedSequence even if the message already has been received!
+        if (msg.sequence !== undefined && msg.sequence !== null) {
+            this.onReceiveSequenced(msg);
+            return;
+        }
         // relay connection redundantly sends messages so we have to dedupe them
         if (this.receivedIds.get(msg.msgId)) {
             this.logger.debug(
@@ -1227,44 +2111,56 @@ export class PeerConnection implements Cleanable {
             );
             return;
         }
-        this.receivedIds.set(msg.msgId, { recvTime: Date.now() });
+        this.receivedIds.set(msg.msgId, { recvTime: this.manager.clock.now() });
         this.logger.debug("PeerConnection.onReceive: msgId=%s", msg.msgId);
-        if (msg.sequence === undefined || msg.sequence === null) {
-            // this.logger.debug("onReceive: message has no sequence: ", msg);
-            this.manager.receive(msg);
-            return;
-        }
-        if (msg.sequence === this.nextExpectedSequence) {
+        this.manager.receive(msg);
+    }
+
+    private onReceiveSequenced(msg: Message): void {
+        const seq = msg.sequence as number;
+        if (seq < this.nextExpectedSequence || this.msgStore.has(seq)) {
+            // retransmitted or sent over multiple paths
+            this.logger.debug(
+                "onReceive: duplicated seq %d (expectedSequence=%d)",
+                seq,
+                this.nextExpectedSequence
+            );
+        } else if (seq === this.nextExpectedSequence) {
             this.nextExpectedSequence++;
             this.manager.receive(msg);
             for (;;) {
                 const m = this.msgStore.get(this.nextExpectedSequence);
-                if (m) {
-                    this.logger.debug(
-                        "onReceive: exec previously received:",
-                        msg
-                    );
-                    this.msgStore.delete(this.nextExpectedSequence);
-                    this.nextExpectedSequence++;
-                    this.manager.receive(m);
-                } else {
+                if (!m) {
                     break;
                 }
+                this.logger.debug("onReceive: exec previously received:", m);
+                this.msgStore.delete(this.nextExpectedSequence);
+                this.nextExpectedSequence++;
+                this.manager.receive(m);
             }
-        } else if (msg.sequence < this.nextExpectedSequence) {
-            // drop
-            this.logger.debug(
-                "onReceive: duplicated seq %d (msg.sequence) < %d (expectedSequence)",
-                msg.sequence,
+        } else if (
+            seq >=
+            this.nextExpectedSequence +
+                this.manager.config.SEND_QUEUE_MAX_LENGTH
+        ) {
+            // the sender never has more unacknowledged messages than this
+            this.logger.info(
+                "onReceive: drop seq %d, too far ahead of %d (expectedSequence)",
+                seq,
                 this.nextExpectedSequence
             );
+            return;
         } else {
-            this.logger.info(
+            this.logger.debug(
                 "onReceive: seq skip %d (msg.sequence) > %d (expectedSequence)",
-                msg.sequence,
+                seq,
                 this.nextExpectedSequence
             );
-            this.msgStore.set(msg.sequence, msg);
+            this.msgStore.set(seq, msg);
+        }
+        // the PeerConnection may be closed by the application
+        if (this.isConnected()) {
+            this.sendSequenceAck();
         }
     }
 
@@ -0,0 +1,225 @@
+import {
+    CodecError,
+    CodecUtils,
+    decodeUtf8,
+    encodeUtf8,
+    Frame,
+} from "../codec";
+import { Cleaner } from "../cleaner";
+import { Logger } from "../logger";
+import { Manager } from "../manager";
+import { CustomError } from "../../utils";
+
+/*
+ * Fragment frame format (big endian):
+ *
+ *   tag (1) | flags (1) | frameId (4) | index (4) | count (4) | payload
+ *
+ * tag is CodecUtils.FRAGMENT_TAG.  The payloads of all fragments of a frame
+ * are concatenated to restore the original frame.
+ */
+const FLAG_TEXT = 0x01; // the original frame is a string
+
+export abstract class FragmentUtils {
+    public static readonly HEADER_SIZE = 14;
+    // the protocol version that supports fragment frames
+    public static readonly MIN_VERSION = 2;
+
+    public static isFragment(frame: Frame): frame is Uint8Array {
+        return (
+            typeof frame !== "string" && frame[0] === CodecUtils.FRAGMENT_TAG
+        );
+    }
+
+    /**
+     * Split a frame into fragment frames whose sizes are at most mtu.
+     *
+     * @param frame
+     * @param frameId an ID that distinguishes the frame from other frames
+     * @param mtu
+     * @return fragment frames, or undefined if the frame fits in mtu.
+     */
+    public static split(
+        frame: Frame,
+        frameId: number,
+        mtu: number
+    ): Uint8Array[] | undefined {
+        const text = typeof frame === "string";
+        // a character is encoded in at most 3 bytes in UTF-8
+        if (frame.length * (text ? 3 : 1) <= mtu) {
+            return undefined;
+        }
+        const bytes = text
+            ? encodeUtf8(frame as string)
+            : (frame as Uint8Array);
+        if (bytes.length <= mtu) {
+            return undefined;
+        }
+        const size = mtu - FragmentUtils.HEADER_SIZE;
+        if (size <= 0) {
+            throw new Error(`MTU is too small: ${mtu}`);
+        }
+        const count = Math.ceil(bytes.length / size);
+        const fragments: Uint8Array[] = [];
+        for (let i = 0; i < count; i++) {
+            const payload = bytes.subarray(i * size, (i + 1) * size);
+            const f = new Uint8Array(
+                FragmentUtils.HEADER_SIZE + payload.length
+            );
+            const view = new DataView(f.buffer);
+            f[0] = CodecUtils.FRAGMENT_TAG;
+            f[1] = text ? FLAG_TEXT : 0;
+            view.setUint32(2, frameId);
+            view.setUint32(6, i);
+            view.setUint32(10, count);
+            f.set(payload, FragmentUtils.HEADER_SIZE);
+            fragments.push(f);
+        }
+        return fragments;
+    }
+}
+
+/**
+ * Too many partially received frames are buffered.  The RawConnection
+ * should be closed.
+ */
+export class ReassemblyOverflowError extends CustomError {}
+
+interface PartialFrame {
+    text: boolean;
+    count: number;
+    parts: Map<number /* index */, Uint8Array>;
+    size: number;
+}
+
+/**
+ * Reassembles fragment frames received from a RawConnection.
+ * A partially received frame is discarded if the next fragment does not
+ * arrive within {@link NetworkConfig.FRAGMENT_REASSEMBLY_TIMEOUT}.
+ * The number and the total size of partially received frames are limited
+ * by {@link NetworkConfig.MAX_PARTIAL_FRAMES} and
+ * {@link NetworkConfig.MAX_REASSEMBLY_BUFFER_SIZE}.
+ */
+export class Reassembler {
+    public static readonly TIMER_NAME = "reassembly";
+    private readonly partials = new Map<number /* frameId */, PartialFrame>();
+    // the total size of partially received frames
+    private bufferedBytes = 0;
+
+    constructor(
+        private readonly manager: Manager,
+        private readonly cleaner: Cleaner,
+        private readonly logger: Logger
+    ) {
+        this.cleaner.push(() => this.clear());
+    }
+
+    /**
+     * @param fragment a fragment frame
+     * @return the reassembled frame, or undefined if some fragments are
+     *  not received yet.
+     * @throws CodecError if the fragment is malformed
+     * @throws ReassemblyOverflowError if too many frames are buffered
+     */
+    public add(fragment: Uint8Array): Frame | undefined {
+        if (fragment.length < FragmentUtils.HEADER_SIZE) {
+            throw new CodecError("Reassembler: short fragment");
+        }
+        const view = new DataView(
+            fragment.buffer,
+            fragment.byteOffset,
+            fragment.byteLength
+        );
+        const text = (fragment[1] & FLAG_TEXT) !== 0;
+        const frameId = view.getUint32(2);
+        const index = view.getUint32(6);
+        const count = view.getUint32(10);
+        if (index >= count) {
+            throw new CodecError(
+                `Reassembler: invalid fragment index: ${index}/${count}`
+            );
+        }
+        const timerName = `${Reassembler.TIMER_NAME}-${frameId}`;
+        const config = this.manager.config;
+        let p = this.partials.get(frameId);
+        if (!p) {
+            if (this.partials.size >= config.MAX_PARTIAL_FRAMES) {
+                this.clear();
+                throw new ReassemblyOverflowError(
+                    "Reassembler: too many partial frames"
+                );
+            }
+            p = { text, count, parts: new Map(), size: 0 };
+            this.partials.set(frameId, p);
+        }
+        if (p.count !== count || p.parts.has(index)) {
+            this.discard(frameId);
+            throw new CodecError("Reassembler: inconsistent fragment");
+        }
+        const payload = fragment.subarray(FragmentUtils.HEADER_SIZE);
+        if (p.size + payload.length > config.MAX_REASSEMBLED_FRAME_SIZE) {
+            this.discard(frameId);
+            throw new CodecError("Reassembler: frame is too large");
+        }
+        if (
+            this.bufferedBytes + payload.length >
+            config.MAX_REASSEMBLY_BUFFER_SIZE
+        ) {
+            this.clear();
+            throw new ReassemblyOverflowError(
+                "Reassembler: too many bytes buffered"
+            );
+        }
+        p.size += payload.length;
+        this.bufferedBytes += payload.length;
+        p.parts.set(index, payload);
+        if (p.parts.size < count) {
+            this.cleaner.startTimer(
+                this.manager,
+                timerName,
+                this.manager.config.FRAGMENT_REASSEMBLY_TIMEOUT,
+                () => {
+                    this.logger.warn(
+                        "Reassembler: timeout, discard frame %d (%d/%d received)",
+                        frameId,
+                        p!.parts.size,
+                        count
+                    );
+                    this.discard(frameId);
+                }
+            );
+            return undefined;
+        }
+        this.discard(frameId);
+        const bytes = new Uint8Array(p.size);
+        let pos = 0;
+        for (let i = 0; i < count; i++) {
+            const part = p.parts.get(i)!;
+            bytes.set(part, pos);
+            pos += part.length;
+        }
+        return p.text ? decodeUtf8(bytes) : bytes;
+    }
+
+    private discard(frameId: number): void {
+        const p = this.partials.get(frameId);
+        if (p) {
+            this.bufferedBytes -= p.size;
+            this.partials.delete(frameId);
+        }
+        this.cleaner.cancelTimer(`${Reassembler.TIMER_NAME}-${frameId}`);
+    }
+
+    private clear(): void {
+        for (const frameId of [...this.partials.keys()]) {
+            this.discard(frameId);
+        }
+    }
+
+    /**
+     * the number of frames that are partially received
+     */
+    public get pendingFrames(): number {
+        return this.partials.size;
+    }
+}
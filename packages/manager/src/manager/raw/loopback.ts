@@ -1,5 +1,5 @@
 import { Manager } from "../manager";
-import { Message } from "../messages";
+import { Frame } from "../codec";
 import { RawConnection, RawConnectionType } from "./raw";
 import { override } from "core-decorators";
 /*
@@ -15,6 +15,7 @@ export class LoopbackConnection extends RawConnection {
     public constructor(manager: Manager) {
         super(manager);
         this.setRemoteNodeId(manager.getNodeId());
+        this.setRemoteCapabilities(manager.getCapabilities());
         manager.registerRawConnection(this);
         this.connected();
     }
@@ -23,12 +24,12 @@ export class LoopbackConnection extends RawConnection {
         return RawConnectionType.Loopback;
     }
 
-    protected _sendRaw(data: Message): void {
-        this.lastUsed = Date.now();
-        const copy: Message = JSON.parse(JSON.stringify(data));
-        setImmediate(() => {
+    protected _sendRaw(frame: Frame): void {
+        this.lastUsed = this.manager.clock.now();
+        // the frame is a copy of the message
+        this.manager.clock.setImmediate(() => {
             this.logger.newEvent("loopback: sendRaw");
-            super.receive(copy);
+            this.receiveFrame(frame);
         });
     }
 
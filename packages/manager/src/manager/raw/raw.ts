@@ -1,16 +1,36 @@
-import { Deferred } from "../../utils";
-import { Manager, TimeoutError } from "../manager";
+import { Callbacks, Deferred } from "../../utils";
+import {
+    DisconnectedError,
+    Manager,
+    SendQueueFullError,
+    TimeoutError,
+} from "../manager";
 import { Logger } from "../logger";
 import {
     ClosePeerConnection,
     GracefulCloseRawConnection,
     Message,
+    MessagePriority,
     NoNextHopNotify,
 } from "../messages";
 import { PeerConnection } from "../peerconnection";
 import { ClassNotFoundException, SerializeUtils } from "../serialize";
 import { Path } from "../path";
 import { Cleanable, Cleaner } from "../cleaner";
+import { Codec, CodecError, CodecUtils, Frame } from "../codec";
+import {
+    Capabilities,
+    CapabilityUtils,
+    NegotiatedFeatures,
+} from "../capabilities";
+import { FragmentUtils, Reassembler } from "./fragment";
+import {
+    AuthenticationError,
+    AuthRole,
+    IdentityProof,
+    IdentityUtils,
+} from "../identity";
+import { AdmissionProof, AdmissionUtils } from "../admission";
 
 export enum RawConnectionType {
     NotConnected,
@@ -21,6 +41,14 @@ export enum RawConnectionType {
     WebRTC,
 }
 
+interface QueuedMessage {
+    msg: Message;
+    // resolved when the message is passed to the transport
+    defer: Deferred<void>;
+    // true if the ack timer has been started
+    ackPrepared: boolean;
+}
+
 /**
  * A class that represents a raw connection such as WebRTC and WebSocket.
  */
@@ -28,18 +56,46 @@ export abstract class RawConnection implements Cleanable {
     public static readonly CONNECT_TIMER_NAME = "raw-connect";
     public static readonly IDLE_TIMER_NAME = "raw-idle";
     public static readonly GRACE_CLOSE_DELAY_TIMER_NAME = "grace-delay";
+    public static readonly DRAIN_TIMER_NAME = "raw-drain";
+    public static readonly RECONNECT_TIMER_NAME = "raw-reconnect";
+    public static readonly FAULT_DELAY_TIMER_NAME = "raw-fault-delay";
     public id?: number; // filled by Manager.registerRawConnection()
     protected isGracefullyClosed = false;
     private _isConnected = false;
+    // true while the transport is temporarily lost and being recovered
+    private _isReconnecting = false;
     protected onceConnected = false;
     private readonly _manager: Manager;
     protected readonly logger: Logger;
     private remoteNodeId: string | undefined;
+    // the NodeID that the remote node has proved
+    private verifiedNodeId?: string;
+    // the nonce that the remote node has to answer in HelloAuth, and the
+    // NodeID that the remote node claimed in Hello
+    private challenge?: { nonce: Uint8Array; nodeId: string };
     // completes when connection is ready
     private readonly connectDefer = new Deferred<RawConnection /*this*/>();
-    protected lastUsed = Date.now();
-    // messages that are sent during silent mode
-    private readonly unsentMessages: Message[] = [];
+    protected lastUsed: number;
+    // messages waiting for being passed to the transport, indexed by
+    // MessagePriority.  these queues also hold messages that are sent
+    // during silent mode.
+    private readonly sendQueues: QueuedMessage[][] = [
+        MessagePriority.CONTROL,
+        MessagePriority.NORMAL,
+        MessagePriority.BULK,
+    ].map(() => []);
+    // true while the transport buffer exceeds the high water mark
+    private congested = false;
+    private readonly drainCallbacks = new Callbacks();
+    // codec name -> Codec instance (codecs may have per-connection state)
+    private readonly codecs = new Map<string, Codec>();
+    private remoteCapabilities?: Capabilities;
+    // undefined until the remote capabilities are known
+    private features?: NegotiatedFeatures;
+    private nextFrameId = 0;
+    // the number of timers started by delayByFault()
+    private faultDelayCount = 0;
+    private readonly reassembler: Reassembler;
     public readonly cleaner: Cleaner;
 
     /**
@@ -49,7 +105,9 @@ export abstract class RawConnection implements Cleanable {
     protected constructor(_manager: Manager) {
         this._manager = _manager;
         this.logger = _manager.rawLogger;
+        this.lastUsed = _manager.clock.now();
         this.cleaner = new Cleaner(this.logger, _manager.cleaner);
+        this.reassembler = new Reassembler(_manager, this.cleaner, this.logger);
         return;
         _manager.registerRawConnection(this);
 
@@ -78,6 +136,49 @@ export abstract class RawConnection implements Cleanable {
         this.connectDefer.resolve(this);
     }
 
+    /**
+     * subclasses call this when the transport is temporarily lost (e.g.,
+     * the ICE connection state becomes "disconnected") and is being
+     * recovered.  Messages are held in the send queues until reconnected()
+     * is called.  If the transport is not recovered within
+     * RECONNECT_GRACE_PERIOD, the connection is regarded as disconnected.
+     */
+    protected startReconnecting(): void {
+        if (!this.isConnected() || this._isReconnecting) {
+            return;
+        }
+        this.logger.info("raw reconnecting: %s", this);
+        this._isReconnecting = true;
+        this.cleaner.startTimer(
+            this.manager,
+            RawConnection.RECONNECT_TIMER_NAME,
+            this.manager.config.RECONNECT_GRACE_PERIOD,
+            () => {
+                this.logger.info("raw reconnect timeout: %s", this);
+                this.disconnected();
+            }
+        );
+        this.manager._onRawReconnecting(this, true);
+    }
+
+    /**
+     * subclasses call this when the transport is recovered.
+     */
+    protected reconnected(): void {
+        if (!this._isReconnecting) {
+            return;
+        }
+        this.logger.info("raw reconnected: %s", this);
+        this._isReconnecting = false;
+        this.cleaner.cancelTimer(RawConnection.RECONNECT_TIMER_NAME);
+        this.manager._onRawReconnecting(this, false);
+        this.flushSendQueue();
+    }
+
+    public isReconnecting(): boolean {
+        return this._isReconnecting;
+    }
+
     protected connectFailed(err: Error): void {
         this._isConnected = false;
         this.connectDefer.reject(err);
@@ -89,7 +190,7 @@ export abstract class RawConnection implements Cleanable {
     }
 
     protected resetIdleTimer(): void {
-        this.lastUsed = Date.now();
+        this.lastUsed = this.manager.clock.now();
         if (this.getConnectionType() !== RawConnectionType.Loopback) {
             this.cleaner.startTimer(
                 this.manager,
@@ -112,6 +213,170 @@ export abstract class RawConnection implements Cleanable {
         return this.remoteNodeId;
     }
 
+    /**
+     * true if the remote node has proved that it owns the key pair that
+     * getRemoteNodeId() is derived from.  Otherwise, the remote NodeID is
+     * just a claim of the remote node.
+     */
+    public isRemoteNodeIdVerified(): boolean {
+        return (
+            this.verifiedNodeId !== undefined &&
+            this.verifiedNodeId === this.remoteNodeId
+        );
+    }
+
+    /**
+     * Create a nonce to be answered by the remote node that has sent Hello.
+     * See {@link takeChallenge}.
+     *
+     * @param nodeId the NodeID that the remote node claims in Hello
+     */
+    public createChallenge(nodeId: string): Uint8Array {
+        const nonce = IdentityUtils.createNonce();
+        this.challenge = { nonce: nonce, nodeId: nodeId };
+        return nonce;
+    }
+
+    /**
+     * Take the nonce created by {@link createChallenge}.  A nonce can be
+     * taken only once, whether or not the answer is valid.
+     *
+     * @param nodeId the NodeID that the remote node claims
+     * @return undefined if no challenge is outstanding or the challenge was
+     *  given to another NodeID
+     */
+    public takeChallenge(nodeId: string): Uint8Array | undefined {
+        const challenge = this.challenge;
+        this.challenge = undefined;
+        return challenge?.nodeId === nodeId ? challenge.nonce : undefined;
+    }
+
+    /**
+     * Verify that the remote node is a member of the network, by an
+     * AdmissionProof in HelloAuth against the challenge in HelloReply.
+     * Nodes in INVITE_ISSUERS are admitted if verified by
+     * {@link verifyRemoteNodeId} beforehand.
+     *
+     * @param nodeId the NodeID that the remote node claims
+     * @param proof
+     * @param nonce  the challenge sent to the remote node
+     * @return undefined if admitted, or a reason of rejection
+     *  (one of {@link ManagerRejectReasons}).
+     */
+    public async verifyAdmission(
+        nodeId: string,
+        proof: AdmissionProof | undefined,
+        nonce: Uint8Array
+    ): Promise<string | undefined> {
+        const config = this.manager.config;
+        if (
+            !AdmissionUtils.isRequired(config) ||
+            (this.verifiedNodeId === nodeId &&
+                config.INVITE_ISSUERS.includes(nodeId))
+        ) {
+            return undefined;
+        }
+        return AdmissionUtils.verifyProof(
+            config,
+            this.manager.clock,
+            proof,
+            nonce,
+            nodeId,
+            this.manager.getNodeId(),
+            "initiator"
+        );
+    }
+
+    /**
+     * Verify a proof that the remote node has signed a challenge with the
+     * key pair of the NodeID.
+     * A NodeID that has the form of a key-derived NodeID is never accepted
+     * without a proof, so that nodes without an identity cannot impersonate
+     * nodes with an identity.
+     *
+     * @param nodeId the NodeID that the remote node claims
+     * @param role   the role of the remote node
+     * @param proof  undefined if the remote node has no identity
+     * @param nonce  the challenge sent to the remote node
+     * @throws AuthenticationError if the proof is invalid, or the remote node
+     *  has no identity while {@link NetworkConfig.REQUIRE_NODE_AUTH} is set
+     *  or nodeId looks like a key-derived NodeID.
+     */
+    public async verifyRemoteNodeId(
+        nodeId: string,
+        role: AuthRole,
+        proof?: IdentityProof,
+        nonce?: Uint8Array
+    ): Promise<void> {
+        if (!proof) {
+            if (this.manager.config.REQUIRE_NODE_AUTH) {
+                throw new AuthenticationError(
+                    `node authentication is required: ${nodeId}`
+                );
+            }
+            if (IdentityUtils.isKeyDerivedNodeId(nodeId)) {
+                throw new AuthenticationError(
+                    `key-derived NodeID without a proof: ${nodeId}`
+                );
+            }
+            this.logger.debug("RawConnection: %s is not verified", nodeId);
+            return;
+        }
+        if (!nonce) {
+            throw new AuthenticationError("no challenge has been sent");
+        }
+        const ok = await IdentityUtils.verifyProof(
+            proof,
+            nodeId,
+            this.manager.getNodeId(),
+            nonce,
+            role
+        );
+        if (!ok) {
+            throw new AuthenticationError(`invalid identity proof: ${nodeId}`);
+        }
+        this.logger.debug("RawConnection: verified %s", nodeId);
+        this.verifiedNodeId = nodeId;
+    }
+
+    /**
+     * Set the capabilities of the remote node and negotiate the features
+     * used on this connection.
+     *
+     * @param remote undefined if the remote node does not send capabilities
+     * @throws IncompatibleProtocolError
+     */
+    public setRemoteCapabilities(
+        remote: Capabilities | undefined
+    ): NegotiatedFeatures {
+        this.features = CapabilityUtils.negotiate(
+            this.manager.getCapabilities(),
+            remote,
+            this.manager.config.CODEC
+        );
+        this.remoteCapabilities = remote;
+        for (const codec of this.codecs.values()) {
+            codec.negotiated?.(this.features);
+        }
+        this.logger.debug(
+            "RawConnection: negotiated %j with %s",
+            this.features,
+            this.remoteNodeId
+        );
+        return this.features;
+    }
+
+    public getRemoteCapabilities(): Capabilities | undefined {
+        return this.remoteCapabilities;
+    }
+
+    /**
+     * Get the negotiated feature set, or undefined if not negotiated yet.
+     */
+    public getNegotiatedFeatures(): NegotiatedFeatures | undefined {
+        return this.features;
+    }
+
     public get manager(): Manager {
         return this._manager;
     }
@@ -134,38 +399,427 @@ export abstract class RawConnection implements Cleanable {
 
     /**
      * send a message.
+     * The message is queued while the transport buffer exceeds
+     * {@link NetworkConfig.SEND_BUFFER_HIGH_WATER_MARK}.  Queued messages
+     * are sent in the order of {@link MessageSpec.priority}.
+     * CONTROL messages are queued even if the queue is full.
+     * A CONTROL message whose spec has `barrier' (e.g., ClosePeerConnection)
+     * does not overtake messages queued earlier for the same
+     * PeerConnection.
+     *
      * @param msg
+     * @return a promise that is resolved when the message is passed to the
+     *  transport, or rejected when the message is dropped.
+     *  You do not have to handle the rejection.
      */
-    public send(msg: Message): void {
+    public send(msg: Message): Promise<void> {
         this.resetIdleTimer();
         if (!msg.source) {
             msg.initSource();
         }
-        msg.prepareForAck(this);
+        const defer = new Deferred<void>();
+        defer.promise.catch(() => {
+            /* ignore */
+        });
+        const spec = msg.getSpec();
+        const priority = spec.priority ?? MessagePriority.NORMAL;
         if (
-            this.manager.isMuted &&
-            this.remoteNodeId !== this.manager.getNodeId()
+            priority !== MessagePriority.CONTROL &&
+            this.getSendQueueLength() >=
+                this.manager.config.SEND_QUEUE_MAX_LENGTH
         ) {
+            this.logger.warn(
+                "RawConnection.send: queue is full, drop %s: %s",
+                msg,
+                this
+            );
+            defer.reject(new SendQueueFullError("send queue is full"));
+            return defer.promise;
+        }
+        // the caller may modify the message (e.g., destination) after this
+        // method returns, so we queue a shallow copy.
+        const copy = Object.assign(
+            Object.create(Object.getPrototypeOf(msg)),
+            msg
+        );
+        // the ack timer is started when the message is passed to the
+        // transport, so that queueing delay does not cause ack timeout.
+        // in silent mode, start it now because the message is regarded as lost.
+        const suspended = this.isSendSuspended();
+        if (suspended) {
             this.logger.info("RawConnection.send: not send (muted): %s", msg);
-            this.unsentMessages.push(msg);
-        } else {
-            this.logger.debug("RawConnection.send: send %s via %s", msg, this);
-            this._sendRaw(msg);
+            copy.prepareForAck(this);
+        }
+        const dest = msg.destination;
+        if (
+            priority === MessagePriority.CONTROL &&
+            spec.barrier &&
+            dest?.connId !== undefined
+        ) {
+            this.promoteQueuedMessages(dest);
         }
+        this.sendQueues[priority].push({
+            msg: copy,
+            defer: defer,
+            ackPrepared: suspended,
+        });
+        this.flushSendQueue();
+        return defer.promise;
+    }
+
+    /**
+     * move the queued messages for the PeerConnection that `dest` points to
+     * into the CONTROL queue, keeping their order.
+     */
+    private promoteQueuedMessages(dest: Path): void {
+        const promoted: QueuedMessage[] = [];
+        for (const priority of [MessagePriority.NORMAL, MessagePriority.BULK]) {
+            const queue = this.sendQueues[priority];
+            const rest = queue.filter((q) => {
+                const d = q.msg.destination;
+                if (
+                    d &&
+                    d.connId === dest.connId &&
+                    d.destNodeId === dest.destNodeId
+                ) {
+                    promoted.push(q);
+                    return false;
+                }
+                return true;
+            });
+            queue.splice(0, queue.length, ...rest);
+        }
+        this.sendQueues[MessagePriority.CONTROL].push(...promoted);
     }
 
     public flushUnsentMessage(): void {
-        while (this.unsentMessages.length > 0) {
-            const msg = this.unsentMessages.shift();
-            if (msg) {
-                this._sendRaw(msg);
+        this.flushSendQueue();
+    }
+
+    private isSendSuspended(): boolean {
+        return (
+            this.manager.isMuted &&
+            this.remoteNodeId !== this.manager.getNodeId()
+        );
+    }
+
+    /**
+     * pass queued messages to the transport until the transport buffer
+     * exceeds the high water mark.
+     */
+    private flushSendQueue(): void {
+        if (this.isSendSuspended() || this._isReconnecting) {
+            return;
+        }
+        const config = this.manager.config;
+        for (;;) {
+            const queue = this.sendQueues.find((q) => q.length > 0);
+            if (!queue) {
+                break;
             }
+            if (
+                this.getBufferedAmount() >= config.SEND_BUFFER_HIGH_WATER_MARK
+            ) {
+                this.congested = true;
+                break;
+            }
+            const { msg, defer, ackPrepared } = queue.shift()!;
+            this.logger.debug("RawConnection.send: send %s via %s", msg, this);
+            if (!ackPrepared) {
+                msg.prepareForAck(this);
+            }
+            try {
+                this.transmit(msg);
+            } catch (err) {
+                this.logger.warn("RawConnection.send: failed: %s", err);
+                defer.reject(err);
+                continue;
+            }
+            defer.resolve();
         }
+        if (this.getBufferedAmount() >= config.SEND_BUFFER_HIGH_WATER_MARK) {
+            this.congested = true;
+        }
+        if (!this.congested) {
+            return;
+        }
+        if (
+            this.getSendQueueLength() === 0 &&
+            this.getBufferedAmount() <= config.SEND_BUFFER_LOW_WATER_MARK
+        ) {
+            this.congested = false;
+            this.logger.debug("RawConnection: drained: %s", this);
+            this.drainCallbacks.invoke();
+            return;
+        }
+        // no portable event notifies that the transport buffer is drained
+        this.cleaner.startTimer(
+            this.manager,
+            RawConnection.DRAIN_TIMER_NAME,
+            config.SEND_QUEUE_POLL_INTERVAL,
+            () => this.flushSendQueue()
+        );
+    }
+
+    /**
+     * Get the number of bytes that are buffered in the transport and not
+     * transmitted yet.
+     */
+    public getBufferedAmount(): number {
+        return 0;
+    }
+
+    /**
+     * Get the number of messages that are waiting for being passed to the
+     * transport.
+     */
+    public getSendQueueLength(): number {
+        return this.sendQueues.reduce((sum, q) => sum + q.length, 0);
+    }
+
+    /**
+     * true if the transport buffer has exceeded the high water mark and has
+     * not been drained to the low water mark yet.
+     */
+    public isCongested(): boolean {
+        return this.congested;
+    }
+
+    /**
+     * register a callback that is called when this connection is drained.
+     * (i.e., isCongested() turns false)
+     */
+    public onDrain(cb: () => void): void {
+        this.drainCallbacks.addCallback(cb);
+    }
+
+    /**
+     * @return a promise that is resolved when this connection is not congested.
+     */
+    public waitDrain(): Promise<void> {
+        if (!this.congested) {
+            return Promise.resolve();
+        }
+        const defer = new Deferred<void>();
+        const cb = (): void => {
+            this.drainCallbacks.removeCallback(cb);
+            this.cleaner.remove(onDestroy);
+            defer.resolve();
+        };
+        const onDestroy = (): void => {
+            defer.reject(new DisconnectedError("RawConnection is destroyed"));
+        };
+        this.drainCallbacks.addCallback(cb);
+        this.cleaner.push(onDestroy);
+        return defer.promise;
+    }
+
+    protected abstract _sendRaw(frame: Frame): void;
+
+    /**
+     * Get the maximum size of a frame that can be passed to _sendRaw().
+     * Larger frames are fragmented.  0 means unlimited.
+     */
+    protected getMTU(): number {
+        return 0;
+    }
+
+    /**
+     * pass a message to the transport, applying the fault injection rules.
+     * the rules are applied before encoding, and each copy is encoded when
+     * it is written.
+     */
+    private transmit(msg: Message): void {
+        const faults = this.manager.faults;
+        if (
+            !faults.isActive() ||
+            this.getConnectionType() === RawConnectionType.Loopback
+        ) {
+            this.writeMessage(msg);
+            return;
+        }
+        const delays = faults.apply({
+            direction: "outgoing",
+            remoteNodeId: this.remoteNodeId,
+            messageClass: msg.constructor.name,
+            connectionType: this.getConnectionType(),
+        });
+        this.logger.debug("fault injection: send %s, delays=%s", msg, delays);
+        for (const delay of delays) {
+            if (delay === 0) {
+                this.writeMessage(msg);
+                continue;
+            }
+            this.delayByFault(delay, () => {
+                try {
+                    this.writeMessage(msg);
+                } catch (err) {
+                    this.logger.warn("RawConnection.send: failed: %s", err);
+                }
+            });
+        }
+    }
+
+    /**
+     * run a job after a delay given by the fault injection rules, if this
+     * connection is still connected.  the timer is canceled on destroy().
+     */
+    private delayByFault(delay: number, job: () => void): void {
+        this.cleaner.startTimer(
+            this.manager,
+            `${RawConnection.FAULT_DELAY_TIMER_NAME}-${this.faultDelayCount++}`,
+            delay,
+            () => {
+                if (this.isConnected()) {
+                    job();
+                }
+            }
+        );
+    }
+
+    private writeMessage(msg: Message): void {
+        const frame = this.encode(msg);
+        const metrics = this.manager.metrics;
+        const size = CodecUtils.sizeOf(frame);
+        metrics.messagesSent.inc({ class: msg.constructor.name });
+        metrics.bytesSent.inc(
+            { type: RawConnectionType[this.getConnectionType()] },
+            size
+        );
+        const me = this.manager.getNodeId();
+        if (
+            msg.srcNodeId &&
+            msg.srcNodeId !== me &&
+            msg.destNodeId &&
+            msg.destNodeId !== me
+        ) {
+            this.manager.relayBudget.countRelayedMessage(msg, size);
+        }
+        this.writeFrame(frame);
+    }
+
+    private writeFrame(frame: Frame): void {
+        const mtu = this.getMTU();
+        const version = this.features?.version || 0;
+        if (mtu > 0 && version >= FragmentUtils.MIN_VERSION) {
+            const fragments = FragmentUtils.split(frame, this.nextFrameId, mtu);
+            if (fragments) {
+                this.nextFrameId = (this.nextFrameId + 1) >>> 0;
+                fragments.forEach((f) => this._sendRaw(f));
+                return;
+            }
+        }
+        this._sendRaw(frame);
+    }
+
+    protected getCodec(name: string): Codec {
+        let codec = this.codecs.get(name);
+        if (!codec) {
+            codec = CodecUtils.create(name);
+            if (this.features) {
+                codec.negotiated?.(this.features);
+            }
+            this.codecs.set(name, codec);
+        }
+        return codec;
+    }
+
+    /**
+     * Get the name of the codec that is used for encoding outgoing messages.
+     * The default codec is used until the features are negotiated.
+     */
+    public getCodecName(): string {
+        return this.features?.codec || CodecUtils.DEFAULT_CODEC;
+    }
+
+    protected encode(msg: Message): Frame {
+        return this.getCodec(this.getCodecName()).encode(msg);
     }
 
-    protected abstract _sendRaw(data: object): void;
+    /**
+     * Check if frames encoded with a codec are accepted.  The default codec
+     * is always accepted, and other codecs only if the remote node has
+     * advertised them.  Overridden by connections that advertise their
+     * capabilities first.
+     *
+     * @param name the codec name
+     */
+    protected acceptsCodec(name: string): boolean {
+        return (
+            name === CodecUtils.DEFAULT_CODEC ||
+            !!this.remoteCapabilities?.codecs.includes(name)
+        );
+    }
 
-    // subclasses call this method when a message is received
+    /**
+     * subclasses call this method when a frame is received.
+     *
+     * @param data  string, Buffer, ArrayBuffer or Uint8Array
+     */
+    protected receiveFrame(data: unknown): void {
+        let frame: Frame;
+        let codec: Codec;
+        let message: Message;
+        try {
+            frame = CodecUtils.toFrame(data);
+            this.manager.metrics.bytesReceived.inc(
+                { type: RawConnectionType[this.getConnectionType()] },
+                CodecUtils.sizeOf(frame)
+            );
+            if (FragmentUtils.isFragment(frame)) {
+                const whole = this.reassembler.add(frame);
+                if (!whole) {
+                    return;
+                }
+                frame = whole;
+            }
+            const name = CodecUtils.getCodecNameOf(frame);
+            if (!this.acceptsCodec(name)) {
+                throw new CodecError(`codec ${name} is not negotiated`);
+            }
+            codec = this.getCodec(name);
+            message = codec.decode(frame) as Message;
+        } catch (e) {
+            if (e instanceof CodecError || e instanceof SyntaxError) {
+                this.logger.warn(
+                    "RawConnection.receiveFrame: ignore malformed frame: %s",
+                    e
+                );
+                return;
+            }
+            // the remote node is broken or malicious
+            this.logger.warn("RawConnection.receiveFrame: %s, close", e);
+            this.destroy();
+            return;
+        }
+        const faults = this.manager.faults;
+        if (
+            !faults.isActive() ||
+            this.getConnectionType() === RawConnectionType.Loopback
+        ) {
+            this.receive(message);
+            return;
+        }
+        const delays = faults.apply({
+            direction: "incoming",
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            messageClass: (message as any)[SerializeUtils.CLASSNAME_FIELD],
+            remoteNodeId: this.remoteNodeId,
+            connectionType: this.getConnectionType(),
+        });
+        this.logger.debug("fault injection: receive, delays=%s", delays);
+        delays.forEach((delay, i) => {
+            // each copy is decoded separately because receive() modifies it
+            const copy = i === 0 ? message : (codec.decode(frame) as Message);
+            if (delay === 0) {
+                this.receive(copy);
+                return;
+            }
+            this.delayByFault(delay, () => this.receive(copy));
+        });
+    }
+
+    // called with a decoded (but not prototype-restored) message
     protected receive(message: Message): void {
         // reset the connection idle timer
         this.resetIdleTimer();
@@ -176,14 +830,18 @@ export abstract class RawConnection implements Cleanable {
         } catch (e) {
             if (e instanceof ClassNotFoundException) {
                 this.logger.warn(
-                    "RawMessage.onReceive: ignore unknown class message: %s, %j",
+                    "RawMessage.onReceive: ignore unknown class message: %s, %j (remote protocol version=%s)",
                     e.className,
-                    message
+                    message,
+                    this.remoteCapabilities?.version
                 );
                 return;
             }
             throw e;
         }
+        this.manager.metrics.messagesReceived.inc({
+            class: msg.constructor.name,
+        });
         msg.updateSource();
         msg.rawConnection = this;
         this.logger.debug("RawConnection.onReceive: %s via %s", message, this);
@@ -191,7 +849,9 @@ export abstract class RawConnection implements Cleanable {
         if (msg.destNodeId && msg.destNodeId !== this.manager.getNodeId()) {
             // this message is not sent to me.
             // forward along with message.destination
-            msg.forward();
+            if (msg.beforeRelay()) {
+                msg.forward();
+            }
             return;
         }
         let pc: PeerConnection | undefined = undefined;
@@ -269,6 +929,7 @@ export abstract class RawConnection implements Cleanable {
     public destroy(): void {
         this.logger.debug("raw.destroy: %s", this);
         this._isConnected = false;
+        this._isReconnecting = false;
         this.connectDefer.reject(new Error("RawConnection is destroyed"));
 
         // destroy affected PeerConnections
@@ -302,19 +963,49 @@ export abstract class RawConnection implements Cleanable {
                 notify.forward();
                 notifySent.add(remoteNodeId);
             }
+            this.requeue(msg);
             ackStat.destroy();
         }
 
-        this.unsentMessages.splice(0, this.unsentMessages.length);
+        const err = new DisconnectedError("RawConnection is destroyed");
+        for (const queue of this.sendQueues) {
+            queue
+                .splice(0, queue.length)
+                .filter((q) => !this.requeue(q.msg, q.defer))
+                .forEach((q) => q.defer.reject(err));
+        }
         this.cleaner.clean();
     }
 
+    /**
+     * pass a message that is sent from a PeerConnection on this node back to
+     * the PeerConnection, if it may be resumed (see resume.ts).
+     *
+     * @return true if the PeerConnection takes the message
+     */
+    private requeue(msg: Message, defer?: Deferred<void>): boolean {
+        const connId = msg.source?.connId;
+        if (
+            this.manager.config.RESUME_TIMEOUT <= 0 ||
+            msg.srcNodeId !== this.manager.getNodeId() ||
+            connId === undefined
+        ) {
+            return false;
+        }
+        const pc = this.manager.getPeerConnection(connId);
+        if (!pc || !pc.isConnected()) {
+            return false;
+        }
+        pc._requeue(msg, defer);
+        return true;
+    }
+
     public getRemoteIPAddress(): string | undefined {
         return undefined;
     }
 
     protected formatIdleTime(): string {
-        return `idle=${(Date.now() - this.lastUsed)
+        return `idle=${(this.manager.clock.now() - this.lastUsed)
             .toString()
             .padStart(5, "0")}`;
     }
@@ -0,0 +1,269 @@
+import { Manager } from "../manager";
+import { CodecUtils, Frame } from "../codec";
+import { RawConnection, RawConnectionType } from "./raw";
+import { WsConnection } from "./websocket";
+import { SimNetwork } from "../simnetwork";
+import { quote } from "../../utils";
+import { override } from "core-decorators";
+
+/**
+ * One direction of a simulated link.
+ * Frames are serialized according to the bandwidth of the link, delayed by
+ * the latency and delivered in order (as TCP or SCTP does).
+ */
+class SimPipe {
+    // the time when the transmission of the last frame completes
+    private busyUntil = 0;
+    // the time when the last frame arrives at the receiver
+    private lastArrival = 0;
+    public bufferedAmount = 0;
+
+    constructor(
+        private readonly network: SimNetwork,
+        private readonly fromNodeId: string,
+        private readonly toNodeId: string
+    ) {}
+
+    /**
+     * transmit data over this pipe.
+     *
+     * @param size     the size of the data in bytes
+     * @param reliable true if the data is never lost
+     * @param job      called when the data arrives at the receiver
+     */
+    public transmit(size: number, reliable: boolean, job: () => void): void {
+        const link = this.network.getLink(this.fromNodeId, this.toNodeId);
+        const now = this.network.clock.now();
+        const txTime = link.bandwidth ? (size * 1000) / link.bandwidth : 0;
+        this.busyUntil = Math.max(now, this.busyUntil) + txTime;
+        if (txTime > 0) {
+            this.bufferedAmount += size;
+            this.network.schedule(this.busyUntil - now, () => {
+                this.bufferedAmount -= size;
+            });
+        }
+        const arrival = Math.max(
+            this.busyUntil + SimNetwork.sampleLatency(link),
+            this.lastArrival
+        );
+        this.lastArrival = arrival;
+        if (!reliable && this.network.random() < link.loss) {
+            return;
+        }
+        this.network.schedule(arrival - now, job);
+    }
+}
+
+// frames are copied so that the sender cannot modify them while in flight
+function copyOf(frame: Frame): Frame {
+    return typeof frame === "string" ? frame : frame.slice();
+}
+
+/**
+ * Client side of a connection over SimNetwork.
+ * This class replaces WsConnection on nodes created by
+ * {@link SimNetwork.createManager}.  Hello and HelloReply are exchanged
+ * as with WsConnection.
+ */
+export class SimulatedConnection extends WsConnection {
+    private peer?: SimulatedServerConnection;
+    private pipe?: SimPipe;
+    private closed = false;
+
+    constructor(
+        private readonly network: SimNetwork,
+        manager: Manager,
+        url: string
+    ) {
+        super(manager, url);
+        this.cleaner.push(() => {
+            this.closed = true;
+            const peer = this.peer;
+            if (peer) {
+                this.pipe?.transmit(0, true, () => peer.peerClosed());
+            }
+        });
+    }
+
+    public toString(): string {
+        return [
+            `Simulated(Client)[id=${this.id}`,
+            `remNodeId=${quote(this.getRemoteNodeId())}`,
+            `url=${quote(this.url)}`,
+            `${["DISCONNECTED", "CONNECTED"][+this.isConnected()]}`,
+            `graceClose=${this.isGracefullyClosed}`,
+            `${this.formatIdleTime()}]`,
+        ].join(", ");
+    }
+
+    /**
+     * Establish a simulated connection to the portal node specified by the
+     * URL.  The connection fails if no node has the URL or the node is not
+     * reachable from this node.
+     *
+     * @return a promise that is completed when this connection is established
+     */
+    @override
+    public connect(): Promise<RawConnection> {
+        this.logger.debug(`SimulatedConnection.connect: url=${this.url}`);
+        const myNodeId = this.manager.getNodeId();
+        // canceled by connected()
+        this.cleaner.startTimer(
+            this.manager,
+            RawConnection.CONNECT_TIMER_NAME,
+            this.manager.config.REPLY_TIMEOUT,
+            () =>
+                this.connectFailed(
+                    new Error("SimNetwork: connect timeout: " + this.url)
+                )
+        );
+        const target = this.network.getPortal(this.url);
+        if (
+            !target ||
+            !this.network.isReachable(myNodeId, target.getNodeId())
+        ) {
+            // packets are silently dropped as by a NAT or a firewall
+            return this.promise;
+        }
+        const remoteNodeId = target.getNodeId();
+        const pipe = new SimPipe(this.network, myNodeId, remoteNodeId);
+        // SYN
+        pipe.transmit(0, true, () => {
+            if (this.closed || !this.network.getPortal(this.url)) {
+                return;
+            }
+            const peer = new SimulatedServerConnection(
+                this.network,
+                target,
+                this
+            );
+            // SYN+ACK
+            peer.acknowledge(() => {
+                if (this.closed) {
+                    peer.peerClosed();
+                    return;
+                }
+                this.peer = peer;
+                this.pipe = pipe;
+                this.logger.newEvent("simulated connection established");
+                this.startHandshake();
+            });
+        });
+        return this.promise;
+    }
+
+    /**
+     * called by the peer when a frame arrives.
+     */
+    public deliver(frame: Frame): void {
+        if (!this.closed) {
+            this.logger.newEvent("simulated: message");
+            this.receiveFrame(frame);
+        }
+    }
+
+    /**
+     * called by the peer when the peer is closed.
+     */
+    public peerClosed(): void {
+        if (!this.closed) {
+            this.logger.newEvent("simulated: closed by peer");
+            this.disconnected();
+        }
+    }
+
+    @override
+    public getBufferedAmount(): number {
+        return this.pipe?.bufferedAmount || 0;
+    }
+
+    protected _sendRaw(frame: Frame): void {
+        const peer = this.peer;
+        if (!peer || !this.pipe) {
+            throw new Error("_sendRaw() before connected");
+        }
+        const copy = copyOf(frame);
+        this.pipe.transmit(CodecUtils.sizeOf(copy), false, () =>
+            peer.deliver(copy)
+        );
+    }
+}
+
+/**
+ * Server side of a connection over SimNetwork.
+ */
+export class SimulatedServerConnection extends RawConnection {
+    private readonly pipe: SimPipe;
+    private closed = false;
+
+    constructor(
+        network: SimNetwork,
+        manager: Manager,
+        private readonly peer: SimulatedConnection
+    ) {
+        super(manager);
+        this.pipe = new SimPipe(
+            network,
+            manager.getNodeId(),
+            peer.manager.getNodeId()
+        );
+        this.cleaner.push(() => {
+            this.closed = true;
+            this.pipe.transmit(0, true, () => peer.peerClosed());
+        });
+        this.connected();
+    }
+
+    public getConnectionType(): RawConnectionType {
+        return RawConnectionType.WebServerSocket;
+    }
+
+    public toString(): string {
+        return [
+            `Simulated(Server)[id=${this.id}`,
+            `remNodeId=${quote(this.getRemoteNodeId())}`,
+            `${["DISCONNECTED", "CONNECTED"][+this.isConnected()]}`,
+            `graceClose=${this.isGracefullyClosed}`,
+            `${this.formatIdleTime()}]`,
+        ].join(", ");
+    }
+
+    /**
+     * send a zero-length packet (SYN+ACK) to the peer.
+     */
+    public acknowledge(job: () => void): void {
+        this.pipe.transmit(0, true, job);
+    }
+
+    /**
+     * called by the peer when a frame arrives.
+     */
+    public deliver(frame: Frame): void {
+        if (!this.closed) {
+            this.logger.newEvent("simulated-server: message");
+            this.receiveFrame(frame);
+        }
+    }
+
+    /**
+     * called by the peer when the peer is closed.
+     */
+    public peerClosed(): void {
+        if (!this.closed) {
+            this.logger.newEvent("simulated-server: closed by peer");
+            this.disconnected();
+        }
+    }
+
+    @override
+    public getBufferedAmount(): number {
+        return this.pipe.bufferedAmount;
+    }
+
+    protected _sendRaw(frame: Frame): void {
+        const copy = copyOf(frame);
+        this.pipe.transmit(CodecUtils.sizeOf(copy), false, () =>
+            this.peer.deliver(copy)
+        );
+    }
+}
@@ -1,10 +1,21 @@
 import * as SimplePeer from "simple-peer";
-import { Callbacks, quote } from "../../utils";
+import * as GraphLib from "graphlib";
+import { Callbacks, GraphUtils, quote } from "../../utils";
 import { Manager } from "../manager";
-import { Message } from "../messages";
+import {
+    Message,
+    MessagePriority,
+    MessageSpec,
+    ReplyMessage,
+    RequestMessage,
+    RequestMessageSpec,
+} from "../messages";
 import { RawConnection, RawConnectionType } from "./raw";
-import { serializable } from "../serialize";
+import { serializable, SerializeUtils } from "../serialize";
 import { Path } from "../path";
+import { Frame } from "../codec";
+import { override } from "core-decorators";
+import { AuthRole, IdentityProof, IdentityUtils } from "../identity";
 import getBrowserRTC = require("get-browser-rtc");
 
 const isNode = import("detect-node");
@@ -16,16 +27,31 @@ const isNode = import("detect-node");
 export class WebRTCSignal extends Message {
     public sdp: string;
 
+    /**
+     * @param manager
+     * @param destination
+     * @param targetPeerConnectionId
+     * @param sdp
+     * @param nonce the nonce shared over the WebRTC connection, required for
+     *  renegotiation signals sent through another path
+     */
     constructor(
         manager: Manager,
         destination: Path,
         public targetPeerConnectionId: number | undefined,
-        sdp: string
+        sdp: string,
+        public readonly nonce?: Uint8Array
     ) {
         super(manager, destination);
         this.sdp = sdp;
     }
 
+    public getSpec(): MessageSpec {
+        return {
+            priority: MessagePriority.CONTROL,
+        };
+    }
+
     public toString(): string {
         return `[WebRTCSignal srcNodeId=${this.srcNodeId}, dest=${this.destination}, targetPCID=${this.targetPeerConnectionId}, sdp=...]`;
     }
@@ -33,6 +59,7 @@ export class WebRTCSignal extends Message {
     public onReceive(): void {
         const manager = this.manager;
         let raw: RawConnection | undefined;
+        let indirect = false;
         const logger = manager.rawLogger;
         if (this.targetPeerConnectionId !== undefined) {
             const pc = this.manager.getPeerConnection(
@@ -44,6 +71,29 @@ export class WebRTCSignal extends Message {
         } else {
             // renegotiation case
             raw = this.rawConnection;
+            if (raw && raw.getRemoteNodeId() !== this.srcNodeId) {
+                // the remote node is restarting ICE and the signal is
+                // delivered through another RawConnection
+                indirect = true;
+                raw = manager
+                    .getRawConnections()
+                    .find(
+                        (r) =>
+                            r instanceof WebRTCConnection &&
+                            r.isConnected() &&
+                            r.getRemoteNodeId() === this.srcNodeId
+                    );
+                if (
+                    raw instanceof WebRTCConnection &&
+                    !raw.acceptsIndirectSignal(this.nonce)
+                ) {
+                    logger.info(
+                        "WebRTCSignal.onReceive: reject indirect signal: %s",
+                        this
+                    );
+                    return;
+                }
+            }
         }
         if (!raw) {
             logger.info(
@@ -60,7 +110,81 @@ export class WebRTCSignal extends Message {
             return;
         }
         logger.debug("WebRTCSignal.onReceive: signal to %s", raw);
-        raw.signaling(this.sdp);
+        raw.signaling(this.sdp, indirect);
+    }
+}
+
+/**
+ * A message sent through a WebRTC connection just after the connection is
+ * established, to verify the NodeID of the remote node.
+ * Both ends send this message to each other.
+ */
+@serializable
+export class WebRTCAuth extends RequestMessage<WebRTCAuth, WebRTCAuthReply> {
+    // the protocol version that supports this message
+    public static readonly MIN_VERSION = 3;
+
+    constructor(manager: Manager, public readonly challenge: Uint8Array) {
+        super(manager);
+    }
+
+    @override
+    public getSpec(): RequestMessageSpec {
+        return {
+            replyClassName: WebRTCAuthReply.name,
+            noAck: true,
+            priority: MessagePriority.CONTROL,
+        };
+    }
+
+    public toString(): string {
+        return `<WebRTCAuth, srcNodeId=${this.srcNodeId}>`;
+    }
+
+    public onReceive(): void {
+        this.onReceiveAsync().catch((err) => {
+            this.manager.rawLogger.error(
+                "WebRTCAuth.onReceiveAsync got %s",
+                err
+            );
+        });
+    }
+
+    private async onReceiveAsync(): Promise<void> {
+        const raw = this.rawConnection as RawConnection;
+        const identity = this.manager.getIdentity();
+        const role: AuthRole =
+            raw instanceof WebRTCConnection && raw.isInitiator()
+                ? "initiator"
+                : "responder";
+        if (raw instanceof WebRTCConnection && !raw.isInitiator()) {
+            raw._setSignalingNonce(this.challenge);
+        }
+        const proof = identity
+            ? await identity.prove(
+                  this.challenge,
+                  this.srcNodeId as string,
+                  role
+              )
+            : undefined;
+        // the connection may not be available yet, so we do not use
+        // sendReply(), which looks up a RawConnection by NodeID.
+        raw.send(new WebRTCAuthReply(this, proof));
+    }
+}
+
+@serializable
+export class WebRTCAuthReply extends ReplyMessage<WebRTCAuth, WebRTCAuthReply> {
+    // undefined if the sender has no identity
+    constructor(req: WebRTCAuth, public readonly proof?: IdentityProof) {
+        super(req);
+    }
+
+    public getSpec(): MessageSpec {
+        return {
+            noAck: true,
+            priority: MessagePriority.CONTROL,
+        };
     }
 }
 
@@ -74,6 +198,16 @@ export class WebRTCConnection extends RawConnection {
     private signalCount = 0;
     private readonly remoteIPs = new Set<string>();
     private streamListeners = new Callbacks<MediaStream>();
+    private authStarted = false;
+    // true if signals for ICE restart should be sent through another path
+    private signalIndirectly = false;
+    // a nonce known only to both ends (the challenge of the initiator in
+    // WebRTCAuth, which is sent over this connection).  signals for ICE
+    // restart sent through another path carry it.
+    private signalingNonce?: Uint8Array;
+    // messages received before the remote node is verified (at most
+    // SEND_QUEUE_MAX_LENGTH)
+    private readonly heldMessages: Message[] = [];
 
     /**
      * @param manager     Manager
@@ -91,7 +225,7 @@ export class WebRTCConnection extends RawConnection {
         this._isInitiator = !sdp;
         const option: SimplePeer.Options = {
             config: {
-                iceServers: this.manager.config.STUN_SERVERS,
+                iceServers: this.manager.iceServers.getAll(),
             },
             initiator: this._isInitiator,
             // workaround for addTrack does not work from non-initiator
@@ -116,11 +250,23 @@ export class WebRTCConnection extends RawConnection {
             this.logger.newEvent("webrtc: signal");
             if (this.isConnected()) {
                 this.logger.debug("WebRTCConnection: renegotiation!");
+                const indirect = this.isReconnecting() || this.signalIndirectly;
+                const path = indirect
+                    ? this.getSignalingPath()
+                    : this.getDirectPath();
+                if (!path) {
+                    this.logger.info(
+                        "WebRTCConnection: no path for signaling: %s",
+                        this
+                    );
+                    return;
+                }
                 const msg = new WebRTCSignal(
                     this.manager,
-                    this.getDirectPath(),
+                    path,
                     undefined,
-                    sdp
+                    sdp,
+                    indirect ? this.signalingNonce : undefined
                 );
                 msg.forward();
             } else {
@@ -131,9 +277,17 @@ export class WebRTCConnection extends RawConnection {
             this.logger.newEvent("webrtc: close");
             this.disconnected();
         });
+        this.simplePeer.on("iceStateChange", (state: string) => {
+            this.logger.newEvent("webrtc: iceStateChange: " + state);
+            if (state === "disconnected") {
+                this.onIceDisconnected();
+            } else if (state === "connected" || state === "completed") {
+                this.onIceConnected();
+            }
+        });
         this.simplePeer.on("connect", () => {
             this.logger.newEvent("webrtc: connect");
-            this.connected();
+            this.authenticate();
         });
         this.simplePeer.on("error", (err) => {
             this.logger.newEvent("webrtc: error: " + err.toString());
@@ -148,11 +302,8 @@ export class WebRTCConnection extends RawConnection {
             // this.logger.newEvent("webrtc: data");
             // this.logger.debug("got message: ", data);
             // "connect" よりも先に "data" が来ることがある
-            if (!this.isConnected()) {
-                this.connected();
-            }
-            const message: Message = JSON.parse(data);
-            super.receive(message);
+            this.authenticate();
+            this.receiveFrame(data);
         });
         this.simplePeer.on("stream", (stream: MediaStream) => {
             this.logger.newEvent("webrtc: stream");
@@ -168,6 +319,180 @@ export class WebRTCConnection extends RawConnection {
         return RawConnectionType.WebRTC;
     }
 
+    /**
+     * Verify the NodeID of the remote node by exchanging WebRTCAuth
+     * messages.  The connection becomes connected when verified.
+     */
+    private authenticate(): void {
+        if (this.authStarted) {
+            return;
+        }
+        this.authStarted = true;
+        this.authenticate0().then(
+            () => {
+                this.connected();
+                this.heldMessages
+                    .splice(0, this.heldMessages.length)
+                    .forEach((msg) => this.receive(msg));
+            },
+            (err) => {
+                this.logger.info("WebRTCConnection: %s: %s", err, this);
+                this.connectFailed(err);
+            }
+        );
+    }
+
+    private async authenticate0(): Promise<void> {
+        const nodeId = this.getRemoteNodeId();
+        if (!nodeId) {
+            throw new Error("remoteNodeId is unset: " + this);
+        }
+        const role: AuthRole = this._isInitiator ? "responder" : "initiator";
+        const version = this.getNegotiatedFeatures()?.version || 0;
+        if (version < WebRTCAuth.MIN_VERSION) {
+            // the remote node does not know WebRTCAuth
+            await this.verifyRemoteNodeId(nodeId, role);
+            return;
+        }
+        const challenge = IdentityUtils.createNonce();
+        if (this._isInitiator) {
+            this._setSignalingNonce(challenge);
+        }
+        const req = new WebRTCAuth(this.manager, challenge);
+        const reply = await req.request(this);
+        await this.verifyRemoteNodeId(nodeId, role, reply.proof, challenge);
+    }
+
+    // called by WebRTCAuth
+    public _setSignalingNonce(nonce: Uint8Array): void {
+        if (!this.signalingNonce) {
+            this.signalingNonce = nonce;
+        }
+    }
+
+    /**
+     * true if a renegotiation signal delivered through another path is
+     * accepted: only while this connection is reconnecting, and only with
+     * the nonce shared over this connection.
+     *
+     * @param nonce WebRTCSignal.nonce
+     */
+    public acceptsIndirectSignal(nonce: Uint8Array | undefined): boolean {
+        const expected = this.signalingNonce;
+        return (
+            this.isReconnecting() &&
+            !!expected &&
+            nonce instanceof Uint8Array &&
+            nonce.length === expected.length &&
+            nonce.every((b, i) => b === expected[i])
+        );
+    }
+
+    /**
+     * The ICE connection is lost (e.g., the network of this node or the
+     * remote node is changed).  The initiator restarts ICE, and the other
+     * side requests the initiator to do so.  The signals are exchanged
+     * through another path (see getSignalingPath()).
+     */
+    private onIceDisconnected(): void {
+        if (!this.isConnected() || !this.manager.config.ENABLE_ICE_RESTART) {
+            return;
+        }
+        this.startReconnecting();
+        this.logger.info("WebRTCConnection: restart ICE: %s", this);
+        this.setIceRestart(true);
+        // simple-peer dependent!!
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (this.simplePeer as any).negotiate();
+    }
+
+    private onIceConnected(): void {
+        this.setIceRestart(false);
+        this.signalIndirectly = false;
+        this.reconnected();
+    }
+
+    /**
+     * make the next offer restart ICE.  simple-peer passes offerOptions to
+     * RTCPeerConnection.createOffer() (only the initiator creates offers).
+     */
+    private setIceRestart(flag: boolean): void {
+        if (!this._isInitiator) {
+            return;
+        }
+        // simple-peer dependent!!
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const p = this.simplePeer as any;
+        p.offerOptions = { ...p.offerOptions, iceRestart: flag };
+    }
+
+    /**
+     * Get a path to the remote node that does not use this connection,
+     * such as a path via a portal node or a relay path of a PeerConnection.
+     * The path is computed from the paths known to this node.
+     *
+     * @return the path, or undefined if no such path is known.
+     */
+    private getSignalingPath(): Path | undefined {
+        const me = this.manager.getNodeId();
+        const remote = this.getRemoteNodeId();
+        if (!remote) {
+            return undefined;
+        }
+        const g = new GraphLib.Graph({ directed: false });
+        for (const path of this.manager.getAllPaths()) {
+            for (const e of path.getEdgeSequence()) {
+                if (
+                    (e.v === me && e.w === remote) ||
+                    (e.v === remote && e.w === me)
+                ) {
+                    continue;
+                }
+                g.setEdge(e);
+            }
+        }
+        if (!g.hasNode(me) || !g.hasNode(remote)) {
+            return undefined;
+        }
+        const nodes = GraphUtils.dijkstra(
+            g,
+            me,
+            remote,
+            this.manager.linkRtts.getWeightFunction()
+        );
+        return nodes ? new Path(nodes) : undefined;
+    }
+
+    @override
+    protected receive(message: Message): void {
+        if (!this.isConnected()) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const className = (message as any)[SerializeUtils.CLASSNAME_FIELD];
+            if (
+                className !== WebRTCAuth.name &&
+                className !== WebRTCAuthReply.name
+            ) {
+                if (
+                    this.heldMessages.length >=
+                    this.manager.config.SEND_QUEUE_MAX_LENGTH
+                ) {
+                    this.logger.warn(
+                        "WebRTCConnection: too many messages before authentication: %s",
+                        this
+                    );
+                    this.heldMessages.length = 0;
+                    this.connectFailed(
+                        new Error("too many messages before authentication")
+                    );
+                    return;
+                }
+                this.heldMessages.push(message);
+                return;
+            }
+        }
+        super.receive(message);
+    }
+
     public toString(): string {
         // depends on simple-peer internal
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -197,8 +522,19 @@ export class WebRTCConnection extends RawConnection {
      * simple peerのsignalメソッドにdataを渡す
      *
      * @param data
+     * @param indirect  true if the signal is received through another
+     *  RawConnection, which means that the remote node is restarting ICE.
+     *  our answer is also sent through another path.
      */
-    public signaling(data: string | SimplePeer.SignalData): void {
+    public signaling(
+        data: string | SimplePeer.SignalData,
+        indirect = false
+    ): void {
+        if (indirect) {
+            // the remote node requests renegotiation for ICE restart
+            this.signalIndirectly = true;
+            this.setIceRestart(true);
+        }
         // simple-peer dependent!!
         const sdata = data as SimplePeer.SignalData;
         if (sdata.candidate && sdata.candidate.candidate) {
@@ -223,14 +559,24 @@ export class WebRTCConnection extends RawConnection {
         */
     }
 
-    protected _sendRaw(_data: Message): void {
+    protected _sendRaw(frame: Frame): void {
         try {
-            this.simplePeer.send(JSON.stringify(_data));
+            this.simplePeer.send(frame);
         } catch (err) {
             this.logger.warn("simplePeer.send throws %s", err);
         }
     }
 
+    @override
+    public getBufferedAmount(): number {
+        return this.simplePeer.bufferSize;
+    }
+
+    @override
+    protected getMTU(): number {
+        return this.manager.config.WEBRTC_MTU;
+    }
+
     public isInitiator(): boolean {
         return this._isInitiator;
     }
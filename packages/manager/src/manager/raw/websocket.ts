@@ -1,8 +1,14 @@
 import * as io from "socket.io-client";
-import { Manager } from "../manager";
+import {
+    Manager,
+    ManagerRejectReasons,
+    RejectionError,
+    TimeoutError,
+} from "../manager";
 import { RawConnection, RawConnectionType } from "./raw";
 import {
-    Message,
+    MessagePriority,
+    MessageSpec,
     ReplyMessage,
     RequestMessage,
     RequestMessageSpec,
@@ -10,17 +16,55 @@ import {
 import { quote } from "../../utils";
 import { serializable } from "../serialize";
 import { override } from "core-decorators";
+import { CodecUtils, Frame } from "../codec";
+import { Capabilities, IncompatibleProtocolError } from "../capabilities";
+import { AuthenticationError, IdentityProof, IdentityUtils } from "../identity";
+import { AdmissionProof, AdmissionUtils } from "../admission";
+import { IceServerGrant } from "../ice";
+
+/**
+ * Bind a RawConnection to the remote node after receiving Hello (and
+ * HelloAuth if the remote node has an identity).
+ */
+function helloEstablished(
+    raw: RawConnection,
+    nodeId: string,
+    url: string | undefined
+): void {
+    const manager = raw.manager;
+    raw.setRemoteNodeId(nodeId);
+    const defer = manager.getHelloDefer(nodeId, false);
+    if (defer) {
+        defer.resolve(raw);
+    }
+    if (url) {
+        manager.addPortalURL(url);
+    }
+}
 
 /**
  * A message to bind WebServerSocketConnection and PeerConnection at a portal node.
+ *
+ * If either end has an identity or the receiver requires admission control
+ * (see admission.ts), the receiver replies a challenge in HelloReply and the
+ * sender answers it in HelloAuth.  Until then, the receiver does not bind
+ * the connection to the sender.  The receiver proves its own NodeID and
+ * membership in HelloAuthReply, only after the sender has proved itself,
+ * so that the receiver does not answer challenges of unverified nodes.
  */
 @serializable
 export class Hello extends RequestMessage<Hello, HelloReply> {
     public readonly networkId: string | undefined;
+    // undefined if sent by a legacy node
+    public readonly capabilities?: Capabilities;
+    // true if the sender can prove its NodeID
+    public readonly hasIdentity: boolean;
 
     constructor(manager: Manager, public url?: string) {
         super(manager);
         this.networkId = manager.networkId;
+        this.capabilities = manager.getCapabilities();
+        this.hasIdentity = !!manager.getIdentity();
     }
 
     @override
@@ -28,6 +72,7 @@ export class Hello extends RequestMessage<Hello, HelloReply> {
         return {
             replyClassName: HelloReply.name,
             noAck: true,
+            priority: MessagePriority.CONTROL,
         };
     }
 
@@ -36,41 +81,75 @@ export class Hello extends RequestMessage<Hello, HelloReply> {
     }
 
     public onReceive(): void {
+        this.onReceiveAsync().catch((err) => {
+            this.manager.rawLogger.error("Hello.onReceiveAsync got %s", err);
+            this.rawConnection?.close();
+        });
+    }
+
+    private async onReceiveAsync(): Promise<void> {
         const manager = this.manager;
         const logger = manager.rawLogger;
-        const raw = this.rawConnection as WsConnection;
+        const raw = this.rawConnection as RawConnection;
         const nodeId = this.srcNodeId as string;
-        raw.setRemoteNodeId(nodeId);
         logger.debug("Hello.onReceive: %s", raw);
-        const clientIP = this.rawConnection?.getRemoteIPAddress();
-        const defer = this.manager.getHelloDefer(nodeId, false);
-        if (!manager.networkId || manager.networkId === this.networkId) {
-            if (defer) {
-                defer.resolve(raw);
+        const clientIP = raw.getRemoteIPAddress();
+        let error: string | undefined;
+        if (manager.networkId && manager.networkId !== this.networkId) {
+            error = "networkId mismatch";
+        } else if (
+            !this.hasIdentity &&
+            (manager.config.REQUIRE_NODE_AUTH ||
+                IdentityUtils.isKeyDerivedNodeId(nodeId))
+        ) {
+            error = "node authentication is required";
+        } else {
+            try {
+                raw.setRemoteCapabilities(this.capabilities);
+            } catch (err) {
+                if (!(err instanceof IncompatibleProtocolError)) {
+                    throw err;
+                }
+                logger.info("Hello.onReceive: %s", err.message);
+                error = "incompatible protocol version";
             }
-            if (this.url) {
-                manager.addPortalURL(this.url);
+        }
+        // we send replies directly through the RawConnection because it is
+        // not bound to the remote node until the remote node is verified.
+        if (!error) {
+            const challenge =
+                this.hasIdentity ||
+                !!manager.getIdentity() ||
+                AdmissionUtils.isRequired(manager.config)
+                    ? raw.createChallenge(nodeId)
+                    : undefined;
+            if (!challenge) {
+                helloEstablished(raw, nodeId, this.url);
             }
             const reply = new HelloReply(
                 this,
                 "ok",
                 manager.getNodeId(),
                 manager.getPortalURLs(),
-                clientIP
+                clientIP,
+                challenge,
+                // if challenged, delivered after the sender is admitted
+                challenge ? undefined : manager.createIceServerGrant(nodeId)
             );
-            this.sendReply(reply);
+            raw.send(reply);
         } else {
+            const defer = manager.getHelloDefer(nodeId, false);
             if (defer) {
-                defer.reject(new Error("networkID mismatch"));
+                defer.reject(new Error(error));
             }
             const reply = new HelloReply(
                 this,
-                "networkId mismatch",
+                error,
                 manager.getNodeId(),
                 [],
                 undefined
             );
-            this.sendReply(reply);
+            raw.send(reply);
             raw.close();
         }
     }
@@ -78,15 +157,206 @@ export class Hello extends RequestMessage<Hello, HelloReply> {
 
 @serializable
 export class HelloReply extends ReplyMessage<Hello, HelloReply> {
+    // undefined if sent by a legacy node
+    public readonly capabilities?: Capabilities;
+
+    /**
+     * @param req
+     * @param reply
+     * @param nodeId
+     * @param urls
+     * @param yourAddress
+     * @param challenge a nonce to be answered in HelloAuth
+     * @param iceServers TURN servers with credentials for the receiver
+     *                  (if challenge is not sent)
+     */
     constructor(
         req: Hello,
         public readonly reply: string,
         public readonly nodeId: string,
         public readonly urls: string[],
-        public readonly yourAddress: string | undefined
+        public readonly yourAddress: string | undefined,
+        public readonly challenge?: Uint8Array,
+        public readonly iceServers?: IceServerGrant
+    ) {
+        super(req);
+        this.capabilities = this.manager.getCapabilities();
+    }
+
+    public getSpec(): MessageSpec {
+        return {
+            noAck: true,
+            priority: MessagePriority.CONTROL,
+        };
+    }
+}
+
+/**
+ * A message to answer HelloReply.challenge.  Accepted only on a connection
+ * that has received Hello from the same node.
+ */
+@serializable
+export class HelloAuth extends RequestMessage<HelloAuth, HelloAuthReply> {
+    /**
+     * @param manager
+     * @param challenge a nonce to be answered in HelloAuthReply
+     * @param proof     undefined if the sender has no identity
+     * @param admission
+     * @param url
+     */
+    constructor(
+        manager: Manager,
+        public readonly challenge: Uint8Array,
+        public readonly proof: IdentityProof | undefined,
+        public readonly admission: AdmissionProof,
+        public readonly url?: string
+    ) {
+        super(manager);
+    }
+
+    @override
+    public getSpec(): RequestMessageSpec {
+        return {
+            replyClassName: HelloAuthReply.name,
+            noAck: true,
+            priority: MessagePriority.CONTROL,
+        };
+    }
+
+    public toString(): string {
+        return `<HelloAuth, srcNodeId=${this.srcNodeId}>`;
+    }
+
+    public onReceive(): void {
+        this.onReceiveAsync().catch((err) => {
+            this.manager.rawLogger.error(
+                "HelloAuth.onReceiveAsync got %s",
+                err
+            );
+            this.rawConnection?.close();
+        });
+    }
+
+    private async onReceiveAsync(): Promise<void> {
+        const manager = this.manager;
+        const raw = this.rawConnection as RawConnection;
+        const nodeId = this.srcNodeId as string;
+        // the challenge given in HelloReply to the same node
+        const nonce = raw.takeChallenge(nodeId);
+        try {
+            if (!nonce) {
+                throw new AuthenticationError(
+                    `no outstanding challenge: ${nodeId}`
+                );
+            }
+            await raw.verifyRemoteNodeId(
+                nodeId,
+                "initiator",
+                this.proof,
+                nonce
+            );
+        } catch (err) {
+            if (!(err instanceof AuthenticationError)) {
+                throw err;
+            }
+            manager.rawLogger.info("HelloAuth.onReceive: %s", err.message);
+            const defer = manager.getHelloDefer(nodeId, false);
+            if (defer) {
+                defer.reject(err);
+            }
+            raw.send(new HelloAuthReply(this, "authentication failed"));
+            raw.close();
+            return;
+        }
+        const rejectReason = await raw.verifyAdmission(
+            nodeId,
+            this.admission,
+            nonce
+        );
+        if (rejectReason) {
+            manager.rawLogger.info(
+                "HelloAuth.onReceive: %s is rejected: %s",
+                nodeId,
+                rejectReason
+            );
+            const defer = manager.getHelloDefer(nodeId, false);
+            if (defer) {
+                defer.reject(new RejectionError(rejectReason));
+            }
+            raw.send(new HelloAuthReply(this, rejectReason, true));
+            raw.close();
+            return;
+        }
+        // the sender is verified.  now prove ourselves.
+        const identity = manager.getIdentity();
+        const proof = identity
+            ? await identity.prove(this.challenge, nodeId, "responder")
+            : undefined;
+        const admission = manager.config.NETWORK_KEY
+            ? await AdmissionUtils.createProof(
+                  manager.config,
+                  this.challenge,
+                  manager.getNodeId(),
+                  nodeId,
+                  "responder"
+              )
+            : undefined;
+        helloEstablished(raw, nodeId, this.url);
+        this.sendReply(
+            new HelloAuthReply(
+                this,
+                "ok",
+                false,
+                manager.createIceServerGrant(nodeId),
+                proof,
+                admission
+            )
+        );
+    }
+}
+
+@serializable
+export class HelloAuthReply extends ReplyMessage<HelloAuth, HelloAuthReply> {
+    /**
+     * @param req
+     * @param reply    "ok" or an error message
+     * @param rejected true if the sender of HelloAuth is not admitted to the
+     *                 network.  reply is one of ManagerRejectReasons.
+     * @param iceServers TURN servers with credentials for the receiver
+     * @param proof    the answer to HelloAuth.challenge, if the sender has
+     *                 an identity
+     * @param admission the answer to HelloAuth.challenge, if the sender has
+     *                 NETWORK_KEY
+     */
+    constructor(
+        req: HelloAuth,
+        public readonly reply: string,
+        public readonly rejected = false,
+        public readonly iceServers?: IceServerGrant,
+        public readonly proof?: IdentityProof,
+        public readonly admission?: AdmissionProof
     ) {
         super(req);
     }
+
+    public getSpec(): MessageSpec {
+        return {
+            noAck: true,
+            priority: MessagePriority.CONTROL,
+        };
+    }
+}
+
+/**
+ * The part of an Engine.IO socket that is used for estimating the amount
+ * of buffered data.
+ */
+export interface EngineSocket {
+    writeBuffer?: { data?: unknown }[];
+    transport?: {
+        ws?: { bufferedAmount?: number };
+        socket?: { bufferedAmount?: number };
+    };
 }
 
 /**
@@ -127,7 +397,7 @@ export class WsConnection extends RawConnection {
             await raw.promise;
             return raw;
         }
-        const wsc = new WsConnection(manager, url);
+        const wsc = manager.createPortalConnection(url);
         await wsc.connect();
         return wsc;
     }
@@ -226,16 +496,14 @@ export class WsConnection extends RawConnection {
         return this.promise;
     }
 
-    private async handleConnect(): Promise<void> {
+    private handleConnect(): void {
         this.logger.newEvent("websocket established: " + this);
         // '/#' is required for socket.io 1.4.*
         this.localWsId = "/#" + this.socket!.id;
-        this.socket!.on("message", (_json: string) => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        this.socket!.on("message", (data: any) => {
             this.logger.newEvent("websocket: message");
-            const message: Message = JSON.parse(_json);
-            // this.logger.debug("got message: " + prettyPrint(message));
-            // this.logger.debug("raw: " + this);
-            super.receive(message);
+            this.receiveFrame(data);
         });
         this.socket!.on("disconnect", (reason: string) => {
             this.logger.newEvent("websocket: disconnect: reason=%s", reason);
@@ -243,37 +511,169 @@ export class WsConnection extends RawConnection {
                 this.disconnected();
             }
         });
+        this.startHandshake();
+    }
+
+    /**
+     * Start the handshake.  Called when the underlying transport is
+     * established.
+     */
+    protected startHandshake(): void {
+        this.handshake().catch((err) => {
+            this.logger.warn("WsConnection: handshake failed: %s", err);
+            this.connectFailed(err);
+        });
+    }
+
+    /**
+     * Send Hello and wait for HelloReply (and HelloAuthReply if necessary).
+     */
+    protected async handshake(): Promise<void> {
+        const manager = this.manager;
         let reply;
         try {
-            const hello = new Hello(
-                this.manager,
-                this.manager.getNodeSpec().serverUrl
-            );
+            const hello = new Hello(manager, manager.getNodeSpec().serverUrl);
             reply = await hello.request(this);
         } catch (err) {
             this.connectFailed(err);
             return;
         }
         this.myAddress = reply.yourAddress;
-        if (reply.reply === "ok") {
-            const nodeId = reply.nodeId;
-            if (!nodeId) {
-                throw new Error("should not happen");
-            }
-            this.setRemoteNodeId(nodeId);
-            reply.urls.forEach((url) => this.manager.addPortalURL(url));
-            this.connected();
-        } else {
+        if (reply.reply !== "ok") {
             this.connectFailed(new Error(reply.reply));
+            return;
+        }
+        const nodeId = reply.nodeId;
+        if (!nodeId) {
+            throw new Error("should not happen");
+        }
+        let iceServers = reply.iceServers;
+        try {
+            this.setRemoteCapabilities(reply.capabilities);
+            // the remote node proves itself in HelloAuthReply
+            const challenge = IdentityUtils.createNonce();
+            let proof: IdentityProof | undefined;
+            let admission: AdmissionProof | undefined;
+            if (reply.challenge) {
+                const identity = manager.getIdentity();
+                const auth = new HelloAuth(
+                    manager,
+                    challenge,
+                    identity
+                        ? await identity.prove(
+                              reply.challenge,
+                              nodeId,
+                              "initiator"
+                          )
+                        : undefined,
+                    await AdmissionUtils.createProof(
+                        manager.config,
+                        reply.challenge,
+                        manager.getNodeId(),
+                        nodeId,
+                        "initiator"
+                    ),
+                    manager.getNodeSpec().serverUrl
+                );
+                const authReply = await auth.request(this);
+                if (authReply.rejected) {
+                    throw new RejectionError(authReply.reply);
+                }
+                if (authReply.reply !== "ok") {
+                    throw new AuthenticationError(authReply.reply);
+                }
+                proof = authReply.proof;
+                admission = authReply.admission;
+                iceServers = authReply.iceServers;
+            }
+            await this.verifyRemoteNodeId(
+                nodeId,
+                "responder",
+                proof,
+                challenge
+            );
+            // a member of a private network does not join a network that
+            // does not know the network key
+            const key = manager.config.NETWORK_KEY;
+            if (
+                key &&
+                !(await AdmissionUtils.verifyMac(
+                    key,
+                    admission?.mac,
+                    challenge,
+                    nodeId,
+                    manager.getNodeId(),
+                    "responder"
+                ))
+            ) {
+                throw new RejectionError(
+                    ManagerRejectReasons.INVALID_NETWORK_KEY
+                );
+            }
+        } catch (err) {
+            this.connectFailed(err);
+            return;
         }
+        this.setRemoteNodeId(nodeId);
+        reply.urls.forEach((url) => manager.addPortalURL(url));
+        if (iceServers) {
+            manager.iceServers.setDelivered(iceServers, nodeId);
+        }
+        this.connected();
+    }
+
+    /**
+     * The server replies to Hello with a codec that this node advertised in
+     * Hello, before this node knows the capabilities of the server.
+     */
+    @override
+    protected acceptsCodec(name: string): boolean {
+        return !this.getRemoteCapabilities() || super.acceptsCodec(name);
+    }
+
+    @override
+    public getBufferedAmount(): number {
+        const io = this.socket?.io as { engine?: EngineSocket } | undefined;
+        return WsConnection.getEngineBufferedAmount(io?.engine);
+    }
+
+    /**
+     * Estimate the amount of data buffered in an Engine.IO socket, which is
+     * used by both client and server side of Socket.IO.
+     *
+     * @param engine engine.io or engine.io-client Socket
+     */
+    public static getEngineBufferedAmount(engine?: EngineSocket): number {
+        if (!engine) {
+            return 0;
+        }
+        let amount = 0;
+        for (const packet of engine.writeBuffer || []) {
+            const data = packet.data;
+            if (typeof data === "string") {
+                amount += data.length;
+            } else if (
+                data instanceof ArrayBuffer ||
+                ArrayBuffer.isView(data)
+            ) {
+                amount += data.byteLength;
+            }
+        }
+        // bytes buffered in the underlying WebSocket
+        // (engine.io-client uses "ws" and engine.io uses "socket")
+        const ws = engine.transport?.ws || engine.transport?.socket;
+        if (ws && typeof ws.bufferedAmount === "number") {
+            amount += ws.bufferedAmount;
+        }
+        return amount;
     }
 
     /**
-     * send a message over WebSocket connection
+     * send a frame over WebSocket connection
      *
-     * @param _data message
+     * @param frame encoded message
      */
-    protected _sendRaw(_data: object): void {
+    protected _sendRaw(frame: Frame): void {
         if (!this.socket) {
             throw new Error("_sendRaw() before connected");
         }
@@ -281,7 +681,114 @@ export class WsConnection extends RawConnection {
         // if (!this.isConnected()) {
         //     throw 'not connected ws server'
         // }
-        const json = JSON.stringify(_data);
-        this.socket.send(json);
+        this.socket.send(CodecUtils.toTransportable(frame));
+    }
+}
+
+/**
+ * Plain WebSocket client connection.
+ * Unlike WsConnection, each frame is sent as a WebSocket message without
+ * Socket.IO's framing, polling fallback and heartbeat.
+ */
+export class NativeWsConnection extends WsConnection {
+    // the path of the WebSocket endpoint of portal nodes
+    public static readonly PATH = "/web-overlay";
+    private ws?: WebSocket;
+
+    /**
+     * convert a portal URL (http://host:port) into its WebSocket endpoint.
+     */
+    public static toWebSocketUrl(url: string): string {
+        return (
+            url.replace(/^http/, "ws").replace(/\/$/, "") +
+            NativeWsConnection.PATH
+        );
+    }
+
+    public toString(): string {
+        return [
+            `WebSocket(Client)[id=${this.id}`,
+            `remNodeId=${quote(this.getRemoteNodeId())}`,
+            `url=${quote(this.url)}`,
+            `${["DISCONNECTED", "CONNECTED"][+this.isConnected()]}`,
+            `graceClose=${this.isGracefullyClosed}`,
+            `myAddr=${this.myAddress}`,
+            `${this.formatIdleTime()}]`,
+        ].join(", ");
+    }
+
+    /**
+     * Establish a WebSocket connection to the specified portal node.
+     * When established, send Hello and wait for HelloReply.
+     *
+     * @return a promise that is completed when this connection is established
+     */
+    @override
+    public connect(): Promise<RawConnection> {
+        const url = NativeWsConnection.toWebSocketUrl(this.url);
+        this.logger.debug(`NativeWsConnection.connect: url=${url}`);
+        const impl =
+            this.manager.config.WEBSOCKET_IMPL ||
+            (typeof WebSocket !== "undefined" ? WebSocket : undefined);
+        if (!impl) {
+            this.connectFailed(new Error("WebSocket is not supported"));
+            return this.promise;
+        }
+        let ws: WebSocket;
+        try {
+            ws = new impl(url);
+        } catch (err) {
+            this.connectFailed(err);
+            return this.promise;
+        }
+        this.ws = ws;
+        ws.binaryType = "arraybuffer";
+        this.cleaner.push(() => {
+            this.logger.debug("websocket: close!");
+            ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+            ws.close();
+        });
+        this.cleaner.startTimer(
+            this.manager,
+            RawConnection.CONNECT_TIMER_NAME,
+            this.manager.config.REPLY_TIMEOUT,
+            () =>
+                this.connectFailed(
+                    new TimeoutError("WebSocket: connect timeout: " + url)
+                )
+        );
+        ws.onopen = (): void => {
+            this.logger.newEvent("websocket established: " + this);
+            this.startHandshake();
+        };
+        ws.onmessage = (ev: MessageEvent): void => {
+            this.logger.newEvent("websocket: message");
+            this.receiveFrame(ev.data);
+        };
+        ws.onerror = (): void => {
+            this.logger.debug("websocket: error");
+            if (!this.isConnected()) {
+                this.connectFailed(
+                    new Error("WebSocket: connect error: " + url)
+                );
+            }
+        };
+        ws.onclose = (ev: CloseEvent): void => {
+            this.logger.newEvent("websocket: close: code=%d", ev.code);
+            this.disconnected();
+        };
+        return this.promise;
+    }
+
+    @override
+    public getBufferedAmount(): number {
+        return this.ws?.bufferedAmount || 0;
+    }
+
+    protected _sendRaw(frame: Frame): void {
+        if (!this.ws) {
+            throw new Error("_sendRaw() before connected");
+        }
+        this.ws.send(frame);
     }
 }
@@ -0,0 +1,171 @@
+import { Manager, ManagerRejectReasons } from "./manager";
+import { Message } from "./messages";
+
+/*
+ * Relay budget of a node.
+ *
+ * Every node on a relay path forwards messages of PeerConnections between
+ * other nodes.  To prevent a node (e.g., a browser on a phone) from
+ * becoming a hot relay, the following limits can be configured
+ * (0 means unlimited):
+ * - RELAY_MAX_PATHS: the number of relay paths that go through this node
+ * - RELAY_MAX_BYTES_PER_SEC: the amount of relayed traffic (bytes/sec)
+ * - RELAY_MAX_MESSAGES_PER_SEC: the number of relayed messages/sec
+ * A node can also refuse to relay at all by setting ACT_AS_RELAY to false,
+ * which leaves relaying to the other nodes (e.g., portal nodes).
+ *
+ * The limits are enforced when a relay path is established: a node that is
+ * over budget answers ProbePath negatively instead of forwarding it, so that
+ * the source node selects other relay nodes.  Messages along already
+ * established relay paths are not dropped.
+ */
+
+export class RelayBudget {
+    // the length of the window for measuring the traffic (msec)
+    public static readonly RATE_WINDOW = 1000;
+    // relayed paths: "nodeId1,nodeId2" -> the time of the last message
+    private readonly paths = new Map<string, number>();
+    // the traffic in the current window and the previous window
+    private windowStart = 0;
+    private current = { bytes: 0, messages: 0 };
+    private previous = { bytes: 0, messages: 0 };
+    // relay nodes that refused our ProbePath: nodeId -> expiration time
+    private readonly refusingNodes = new Map<string, number>();
+
+    constructor(private readonly manager: Manager) {}
+
+    private static key(v: string, w: string): string {
+        return v < w ? `${v},${w}` : `${w},${v}`;
+    }
+
+    /**
+     * relay paths that have not been used for this period are not counted.
+     * relay paths are kept alive by GetNeighbors, which is sent every
+     * RELAY_PATH_MAINTENANCE_PERIOD.
+     */
+    private getPathIdleTime(): number {
+        return this.manager.config.RELAY_PATH_MAINTENANCE_PERIOD * 2;
+    }
+
+    private rotateWindow(): void {
+        const now = this.manager.clock.now();
+        const elapsed = now - this.windowStart;
+        if (elapsed < RelayBudget.RATE_WINDOW) {
+            return;
+        }
+        this.previous =
+            elapsed < RelayBudget.RATE_WINDOW * 2
+                ? this.current
+                : { bytes: 0, messages: 0 };
+        this.current = { bytes: 0, messages: 0 };
+        this.windowStart = now - (elapsed % RelayBudget.RATE_WINDOW);
+    }
+
+    /**
+     * account a message that this node forwards for other nodes.
+     *
+     * @param msg
+     * @param size  the size of the encoded message (bytes)
+     */
+    public countRelayedMessage(msg: Message, size: number): void {
+        this.rotateWindow();
+        this.current.bytes += size;
+        this.current.messages++;
+        const src = msg.srcNodeId;
+        const dst = msg.destNodeId;
+        if (src && dst && msg.destination?.connId !== undefined) {
+            this.paths.set(RelayBudget.key(src, dst), this.manager.clock.now());
+        }
+        this.manager.metrics.relayedMessages.inc();
+        this.manager.metrics.relayedBytes.inc({}, size);
+    }
+
+    /**
+     * get the number of relay paths that go through this node.
+     */
+    public getRelayedPathCount(): number {
+        const limit = this.manager.clock.now() - this.getPathIdleTime();
+        for (const [key, lastUsed] of [...this.paths]) {
+            if (lastUsed < limit) {
+                this.paths.delete(key);
+            }
+        }
+        return this.paths.size;
+    }
+
+    /**
+     * get the relayed traffic per second.
+     */
+    public getRate(): { bytes: number; messages: number } {
+        this.rotateWindow();
+        // use the larger one so that a burst in the current window counts
+        return {
+            bytes: Math.max(this.previous.bytes, this.current.bytes),
+            messages: Math.max(this.previous.messages, this.current.messages),
+        };
+    }
+
+    /**
+     * check if this node can relay a new path between the specified nodes.
+     *
+     * @return undefined if acceptable, or the reason of the rejection
+     *  (one of {@link ManagerRejectReasons}).
+     */
+    public checkNewPath(src: string, dst: string): string | undefined {
+        const config = this.manager.config;
+        if (!config.ACT_AS_RELAY) {
+            return ManagerRejectReasons.RELAY_IS_OFF;
+        }
+        const isKnown = this.paths.has(RelayBudget.key(src, dst));
+        if (
+            !isKnown &&
+            config.RELAY_MAX_PATHS > 0 &&
+            this.getRelayedPathCount() >= config.RELAY_MAX_PATHS
+        ) {
+            return ManagerRejectReasons.RELAY_OVER_BUDGET;
+        }
+        const rate = this.getRate();
+        if (
+            (config.RELAY_MAX_BYTES_PER_SEC > 0 &&
+                rate.bytes >= config.RELAY_MAX_BYTES_PER_SEC) ||
+            (config.RELAY_MAX_MESSAGES_PER_SEC > 0 &&
+                rate.messages >= config.RELAY_MAX_MESSAGES_PER_SEC)
+        ) {
+            return ManagerRejectReasons.RELAY_OVER_BUDGET;
+        }
+        return undefined;
+    }
+
+    /**
+     * register a node that refused to relay our ProbePath.  The node is
+     * not used as a relay node until the next relay path maintenance.
+     */
+    public _registerRefusingNode(nodeId: string): void {
+        this.refusingNodes.set(
+            nodeId,
+            this.manager.clock.now() +
+                this.manager.config.RELAY_PATH_MAINTENANCE_PERIOD
+        );
+    }
+
+    public isRefusingNode(nodeId: string): boolean {
+        const expire = this.refusingNodes.get(nodeId);
+        if (expire === undefined) {
+            return false;
+        }
+        if (expire < this.manager.clock.now()) {
+            this.refusingNodes.delete(nodeId);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * check if a path contains a node that refused to relay.
+     *
+     * @param relays  the relay nodes in a path (excluding both ends)
+     */
+    public containsRefusingNode(relays: string[]): boolean {
+        return relays.some((nodeId) => this.isRefusingNode(nodeId));
+    }
+}
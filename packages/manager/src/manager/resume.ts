@@ -0,0 +1,116 @@
+import { Manager } from "./manager";
+import {
+    MessagePriority,
+    MessageSpec,
+    ReplyMessage,
+    RequestMessage,
+    RequestMessageSpec,
+} from "./messages";
+import { PeerConnection } from "./peerconnection";
+import { serializable } from "./serialize";
+import { override } from "core-decorators";
+import { Path } from "./path";
+import { AdmissionUtils } from "./admission";
+
+/*
+ * PeerConnection session resumption.
+ *
+ * If RESUME_TIMEOUT is positive, a PeerConnection that loses all of its
+ * paths (e.g., the bound RawConnection is closed) is not destroyed
+ * immediately.  Instead, it enters the RESUMING state:
+ * - messages sent by the application are buffered.
+ * - messages that were sent through the lost RawConnection but not
+ *   acknowledged are taken back and sent again after resumption.  The
+ *   remote node drops duplicates by the message ID.
+ * - both ends periodically try to reach each other through any available
+ *   path (an existing RawConnection, a WebSocket connection to the remote
+ *   portal node, or a path via other nodes) and send ResumeRequest, which
+ *   carries the localConnId/remoteConnId pairing and the resumption secret.
+ *   The secret is a random value that the accepting node sends in
+ *   ConnectionReply, so that a node that only knows the (sequential)
+ *   connection IDs cannot take over a PeerConnection.
+ * On ResumeRequest/ResumeReply, both ends use the path and flush the
+ * buffered messages.  If not resumed within RESUME_TIMEOUT, the
+ * PeerConnection is destroyed and the application sees a disconnection.
+ */
+
+/**
+ * A request to resume a PeerConnection, sent along a new path.
+ */
+@serializable
+export class ResumeRequest extends RequestMessage<ResumeRequest, ResumeReply> {
+    public readonly targetPeerConnectionId: number;
+    public readonly senderPeerConnectionId: number;
+    // PeerConnection.resumeSecret
+    public readonly secret: Uint8Array;
+
+    constructor(manager: Manager, pc: PeerConnection) {
+        super(manager);
+        if (pc.remoteConnId === undefined) {
+            throw new Error("should not happen");
+        }
+        this.targetPeerConnectionId = pc.remoteConnId;
+        this.senderPeerConnectionId = pc.localConnId;
+        this.secret = pc.resumeSecret;
+    }
+
+    @override
+    public getSpec(): RequestMessageSpec {
+        return {
+            replyClassName: ResumeReply.name,
+            priority: MessagePriority.CONTROL,
+        };
+    }
+
+    public toString(): string {
+        return `<ResumeRequest srcNodeId=${this.srcNodeId}, target=${this.targetPeerConnectionId}>`;
+    }
+
+    public onReceive(): void {
+        const manager = this.manager;
+        const pc = manager.getPeerConnection(this.targetPeerConnectionId);
+        if (
+            !pc ||
+            !pc.isConnected() ||
+            pc.getRemoteNodeId() !== this.srcNodeId ||
+            pc.remoteConnId !== this.senderPeerConnectionId ||
+            !(this.secret instanceof Uint8Array) ||
+            !AdmissionUtils.equals(pc.resumeSecret, this.secret)
+        ) {
+            manager.mgrLogger.debug(
+                "ResumeRequest.onReceive: no PeerConnection: %s",
+                this
+            );
+            this.sendReply(new ResumeReply(this, false));
+            return;
+        }
+        if (!this.source) {
+            throw new Error("no this.source");
+        }
+        if (pc.isResuming()) {
+            pc.resumed(
+                new Path(this.source.optimize().asArray(), pc.remoteConnId)
+            );
+        }
+        this.sendReply(new ResumeReply(this, true));
+    }
+}
+
+@serializable
+export class ResumeReply extends ReplyMessage<ResumeRequest, ResumeReply> {
+    /**
+     * @param req
+     * @param ok  false if the PeerConnection is not found (or the secret
+     *            does not match)
+     */
+    constructor(req: ResumeRequest, public readonly ok: boolean) {
+        super(req);
+    }
+
+    public getSpec(): MessageSpec {
+        return {
+            noAck: true,
+            priority: MessagePriority.CONTROL,
+        };
+    }
+}
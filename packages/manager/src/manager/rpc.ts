@@ -0,0 +1,220 @@
+import { Manager } from "./manager";
+import {
+    Message,
+    ReplyMessage,
+    RequestMessage,
+    RequestMessageSpec,
+} from "./messages";
+import { serializable } from "./serialize";
+import { override } from "core-decorators";
+import { RemoteError } from "../utils";
+import { JsonCodec } from "./codec";
+
+/*
+ * Typed RPC services.
+ *
+ * An application registers an object as a named service:
+ *
+ *   manager.registerService(key, "echo", new EchoService());
+ *
+ * and a remote node calls its async methods through a typed client proxy:
+ *
+ *   const echo = pc.createRpcClient<EchoService>("echo");
+ *   const reply = await echo.echo("hello");   // Promise<string>
+ *
+ * Like registerApp(), a service is registered with a key and looked up by
+ * the local key of the receiving PeerConnection or DDLL node.  A call is
+ * sent as RpcRequest and its result comes back in RpcReply.  Arguments and
+ * results must be serializable (JSON values or @serializable objects).
+ * If the method throws (or the service or the method is not found), the
+ * error is sent as RemoteError and the client's promise is rejected with
+ * an Error that has the same message.
+ *
+ * The proxy is transport agnostic (see RpcUtils.createProxy).  The kirin
+ * package provides clients over DDLL unicastRequest and multicast.
+ */
+
+/**
+ * the keys of the methods of S.
+ */
+export type RpcMethodNames<S> = {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    [K in keyof S]: S[K] extends (...args: any[]) => any ? K : never;
+}[keyof S];
+
+export type RpcUnpromise<T> = T extends Promise<infer U> ? U : T;
+
+/**
+ * the type of a client proxy of service S.  each method returns a promise
+ * of the result of the remote method.
+ */
+export type RpcClient<S> = {
+    [K in RpcMethodNames<S>]: S[K] extends (...args: infer A) => infer R
+        ? (...args: A) => Promise<RpcUnpromise<R>>
+        : never;
+};
+
+/**
+ * a function that sends a call to a remote service and returns the result.
+ */
+export type RpcCaller = (method: string, args: unknown[]) => Promise<unknown>;
+
+// RemoteError is decorated with @serializable in utils/error.ts, but
+// error.ts imports serializable through the circular import of "../manager",
+// which is still being loaded at that time.  serializable is undefined when
+// the class is decorated and __decorate() silently skips it, so RemoteError
+// is registered here.
+serializable(RemoteError);
+
+export abstract class RpcUtils {
+    /**
+     * the property name used for registerApp().
+     */
+    public static getPropName(service: string): string {
+        return "rpc:" + service;
+    }
+
+    /**
+     * create a client proxy of a service.  calling a method of the proxy
+     * calls `caller` with the method name and the arguments.
+     *
+     * @param caller
+     * @return the proxy (C is usually RpcClient<S>)
+     */
+    public static createProxy<C>(caller: RpcCaller): C {
+        const proxy = new Proxy(
+            {},
+            {
+                get: (target: unknown, prop: PropertyKey): unknown => {
+                    if (typeof prop !== "string" || prop === "then") {
+                        // not to be treated as a thenable
+                        return undefined;
+                    }
+                    return (...args: unknown[]): Promise<unknown> =>
+                        caller(prop, args);
+                },
+            }
+        );
+        return (proxy as unknown) as C;
+    }
+
+    /**
+     * call a method of the service that is registered for the key of the
+     * received message.
+     *
+     * @param msg     the received message
+     * @param service
+     * @param method
+     * @param args
+     * @return the result of the method
+     */
+    public static async invoke(
+        msg: Message,
+        service: string,
+        method: string,
+        args: unknown[]
+    ): Promise<unknown> {
+        // set by Manager.setAutomaticProps()
+        const impl = ((msg as unknown) as Record<string, unknown>)[
+            RpcUtils.getPropName(service)
+        ] as Record<string, unknown> | undefined;
+        if (!impl) {
+            throw new Error(`no such service: ${service}`);
+        }
+        const func = impl[method];
+        if (
+            typeof func !== "function" ||
+            method === "constructor" ||
+            method.startsWith("_") ||
+            method in Object.prototype
+        ) {
+            throw new Error(`no such method: ${service}.${method}`);
+        }
+        return func.apply(impl, args);
+    }
+
+    /**
+     * throw an error if the result of a method cannot be sent (e.g., it has
+     * a circular reference).  Otherwise, the reply would be dropped when it
+     * is encoded and the caller would wait until timeout.
+     *
+     * @param value
+     */
+    public static checkSerializable(value: unknown): void {
+        new JsonCodec().encode(value);
+    }
+
+    /**
+     * convert an error thrown by a service to RemoteError.
+     */
+    public static toRemoteError(err: unknown): RemoteError {
+        return new RemoteError(err instanceof Error ? err.message : `${err}`);
+    }
+}
+
+@serializable
+export class RpcRequest extends RequestMessage<RpcRequest, RpcReply> {
+    constructor(
+        manager: Manager,
+        public readonly service: string,
+        public readonly method: string,
+        public readonly args: unknown[]
+    ) {
+        super(manager);
+    }
+
+    @override
+    public getSpec(): RequestMessageSpec {
+        return { replyClassName: RpcReply.name };
+    }
+
+    public toString(): string {
+        return `<RpcRequest msgId=${this.msgId}, ${this.service}.${this.method}>`;
+    }
+
+    public onReceive(): void {
+        RpcUtils.invoke(this, this.service, this.method, this.args)
+            .then((value) => {
+                RpcUtils.checkSerializable(value);
+                this.sendReply(new RpcReply(this, value));
+            })
+            .catch((err) => {
+                // the method failed or the result cannot be sent
+                try {
+                    this.sendReply(
+                        new RpcReply(
+                            this,
+                            undefined,
+                            RpcUtils.toRemoteError(err)
+                        )
+                    );
+                } catch (err2) {
+                    this.manager.mgrLogger.info(
+                        "RpcRequest: cannot send a reply: %s",
+                        err2
+                    );
+                }
+            });
+    }
+}
+
+@serializable
+export class RpcReply extends ReplyMessage<RpcRequest, RpcReply> {
+    constructor(
+        req: RpcRequest,
+        public readonly value?: unknown,
+        public readonly error?: RemoteError
+    ) {
+        super(req);
+    }
+
+    /**
+     * get the result of the call, or throw the error.
+     */
+    public getResult(): unknown {
+        if (this.error) {
+            throw this.error.error();
+        }
+        return this.value;
+    }
+}
@@ -0,0 +1,178 @@
+import * as GraphLib from "graphlib";
+import { Manager } from "./manager";
+import { GraphUtils } from "../utils";
+
+/*
+ * Link RTT estimation for relay path selection.
+ *
+ * RTTs of links between this node and its neighbors are measured with Ack
+ * messages.  RTTs of remote links are learned from ProbePathReply, which
+ * carries the RTTs measured by the replying node, and from the round trip
+ * time of ProbePath and GetNeighbors along relay paths.
+ *
+ * The weight of a link is PATH_HOP_COST + RTT (msec), where links with
+ * unknown RTT are assumed to have DEFAULT_LINK_RTT.  Thus, when no RTT is
+ * known, paths are compared by the number of hops as before.
+ */
+
+/**
+ * An RTT of a link [nodeId1, nodeId2] in msec (links are undirected).
+ */
+export type LinkRtt = [string, string, number];
+
+interface RttEntry {
+    v: string;
+    w: string;
+    // smoothed RTT
+    rtt: number;
+    // true if measured with Ack (not estimated from a path RTT)
+    direct: boolean;
+    updated: number;
+}
+
+export class LinkRttTable {
+    // weight of a new sample (as TCP's SRTT)
+    public static readonly ALPHA = 0.125;
+    private readonly entries = new Map<string, RttEntry>();
+
+    constructor(private readonly manager: Manager) {}
+
+    private static key(v: string, w: string): string {
+        return JSON.stringify(v < w ? [v, w] : [w, v]);
+    }
+
+    private getEntry(v: string, w: string): RttEntry | undefined {
+        const key = LinkRttTable.key(v, w);
+        const ent = this.entries.get(key);
+        if (
+            ent &&
+            ent.updated + this.manager.config.LINK_RTT_EXPIRATION_TIME <
+                this.manager.clock.now()
+        ) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return ent;
+    }
+
+    /**
+     * add an RTT sample of a link.
+     *
+     * @param v
+     * @param w
+     * @param rtt    msec
+     * @param direct true if the sample is measured, false if it is estimated
+     */
+    public update(v: string, w: string, rtt: number, direct = true): void {
+        if (v === w || !(rtt >= 0)) {
+            return;
+        }
+        const now = this.manager.clock.now();
+        const ent = this.getEntry(v, w);
+        if (!ent || (direct && !ent.direct)) {
+            this.entries.set(LinkRttTable.key(v, w), {
+                v: v,
+                w: w,
+                rtt: rtt,
+                direct: direct,
+                updated: now,
+            });
+            return;
+        }
+        if (!direct && ent.direct) {
+            // measured values take precedence over estimated ones
+            return;
+        }
+        ent.rtt += LinkRttTable.ALPHA * (rtt - ent.rtt);
+        ent.updated = now;
+    }
+
+    /**
+     * add an RTT sample of a path.  The RTT not explained by the links with
+     * known RTTs is divided equally among the other links.
+     *
+     * @param path  node IDs from the source to the destination
+     * @param rtt   the round trip time along the path (msec)
+     */
+    public updatePath(path: string[], rtt: number): void {
+        let known = 0;
+        const unknowns: [string, string][] = [];
+        for (let i = 0; i < path.length - 1; i++) {
+            const ent = this.getEntry(path[i], path[i + 1]);
+            if (ent?.direct) {
+                known += ent.rtt;
+            } else {
+                unknowns.push([path[i], path[i + 1]]);
+            }
+        }
+        if (unknowns.length === 0) {
+            return;
+        }
+        const each = Math.max(0, rtt - known) / unknowns.length;
+        unknowns.forEach(([v, w]) => this.update(v, w, each, false));
+    }
+
+    /**
+     * add the RTTs measured by another node (sent in ProbePathReply).
+     * They are regarded as estimated values, and only the links of the
+     * reporter are accepted.
+     *
+     * @param reporter the NodeID of the node that has sent the RTTs
+     * @param rtts
+     */
+    public addReportedRtts(reporter: string, rtts: LinkRtt[]): void {
+        for (const [v, w, rtt] of rtts) {
+            if (v === reporter || w === reporter) {
+                this.update(v, w, rtt, false);
+            }
+        }
+    }
+
+    /**
+     * get the RTT of a link.
+     *
+     * @return msec, or undefined if unknown.
+     */
+    public get(v: string, w: string): number | undefined {
+        return this.getEntry(v, w)?.rtt;
+    }
+
+    /**
+     * get the RTTs of the links between this node and its neighbors that
+     * are measured by this node (sent in ProbePathReply).
+     */
+    public getMeasuredRtts(): LinkRtt[] {
+        const me = this.manager.getNodeId();
+        const result: LinkRtt[] = [];
+        for (const { v, w } of [...this.entries.values()]) {
+            const ent = this.getEntry(v, w);
+            if (ent?.direct && (v === me || w === me)) {
+                result.push([v, w, ent.rtt]);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * the weight of a link used for path selection.
+     */
+    public getWeight(v: string, w: string): number {
+        const config = this.manager.config;
+        const rtt = this.get(v, w);
+        return (
+            config.PATH_HOP_COST +
+            (rtt === undefined ? config.DEFAULT_LINK_RTT : rtt)
+        );
+    }
+
+    public getWeightFunction(): (e: GraphLib.Edge) => number {
+        return (e: GraphLib.Edge): number => this.getWeight(e.v, e.w);
+    }
+
+    /**
+     * the sum of the weights of links in a path (smaller is better).
+     */
+    public getPathWeight(path: string[]): number {
+        return GraphUtils.weight(path, this.getWeightFunction());
+    }
+}
@@ -1,6 +1,8 @@
 import { AnyClass, CustomError } from "../utils";
 
 const serializableClassMap = new Map<string, AnyClass>();
+// the sorted names of the registered classes (cache)
+let classTable: { names: string[]; digest: string } | undefined;
 
 /**
  * [@serializable] decorator.
@@ -26,6 +28,7 @@ export function serializable<T extends AnyClass>(clazz: T): T {
         return obj;
     };
     serializableClassMap.set(name, clazz);
+    classTable = undefined;
     return clazz;
 }
 
@@ -74,6 +77,34 @@ export abstract class SerializeUtils {
         return serializableClassMap.get(name);
     }
 
+    /**
+     * get the sorted names of the @serializable classes.  Nodes that have
+     * registered the same classes have the same table (see MsgpackCodec).
+     */
+    public static getClassTable(): string[] {
+        return SerializeUtils.getClassTableEntry().names;
+    }
+
+    /**
+     * get a digest of getClassTable() (FNV-1a, 32 bits).
+     */
+    public static getClassTableDigest(): string {
+        return SerializeUtils.getClassTableEntry().digest;
+    }
+
+    private static getClassTableEntry(): { names: string[]; digest: string } {
+        if (!classTable) {
+            const names = [...serializableClassMap.keys()].sort();
+            let h = 0x811c9dc5;
+            for (const c of names.join("\n")) {
+                h ^= c.charCodeAt(0);
+                h = Math.imul(h, 0x01000193) >>> 0;
+            }
+            classTable = { names: names, digest: h.toString(16) };
+        }
+        return classTable;
+    }
+
     /**
      * Recursively assign a prototype to object `obj', which is usually read from JSON.
      * If obj has $CLASSNAME_FIELD property, pickup a class from the field and
@@ -104,7 +135,8 @@ export abstract class SerializeUtils {
         Object.keys(obj).forEach((prop) => {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const v = (obj as any)[prop];
-            if (typeof v === "object" && v) {
+            // skip binary data such as Uint8Array
+            if (typeof v === "object" && v && !ArrayBuffer.isView(v)) {
                 if (Array.isArray(v)) {
                     v.forEach((elem) => {
                         if (typeof elem === "object" && elem) {
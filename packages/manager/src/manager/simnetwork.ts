@@ -0,0 +1,202 @@
+import { override } from "core-decorators";
+import { Manager, NodeSpec } from "./manager";
+import { ManagerConfig } from "./config";
+import { WsConnection } from "./raw/websocket";
+import { SimulatedConnection } from "./raw/simulated";
+import { Clock, RealClock } from "./clock";
+
+/*
+ * In-memory network simulator for testing.
+ *
+ * Nodes created by SimNetwork.createManager() connect each other through
+ * SimulatedConnection instead of Socket.IO or WebSocket, so that a large
+ * number of nodes can run in a single process without opening ports.
+ * Nodes created with a URL act as portal nodes.  Other nodes have no
+ * WebRTC support and communicate with each other via relay paths.
+ * Combined with a VirtualClock, the network runs as a discrete-event
+ * simulation.
+ */
+
+/**
+ * Properties of a (one-way) link between two nodes.
+ */
+export interface LinkSpec {
+    // latency in msec.  specify a function to give a distribution.
+    latency: number | (() => number);
+    // probability that a frame is lost (0 to 1)
+    loss: number;
+    // bytes per second (undefined means unlimited)
+    bandwidth?: number;
+}
+
+/**
+ * A function that returns false if a node cannot initiate a connection to
+ * a portal node (e.g., blocked by a firewall or a NAT).
+ */
+export type ReachabilityRule = (
+    fromNodeId: string,
+    toNodeId: string
+) => boolean;
+
+export class SimNetwork {
+    private readonly portals = new Map<string /* URL */, Manager>();
+    private readonly managers = new Set<Manager>();
+    private defaultLink: LinkSpec = { latency: 0, loss: 0 };
+    private readonly links = new Map<string /* from,to */, LinkSpec>();
+    private reachabilityRule: ReachabilityRule = (): boolean => true;
+    // random number generator for frame loss, replaceable for reproducible
+    // tests (see SimNetwork.seededRandom())
+    public random: () => number = Math.random;
+
+    /**
+     * @param clock the time source of the network and the managers on it
+     */
+    constructor(public readonly clock: Clock = RealClock.INSTANCE) {}
+
+    /**
+     * create a deterministic random number generator (mulberry32).
+     *
+     * @param seed
+     * @return a function that returns numbers in [0, 1) like Math.random()
+     */
+    public static seededRandom(seed: number): () => number {
+        let state = seed >>> 0;
+        return (): number => {
+            state = (state + 0x6d2b79f5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+
+    /**
+     * Create a Manager on this network.
+     *
+     * @param conf
+     * @param url  if specified, the node acts as a portal node with the URL
+     *             (e.g., "sim://P0").
+     */
+    public createManager(conf?: ManagerConfig, url?: string): Manager {
+        return new SimManager(this, { CLOCK: this.clock, ...conf }, url);
+    }
+
+    /**
+     * destroy all the managers created by this network.
+     */
+    public destroy(): void {
+        for (const manager of [...this.managers]) {
+            manager.destroy();
+        }
+    }
+
+    public getManagers(): Manager[] {
+        return [...this.managers];
+    }
+
+    public getPortal(url: string): Manager | undefined {
+        return this.portals.get(url);
+    }
+
+    /**
+     * set the properties of links that are not specified by setLink().
+     */
+    public setDefaultLink(spec: Partial<LinkSpec>): void {
+        this.defaultLink = { ...this.defaultLink, ...spec };
+    }
+
+    /**
+     * set the properties of the link between two nodes.
+     *
+     * @param fromNodeId
+     * @param toNodeId
+     * @param spec
+     * @param symmetric if true, the reverse link is also set
+     */
+    public setLink(
+        fromNodeId: string,
+        toNodeId: string,
+        spec: Partial<LinkSpec>,
+        symmetric = true
+    ): void {
+        const set = (from: string, to: string): void => {
+            const key = `${from},${to}`;
+            const link = this.links.get(key) || this.defaultLink;
+            this.links.set(key, { ...link, ...spec });
+        };
+        set(fromNodeId, toNodeId);
+        if (symmetric) {
+            set(toNodeId, fromNodeId);
+        }
+    }
+
+    public getLink(fromNodeId: string, toNodeId: string): LinkSpec {
+        return this.links.get(`${fromNodeId},${toNodeId}`) || this.defaultLink;
+    }
+
+    public setReachabilityRule(rule: ReachabilityRule): void {
+        this.reachabilityRule = rule;
+    }
+
+    public isReachable(fromNodeId: string, toNodeId: string): boolean {
+        return this.reachabilityRule(fromNodeId, toNodeId);
+    }
+
+    public static sampleLatency(link: LinkSpec): number {
+        const latency =
+            typeof link.latency === "number" ? link.latency : link.latency();
+        return Math.max(0, latency);
+    }
+
+    /**
+     * run a job after the specified time.
+     * unlike Cleaner.startTimer(), the job runs even if the delay is 0.
+     */
+    public schedule(delay: number, job: () => void): void {
+        this.clock.setTimeout(job, Math.max(0, delay));
+    }
+
+    // called by SimManager
+    public _register(manager: Manager, url?: string): void {
+        if (url) {
+            if (this.portals.has(url)) {
+                throw new Error(`${url} is already used`);
+            }
+            this.portals.set(url, manager);
+        }
+        this.managers.add(manager);
+        manager.cleaner.push(() => {
+            if (url) {
+                this.portals.delete(url);
+            }
+            this.managers.delete(manager);
+        });
+    }
+}
+
+/**
+ * A Manager running on a SimNetwork.
+ */
+export class SimManager extends Manager {
+    constructor(
+        public readonly network: SimNetwork,
+        conf?: ManagerConfig,
+        private readonly url?: string
+    ) {
+        super(conf);
+        network._register(this, url);
+    }
+
+    @override
+    public getNodeSpec(): NodeSpec {
+        return {
+            webrtc: false,
+            serverUrl: this.url,
+        };
+    }
+
+    @override
+    public createPortalConnection(url: string): WsConnection {
+        return new SimulatedConnection(this.network, this, url);
+    }
+}
@@ -0,0 +1,277 @@
+import { defaultConfig, ManagerConfig } from "./config";
+import { ExportedIdentity, NodeIdentity } from "./identity";
+import { PortalCacheInfo } from "./manager";
+import { Logger } from "./logger";
+import { Deferred } from "../utils";
+
+/*
+ * Persistent storage of Manager state.
+ *
+ * When LocalConfig.STORAGE is specified, Manager saves the following state
+ * to the storage and restores it when it is created again (e.g., after a
+ * browser reload):
+ * - the node identity (and thus the NodeID)
+ * - the portal cache including the connection failure history
+ * - the suspicious and indirect node lists with their expiration times
+ *
+ * Because loading is asynchronous, a Manager with storage is created as:
+ *   const conf = await StorageUtils.prepareConfig({
+ *       STORAGE: new WebStorageAdapter(),
+ *   });
+ *   const manager = new Manager(conf);
+ *
+ * The node identity is stored as an exported (PKCS#8) private key, unless
+ * the storage can hold the key pair itself (see StorageAdapter.setIdentity).
+ * IndexedDBStorage stores a non-extractable CryptoKey, which cannot be read
+ * out of the browser.
+ */
+
+// used before a Manager is created
+const logger = new Logger("", "web:storage", "");
+
+/**
+ * A key-value store that Manager uses to persist its state.
+ */
+export interface StorageAdapter {
+    get(key: string): Promise<string | undefined>;
+    set(key: string, value: string): Promise<void>;
+    remove(key: string): Promise<void>;
+    // optional: store the node identity without exporting the private key
+    getIdentity?(key: string): Promise<NodeIdentity | undefined>;
+    setIdentity?(key: string, identity: NodeIdentity): Promise<void>;
+}
+
+/**
+ * The state of a Manager saved in a StorageAdapter.
+ * Times are based on Manager.clock.now().
+ */
+export interface PersistedState {
+    version: number;
+    identity?: ExportedIdentity;
+    portalCache: [string /* URL */, PortalCacheInfo][];
+    suspiciousNodes: [string /* nodeId */, number /* expiration time */][];
+    indirectNodes: [string /* nodeId */, number /* expiration time */][];
+}
+
+/**
+ * StorageAdapter for tests.
+ */
+export class MemoryStorage implements StorageAdapter {
+    private readonly map = new Map<string, string>();
+
+    public async get(key: string): Promise<string | undefined> {
+        return this.map.get(key);
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        this.map.set(key, value);
+    }
+
+    public async remove(key: string): Promise<void> {
+        this.map.delete(key);
+    }
+}
+
+/**
+ * StorageAdapter based on Web Storage (localStorage or sessionStorage).
+ */
+export class WebStorageAdapter implements StorageAdapter {
+    constructor(private readonly storage: Storage = window.localStorage) {}
+
+    public async get(key: string): Promise<string | undefined> {
+        const value = this.storage.getItem(key);
+        return value === null ? undefined : value;
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        this.storage.setItem(key, value);
+    }
+
+    public async remove(key: string): Promise<void> {
+        this.storage.removeItem(key);
+    }
+}
+
+/**
+ * StorageAdapter based on IndexedDB.
+ */
+export class IndexedDBStorage implements StorageAdapter {
+    public static readonly STORE_NAME = "state";
+    // the prefix of the keys of the identities in the store
+    public static readonly IDENTITY_PREFIX = "identity:";
+    private db?: Promise<IDBDatabase>;
+
+    constructor(
+        private readonly dbName = "web-overlay",
+        private readonly factory: IDBFactory = indexedDB
+    ) {}
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            const req = this.factory.open(this.dbName, 1);
+            req.onupgradeneeded = (): void => {
+                req.result.createObjectStore(IndexedDBStorage.STORE_NAME);
+            };
+            this.db = IndexedDBStorage.toPromise(req);
+        }
+        return this.db;
+    }
+
+    private async request<T>(
+        mode: IDBTransactionMode,
+        job: (store: IDBObjectStore) => IDBRequest<T>
+    ): Promise<T> {
+        const db = await this.open();
+        const store = db
+            .transaction(IndexedDBStorage.STORE_NAME, mode)
+            .objectStore(IndexedDBStorage.STORE_NAME);
+        return IndexedDBStorage.toPromise(job(store));
+    }
+
+    public async get(key: string): Promise<string | undefined> {
+        const value = await this.request("readonly", (store) => store.get(key));
+        return typeof value === "string" ? value : undefined;
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        await this.request("readwrite", (store) => store.put(value, key));
+    }
+
+    public async remove(key: string): Promise<void> {
+        await this.request("readwrite", (store) => store.delete(key));
+    }
+
+    public async getIdentity(key: string): Promise<NodeIdentity | undefined> {
+        const pair = await this.request("readonly", (store) =>
+            store.get(IndexedDBStorage.IDENTITY_PREFIX + key)
+        );
+        return pair ? NodeIdentity.fromKeyPair(pair) : undefined;
+    }
+
+    /**
+     * store the key pair of the identity as is.  the private key is stored
+     * by the structured clone algorithm and is not exported.
+     */
+    public async setIdentity(
+        key: string,
+        identity: NodeIdentity
+    ): Promise<void> {
+        await this.request("readwrite", (store) =>
+            store.put(
+                identity.getKeyPair(),
+                IndexedDBStorage.IDENTITY_PREFIX + key
+            )
+        );
+    }
+
+    private static toPromise<T>(req: IDBRequest<T>): Promise<T> {
+        const defer = new Deferred<T>();
+        req.onsuccess = (): void => defer.resolve(req.result);
+        req.onerror = (): void => defer.reject(req.error);
+        return defer.promise;
+    }
+}
+
+export abstract class StorageUtils {
+    public static readonly VERSION = 1;
+
+    /**
+     * Load the state from conf.STORAGE and return a config for a Manager
+     * that restores the state.
+     * If conf specifies neither NODE_ID nor NODE_IDENTITY, the stored node
+     * identity is used.  If no identity is stored, a new one is generated
+     * and stored.  If the storage supports setIdentity(), the identity is
+     * generated as non-extractable and stored by setIdentity().
+     *
+     * @param conf
+     */
+    public static async prepareConfig(
+        conf: ManagerConfig
+    ): Promise<ManagerConfig> {
+        const storage = conf.STORAGE;
+        if (!storage) {
+            throw new Error("STORAGE is not specified");
+        }
+        const key = StorageUtils.getKey(conf);
+        const state =
+            (await StorageUtils.load(storage, key)) ||
+            StorageUtils.emptyState();
+        if (conf.NODE_ID || conf.NODE_IDENTITY) {
+            return { ...conf, PERSISTED_STATE: state };
+        }
+        const identity = await StorageUtils.loadIdentity(storage, key, state);
+        return { ...conf, NODE_IDENTITY: identity, PERSISTED_STATE: state };
+    }
+
+    private static async loadIdentity(
+        storage: StorageAdapter,
+        key: string,
+        state: PersistedState
+    ): Promise<NodeIdentity> {
+        if (storage.getIdentity && storage.setIdentity) {
+            // never keep an exported private key in such a storage
+            delete state.identity;
+            let identity: NodeIdentity | undefined;
+            try {
+                identity = await storage.getIdentity(key);
+            } catch (err) {
+                logger.warn("StorageUtils: cannot restore identity: %s", err);
+            }
+            if (!identity) {
+                identity = await NodeIdentity.generate(false);
+                await storage.setIdentity(key, identity);
+            }
+            return identity;
+        }
+        if (state.identity) {
+            try {
+                return await NodeIdentity.import(state.identity);
+            } catch (err) {
+                logger.warn("StorageUtils: cannot restore identity: %s", err);
+            }
+        }
+        const identity = await NodeIdentity.generate(true);
+        state.identity = await identity.export();
+        await storage.set(key, JSON.stringify(state));
+        return identity;
+    }
+
+    /**
+     * load the state.
+     *
+     * @return the state or undefined if nothing (or a broken state) is
+     *  stored.
+     */
+    public static async load(
+        storage: StorageAdapter,
+        key: string
+    ): Promise<PersistedState | undefined> {
+        const str = await storage.get(key);
+        if (str === undefined) {
+            return undefined;
+        }
+        try {
+            const state = JSON.parse(str) as PersistedState;
+            if (state.version !== StorageUtils.VERSION) {
+                return undefined;
+            }
+            return state;
+        } catch (err) {
+            return undefined;
+        }
+    }
+
+    public static getKey(conf: ManagerConfig): string {
+        const prefix = conf.STORAGE_KEY || defaultConfig.STORAGE_KEY;
+        return conf.NETWORK_ID ? `${prefix}:${conf.NETWORK_ID}` : prefix;
+    }
+
+    public static emptyState(): PersistedState {
+        return {
+            version: StorageUtils.VERSION,
+            portalCache: [],
+            suspiciousNodes: [],
+            indirectNodes: [],
+        };
+    }
+}
@@ -0,0 +1,478 @@
+import { Manager, NotConnectedError } from "./manager";
+import { Message, MessagePriority, MessageSpec } from "./messages";
+import { PeerConnection } from "./peerconnection";
+import { serializable } from "./serialize";
+import { CustomError, Deferred } from "../utils";
+
+/*
+ * Byte streams over PeerConnection.
+ *
+ * PeerConnection.openStream(name) returns a PeerStream, which has a WHATWG
+ * ReadableStream and WritableStream.  Streams are identified by their
+ * names within a PeerConnection.  The end that opens a stream first sends
+ * an OPEN frame.  The other end creates the stream on receipt, replies
+ * with its own OPEN frame and passes the stream to the callbacks
+ * registered by PeerConnection.onStream().  If no callback is registered,
+ * the application gets the stream by calling openStream() with the same
+ * name.  At most STREAM_MAX_PENDING streams opened by the remote end
+ * wait for openStream(), and each of them is aborted if it is not taken
+ * within STREAM_PENDING_TIMEOUT.
+ *
+ * - Data written to the WritableStream is split into chunks of at most
+ *   STREAM_CHUNK_SIZE bytes and sent in DATA frames.
+ * - Flow control is credit based.  Each end grants STREAM_WINDOW_SIZE
+ *   bytes in its OPEN frame, and grants more in CREDIT frames as the
+ *   application reads data from the ReadableStream.  The writer waits
+ *   while it has no credit.  A stream is aborted if the remote end sends
+ *   more data than granted.
+ * - Closing the WritableStream sends END, which closes the remote
+ *   ReadableStream after the data is read.  Aborting it sends ABORT, which
+ *   errors the remote ReadableStream.  Canceling the ReadableStream sends
+ *   CANCEL, which errors the remote WritableStream.
+ * - The frames are sent in the reliable delivery mode of PeerConnection,
+ *   which openStream() enables, so that they are neither lost nor
+ *   reordered.
+ *
+ * If the PeerConnection is closed, both streams are errored.
+ */
+
+/**
+ * A stream is aborted or canceled by the remote end.
+ */
+export class StreamAbortedError extends CustomError {}
+
+export enum StreamFrameType {
+    OPEN,
+    DATA,
+    CREDIT,
+    END,
+    ABORT,
+    CANCEL,
+}
+
+@serializable
+export class StreamFrame extends Message {
+    /**
+     * @param manager
+     * @param name   the stream name
+     * @param type
+     * @param data   for DATA
+     * @param credit for OPEN and CREDIT (bytes)
+     * @param reason for ABORT and CANCEL
+     */
+    constructor(
+        manager: Manager,
+        public readonly name: string,
+        public readonly type: StreamFrameType,
+        public readonly data?: Uint8Array,
+        public readonly credit?: number,
+        public readonly reason?: string
+    ) {
+        super(manager);
+    }
+
+    public getSpec(): MessageSpec {
+        return {
+            priority:
+                this.type === StreamFrameType.DATA
+                    ? MessagePriority.BULK
+                    : MessagePriority.NORMAL,
+        };
+    }
+
+    public toString(): string {
+        return `<StreamFrame name=${this.name}, type=${
+            StreamFrameType[this.type]
+        }, bytes=${this.data?.length}, credit=${this.credit}>`;
+    }
+
+    public onReceive(): void {
+        const pc = this.peerConnection;
+        if (!pc) {
+            this.manager.mgrLogger.info(
+                "StreamFrame.onReceive: no PeerConnection: %s",
+                this
+            );
+            return;
+        }
+        pc._onStreamFrame(this);
+    }
+}
+
+/**
+ * A pair of streams over a PeerConnection.
+ */
+export class PeerStream {
+    public readonly readable: ReadableStream<Uint8Array>;
+    public readonly writable: WritableStream<Uint8Array>;
+    // true if passed to the application
+    public _taken = false;
+    private remoteOpened = false;
+
+    // the receiving side
+    private readonly received: Uint8Array[] = [];
+    private receiveDefer?: Deferred<void>;
+    private readController?: ReadableStreamDefaultController<Uint8Array>;
+    private ended = false;
+    private readError?: Error;
+    private readDone = false;
+    // the bytes that the remote end may send
+    private remoteCredit = 0;
+
+    // the sending side
+    private credit = 0;
+    private creditDefer?: Deferred<void>;
+    private writeController?: WritableStreamDefaultController;
+    private writeError?: Error;
+    private writeDone = false;
+
+    constructor(
+        private readonly table: PeerStreamTable,
+        private readonly pc: PeerConnection,
+        public readonly name: string
+    ) {
+        if (
+            typeof ReadableStream === "undefined" ||
+            typeof WritableStream === "undefined"
+        ) {
+            throw new Error("WHATWG streams are not supported");
+        }
+        this.readable = new ReadableStream<Uint8Array>(
+            {
+                start: (controller): void => {
+                    this.readController = controller;
+                },
+                pull: (controller): Promise<void> => this.pull(controller),
+                cancel: (reason): Promise<void> => {
+                    this.readError = new StreamAbortedError("canceled");
+                    this.received.length = 0;
+                    this.setReadDone();
+                    return this.sendFrame(
+                        StreamFrameType.CANCEL,
+                        undefined,
+                        undefined,
+                        reason === undefined ? undefined : `${reason}`
+                    );
+                },
+            },
+            // pull() is called only when the application reads
+            { highWaterMark: 0 }
+        );
+        this.writable = new WritableStream<Uint8Array>({
+            start: (controller): void => {
+                this.writeController = controller;
+            },
+            write: (chunk): Promise<void> => this.write(chunk),
+            close: (): Promise<void> => {
+                this.setWriteDone();
+                return this.sendFrame(StreamFrameType.END);
+            },
+            abort: (reason): Promise<void> => {
+                this.writeError = new StreamAbortedError("aborted");
+                this.setWriteDone();
+                return this.sendFrame(
+                    StreamFrameType.ABORT,
+                    undefined,
+                    undefined,
+                    reason === undefined ? undefined : `${reason}`
+                );
+            },
+        });
+    }
+
+    public toString(): string {
+        return `PeerStream[name=${this.name}, credit=${this.credit}, buffered=${this.received.length}]`;
+    }
+
+    private async pull(
+        controller: ReadableStreamDefaultController<Uint8Array>
+    ): Promise<void> {
+        while (this.received.length === 0 && !this.ended && !this.readError) {
+            this.receiveDefer = new Deferred<void>();
+            await this.receiveDefer.promise;
+        }
+        if (this.readError) {
+            // already errored
+            return;
+        }
+        const chunk = this.received.shift();
+        if (chunk) {
+            controller.enqueue(chunk);
+            // let the remote end send more
+            this.sendFrame(
+                StreamFrameType.CREDIT,
+                undefined,
+                chunk.length
+            ).catch(() => {
+                /* ignore */
+            });
+            this.remoteCredit += chunk.length;
+            return;
+        }
+        controller.close();
+        this.setReadDone();
+    }
+
+    private async write(chunk: Uint8Array): Promise<void> {
+        const chunkSize = this.pc.getManager().config.STREAM_CHUNK_SIZE;
+        let offset = 0;
+        while (offset < chunk.length) {
+            while (this.credit === 0 && !this.writeError) {
+                this.creditDefer = new Deferred<void>();
+                await this.creditDefer.promise;
+            }
+            if (this.writeError) {
+                throw this.writeError;
+            }
+            const size = Math.min(
+                chunk.length - offset,
+                chunkSize,
+                this.credit
+            );
+            this.credit -= size;
+            await this.sendFrame(
+                StreamFrameType.DATA,
+                chunk.slice(offset, offset + size)
+            );
+            offset += size;
+        }
+    }
+
+    /**
+     * send the OPEN frame, which grants the initial credit to the remote end.
+     */
+    public _open(): Promise<void> {
+        const window = this.pc.getManager().config.STREAM_WINDOW_SIZE;
+        this.remoteCredit = window;
+        return this.sendFrame(StreamFrameType.OPEN, undefined, window);
+    }
+
+    /**
+     * error both streams and notify the remote end.
+     *
+     * @param reason
+     */
+    public _abort(reason: string): void {
+        const err = new StreamAbortedError(reason);
+        this.failRead(err);
+        this.failWrite(err);
+        for (const type of [StreamFrameType.CANCEL, StreamFrameType.ABORT]) {
+            this.sendFrame(type, undefined, undefined, reason).catch(() => {
+                /* ignore */
+            });
+        }
+    }
+
+    private sendFrame(
+        type: StreamFrameType,
+        data?: Uint8Array,
+        credit?: number,
+        reason?: string
+    ): Promise<void> {
+        if (!this.pc.isConnected()) {
+            return Promise.reject(new NotConnectedError());
+        }
+        return this.pc.send(
+            new StreamFrame(
+                this.pc.getManager(),
+                this.name,
+                type,
+                data,
+                credit,
+                reason
+            )
+        );
+    }
+
+    public _onFrame(frame: StreamFrame): void {
+        switch (frame.type) {
+            case StreamFrameType.OPEN:
+                this.remoteOpened = true;
+                this.addCredit(frame.credit || 0);
+                this.checkDone();
+                break;
+            case StreamFrameType.CREDIT:
+                this.addCredit(frame.credit || 0);
+                break;
+            case StreamFrameType.DATA:
+                if (frame.data && frame.data.length > this.remoteCredit) {
+                    this.pc
+                        .getManager()
+                        .mgrLogger.info("StreamFrame exceeds credit: %s", this);
+                    this._abort("flow control violation");
+                    break;
+                }
+                this.remoteCredit -= frame.data?.length || 0;
+                if (!this.readDone && !this.readError && frame.data) {
+                    this.received.push(frame.data);
+                    this.receiveDefer?.resolve();
+                }
+                break;
+            case StreamFrameType.END:
+                this.ended = true;
+                this.receiveDefer?.resolve();
+                break;
+            case StreamFrameType.ABORT:
+                this.failRead(
+                    new StreamAbortedError(
+                        `aborted by the remote end: ${frame.reason}`
+                    )
+                );
+                break;
+            case StreamFrameType.CANCEL:
+                this.failWrite(
+                    new StreamAbortedError(
+                        `canceled by the remote end: ${frame.reason}`
+                    )
+                );
+                break;
+        }
+    }
+
+    private addCredit(credit: number): void {
+        this.credit += credit;
+        this.creditDefer?.resolve();
+    }
+
+    private failRead(err: Error): void {
+        if (this.readDone) {
+            return;
+        }
+        this.readError = err;
+        this.received.length = 0;
+        this.readController?.error(err);
+        this.receiveDefer?.resolve();
+        this.setReadDone();
+    }
+
+    private failWrite(err: Error): void {
+        if (this.writeDone) {
+            return;
+        }
+        this.writeError = err;
+        this.writeController?.error(err);
+        this.creditDefer?.resolve();
+        this.setWriteDone();
+    }
+
+    /**
+     * error both streams (called when the PeerConnection is closed).
+     */
+    public _destroy(err: Error): void {
+        this.remoteOpened = true;
+        this.failRead(err);
+        this.failWrite(err);
+    }
+
+    private setReadDone(): void {
+        this.readDone = true;
+        this.checkDone();
+    }
+
+    private setWriteDone(): void {
+        this.writeDone = true;
+        this.checkDone();
+    }
+
+    private checkDone(): void {
+        // wait for the OPEN frame from the remote end not to reopen the
+        // stream on its arrival
+        if (this.readDone && this.writeDone && this.remoteOpened) {
+            this.table.remove(this);
+        }
+    }
+}
+
+/**
+ * The streams of a PeerConnection.
+ */
+export class PeerStreamTable {
+    public static readonly PENDING_TIMER_NAME = "stream-pending:";
+    private readonly streams = new Map<string, PeerStream>();
+    private readonly callbacks: ((stream: PeerStream) => void)[] = [];
+
+    constructor(private readonly pc: PeerConnection) {}
+
+    /**
+     * open a stream, or take a stream opened by the remote end.
+     */
+    public open(name: string): PeerStream {
+        let stream = this.streams.get(name);
+        if (stream?._taken) {
+            throw new Error(`stream "${name}" is already opened`);
+        }
+        if (!stream) {
+            stream = this.create(name);
+        }
+        this.take(stream);
+        return stream;
+    }
+
+    public onStream(cb: (stream: PeerStream) => void): void {
+        this.callbacks.push(cb);
+    }
+
+    private create(name: string): PeerStream {
+        const stream = new PeerStream(this, this.pc, name);
+        this.streams.set(name, stream);
+        this.pc.enableReliableDelivery();
+        stream._open().catch((err) => stream._destroy(err));
+        return stream;
+    }
+
+    private take(stream: PeerStream): void {
+        stream._taken = true;
+        this.pc.cleaner.cancelTimer(
+            PeerStreamTable.PENDING_TIMER_NAME + stream.name
+        );
+    }
+
+    public remove(stream: PeerStream): void {
+        if (this.streams.get(stream.name) === stream) {
+            this.streams.delete(stream.name);
+            this.pc.cleaner.cancelTimer(
+                PeerStreamTable.PENDING_TIMER_NAME + stream.name
+            );
+        }
+    }
+
+    public onFrame(frame: StreamFrame): void {
+        const stream = this.streams.get(frame.name);
+        if (stream) {
+            stream._onFrame(frame);
+            return;
+        }
+        if (frame.type !== StreamFrameType.OPEN) {
+            // the stream has been closed
+            this.pc
+                .getManager()
+                .mgrLogger.debug("StreamFrame for unknown stream: %s", frame);
+            return;
+        }
+        const manager = this.pc.getManager();
+        const pending = [...this.streams.values()].filter((s) => !s._taken)
+            .length;
+        const opened = this.create(frame.name);
+        opened._onFrame(frame);
+        if (this.callbacks.length > 0) {
+            this.take(opened);
+            this.callbacks.forEach((cb) => cb(opened));
+        } else if (pending >= manager.config.STREAM_MAX_PENDING) {
+            opened._abort("too many pending streams");
+        } else {
+            this.pc.cleaner.startTimer(
+                manager,
+                PeerStreamTable.PENDING_TIMER_NAME + frame.name,
+                manager.config.STREAM_PENDING_TIMEOUT,
+                () => opened._abort("not taken by the application")
+            );
+        }
+    }
+
+    public destroy(err: Error): void {
+        for (const stream of [...this.streams.values()]) {
+            stream._destroy(err);
+        }
+        this.streams.clear();
+    }
+}
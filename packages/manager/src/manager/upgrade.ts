@@ -0,0 +1,132 @@
+import { Manager } from "./manager";
+import { Message, MessagePriority, MessageSpec } from "./messages";
+import { serializable } from "./serialize";
+
+/*
+ * Upgrading relayed PeerConnections to direct connections.
+ *
+ * When a PeerConnection is established with relay paths, the connecting
+ * node periodically tries to establish a direct connection to the remote
+ * node in the background:
+ * - if a RawConnection to the remote node is already available (e.g.,
+ *   established by another PeerConnection), it is used.
+ * - otherwise, if both nodes support WebRTC, WebRTC signaling is performed
+ *   over the relay paths with RelayUpgradeSignal.
+ * On success, the PeerConnection is bound to the RawConnection and the
+ * relay paths are discarded.  The application does not see a
+ * disconnection.  On failure, the next attempt is delayed with an
+ * exponential back-off per remote node (see RelayUpgradeHistory).
+ */
+
+/**
+ * A message for WebRTC signaling over relay paths.
+ */
+@serializable
+export class RelayUpgradeSignal extends Message {
+    /**
+     * @param manager
+     * @param attempt  identifies an upgrade attempt of the connecting node
+     * @param sdp
+     */
+    constructor(
+        manager: Manager,
+        public readonly attempt: number,
+        public readonly sdp: string
+    ) {
+        super(manager);
+    }
+
+    public getSpec(): MessageSpec {
+        return {
+            priority: MessagePriority.CONTROL,
+        };
+    }
+
+    public toString(): string {
+        return `<RelayUpgradeSignal srcNodeId=${this.srcNodeId}, attempt=${this.attempt}, sdp=...>`;
+    }
+
+    public onReceive(): void {
+        this.peerConnection?._onRelayUpgradeSignal(this.attempt, this.sdp);
+    }
+}
+
+/**
+ * Sent by the connecting node through a RawConnection after the
+ * PeerConnection is upgraded, so that the remote node also uses it.
+ */
+@serializable
+export class RelayUpgradeNotify extends Message {
+    constructor(manager: Manager) {
+        super(manager);
+    }
+
+    public getSpec(): MessageSpec {
+        return {
+            priority: MessagePriority.CONTROL,
+        };
+    }
+
+    public onReceive(): void {
+        const raw = this.rawConnection;
+        if (raw) {
+            this.peerConnection?._onRelayUpgradeNotify(raw, this.srcNodeId);
+        }
+    }
+}
+
+/**
+ * The history of upgrade attempts per remote node.
+ */
+export class RelayUpgradeHistory {
+    private readonly failures = new Map<
+        string /* nodeId */,
+        { count: number; lastFailure: number }
+    >();
+
+    constructor(private readonly manager: Manager) {}
+
+    /**
+     * get the delay before the next upgrade attempt to a node.
+     * the delay is doubled every time an attempt fails, up to
+     * RELAY_UPGRADE_MAX_INTERVAL.
+     */
+    public getDelay(nodeId: string): number {
+        const config = this.manager.config;
+        const count = this.getFailureCount(nodeId);
+        return Math.min(
+            config.RELAY_UPGRADE_INTERVAL * Math.pow(2, count),
+            config.RELAY_UPGRADE_MAX_INTERVAL
+        );
+    }
+
+    /**
+     * get the number of consecutive failures of upgrading to a node.
+     * failures older than RELAY_UPGRADE_MAX_INTERVAL * 2 are forgotten.
+     */
+    public getFailureCount(nodeId: string): number {
+        const ent = this.failures.get(nodeId);
+        if (!ent) {
+            return 0;
+        }
+        const expire =
+            ent.lastFailure +
+            this.manager.config.RELAY_UPGRADE_MAX_INTERVAL * 2;
+        if (expire < this.manager.clock.now()) {
+            this.failures.delete(nodeId);
+            return 0;
+        }
+        return ent.count;
+    }
+
+    public recordFailure(nodeId: string): void {
+        this.failures.set(nodeId, {
+            count: this.getFailureCount(nodeId) + 1,
+            lastFailure: this.manager.clock.now(),
+        });
+    }
+
+    public recordSuccess(nodeId: string): void {
+        this.failures.delete(nodeId);
+    }
+}
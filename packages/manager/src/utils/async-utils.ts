@@ -3,6 +3,7 @@
 import { TimeoutError } from "../manager";
 import { CustomError } from "./error";
 import { Logger } from "../manager/logger";
+import { Clock, RealClock } from "../manager/clock";
 
 export class RetriableError extends CustomError {}
 
@@ -92,17 +93,21 @@ export class Deferred<T> implements PromiseLike<T> {
 }
 
 export class TimeoutDeferred<T> extends Deferred<T> {
-    constructor(timeout: number, errorString = "timeout") {
+    constructor(
+        timeout: number,
+        errorString = "timeout",
+        clock: Clock = RealClock.INSTANCE
+    ) {
         super();
-        const timer = setTimeout(() => {
+        const timer = clock.setTimeout(() => {
             this.reject(new TimeoutError(errorString));
         }, timeout);
         this.then(
             () => {
-                clearTimeout(timer);
+                clock.clearTimer(timer);
             },
             () => {
-                clearTimeout(timer);
+                clock.clearTimer(timer);
             }
         );
     }
@@ -145,16 +150,13 @@ export class ConcurrentExecutor<T> {
         );
     }
     public waitAll(): Promise<void> {
-        return Promise.all(this.synch.map((defer) => defer.promise)).then(
-            () => {
-                this.logger?.debug("waitAll: resolved");
-                return;
-            },
-            () => {
-                this.logger?.debug("waitAll: rejected");
-                return;
-            }
-        );
+        // wait for all jobs to settle (a failed job does not end the wait)
+        return Promise.all(
+            this.synch.map((defer) => defer.promise.catch(() => undefined))
+        ).then(() => {
+            this.logger?.debug("waitAll: resolved");
+            return;
+        });
     }
     public waitAny(): Promise<void> {
         return Promise.race(this.synch.map((defer) => defer.promise)).then(
@@ -135,7 +135,10 @@ export class GraphUtils {
             }
             // Sort the potential k-shortest paths by cost.
             b.sort((path1, path2) => {
-                return GraphUtils.weight(path1) - GraphUtils.weight(path2);
+                return (
+                    GraphUtils.weight(path1, weightFn) -
+                    GraphUtils.weight(path2, weightFn)
+                );
                 // return path1.length - path2.length;
             });
             // Add the lowest cost path becomes the k-shortest path.
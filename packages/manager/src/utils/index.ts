@@ -10,3 +10,4 @@ export * from "./callbacks";
 export * from "./circular-space";
 export * from "./safari-awake";
 export * from "./id";
+export * from "./typed-emitter";
@@ -0,0 +1,104 @@
+/**
+ * A map from event names to the argument types of their listeners.
+ *
+ * @example
+ * interface MyEvents {
+ *     connected: [string];
+ *     closed: [string, Error | undefined];
+ * }
+ */
+export type EventMap<E> = { [K in keyof E]: unknown[] };
+
+export type EventListener<A extends unknown[]> = (...args: A) => void;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyListener = (...args: any[]) => void;
+
+/**
+ * A simple event emitter whose event names and listener arguments are
+ * type-checked.  Unlike {@link Callbacks}, listeners are called
+ * synchronously in the order of registration.  An exception thrown by a
+ * listener is passed to the error handler and does not prevent other
+ * listeners from being called.
+ */
+export class TypedEventEmitter<E extends EventMap<E>> {
+    private listeners = new Map<keyof E, AnyListener[]>();
+
+    /**
+     * @param onError called when a listener throws an exception (e.g., to
+     *  log it with the logger of the owner)
+     */
+    constructor(
+        private readonly onError: (err: unknown, event: keyof E) => void
+    ) {}
+
+    /**
+     * register a listener.
+     *
+     * @return a function that unregisters the listener
+     */
+    public on<K extends keyof E>(
+        event: K,
+        listener: EventListener<E[K]>
+    ): () => void {
+        const list = this.listeners.get(event) || [];
+        list.push(listener as AnyListener);
+        this.listeners.set(event, list);
+        return (): void => this.off(event, listener);
+    }
+
+    /**
+     * register a listener that is called at most once.
+     */
+    public once<K extends keyof E>(
+        event: K,
+        listener: EventListener<E[K]>
+    ): () => void {
+        const off = this.on(event, ((...args: E[K]): void => {
+            off();
+            listener(...args);
+        }) as EventListener<E[K]>);
+        return off;
+    }
+
+    public off<K extends keyof E>(
+        event: K,
+        listener: EventListener<E[K]>
+    ): void {
+        const list = this.listeners.get(event);
+        const index = list?.indexOf(listener as AnyListener) ?? -1;
+        if (list && index >= 0) {
+            list.splice(index, 1);
+            if (list.length === 0) {
+                this.listeners.delete(event);
+            }
+        }
+    }
+
+    public removeAllListeners(event?: keyof E): void {
+        if (event === undefined) {
+            this.listeners.clear();
+        } else {
+            this.listeners.delete(event);
+        }
+    }
+
+    public listenerCount(event: keyof E): number {
+        return this.listeners.get(event)?.length || 0;
+    }
+
+    public emit<K extends keyof E>(event: K, ...args: E[K]): void {
+        const list = this.listeners.get(event);
+        if (!list) {
+            return;
+        }
+        // copy the list because listeners may unregister themselves
+        for (const listener of [...list]) {
+            try {
+                listener(...args);
+            } catch (err) {
+                this.onError(err, event);
+            }
+        }
+    }
+}
@@ -1,2 +1,7 @@
 export * from "./portal/portal";
+export * from "./portal/crypto";
+export * from "./portal/turn";
+export * from "./portal/duplex";
 export * from "./portal/raw/websocketserver";
+export * from "./portal/raw/nativewebsocketserver";
+export * from "./portal/filestorage";
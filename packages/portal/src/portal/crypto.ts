@@ -0,0 +1,81 @@
+import * as crypto from "crypto";
+import { CryptoProvider } from "@web-overlay/manager";
+
+/**
+ * CryptoProvider based on Node.js's crypto module.
+ * Keys and signatures are compatible with WebCryptoProvider.
+ */
+export class NodeCryptoProvider implements CryptoProvider {
+    // Node.js's private keys are always extractable
+    public async generateKeyPair(): Promise<{
+        publicKey: Uint8Array;
+        privateKey: crypto.KeyObject;
+    }> {
+        const { publicKey, privateKey } = crypto.generateKeyPairSync("ec", {
+            namedCurve: "prime256v1",
+        });
+        const spki = publicKey.export({ type: "spki", format: "der" });
+        return { publicKey: new Uint8Array(spki), privateKey: privateKey };
+    }
+
+    public async exportPrivateKey(
+        privateKey: crypto.KeyObject
+    ): Promise<Uint8Array> {
+        const pkcs8 = privateKey.export({ type: "pkcs8", format: "der" });
+        return new Uint8Array(pkcs8);
+    }
+
+    public async importPrivateKey(
+        pkcs8: Uint8Array
+    ): Promise<crypto.KeyObject> {
+        return crypto.createPrivateKey({
+            key: Buffer.from(pkcs8),
+            format: "der",
+            type: "pkcs8",
+        });
+    }
+
+    public async sign(
+        privateKey: crypto.KeyObject,
+        data: Uint8Array
+    ): Promise<Uint8Array> {
+        // dsaEncoding is not defined in @types/node 13
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const key: any = { key: privateKey, dsaEncoding: "ieee-p1363" };
+        return new Uint8Array(crypto.sign("sha256", data, key));
+    }
+
+    public async verify(
+        publicKey: Uint8Array,
+        data: Uint8Array,
+        signature: Uint8Array
+    ): Promise<boolean> {
+        try {
+            const key = crypto.createPublicKey({
+                key: Buffer.from(publicKey),
+                format: "der",
+                type: "spki",
+            });
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const opts: any = { key: key, dsaEncoding: "ieee-p1363" };
+            return crypto.verify("sha256", data, opts, signature);
+        } catch (err) {
+            // malformed public key or signature
+            return false;
+        }
+    }
+
+    public async digest(data: Uint8Array): Promise<Uint8Array> {
+        const hash = crypto.createHash("sha256").update(data).digest();
+        return new Uint8Array(hash);
+    }
+
+    public async hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+        const mac = crypto.createHmac("sha256", key).update(data).digest();
+        return new Uint8Array(mac);
+    }
+
+    public randomBytes(length: number): Uint8Array {
+        return new Uint8Array(crypto.randomBytes(length));
+    }
+}
@@ -0,0 +1,69 @@
+import { Duplex, DuplexOptions } from "stream";
+import { PeerStream } from "@web-overlay/manager";
+
+/**
+ * A Node.js Duplex stream over a PeerStream (see PeerConnection.openStream).
+ *
+ * ```
+ * fs.createReadStream(file).pipe(new PeerStreamDuplex(pc.openStream("file")));
+ * ```
+ *
+ * Ending the Duplex closes the WritableStream of the PeerStream, and
+ * destroying it aborts both streams.
+ */
+export class PeerStreamDuplex extends Duplex {
+    private readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+    private readonly writer: WritableStreamDefaultWriter<Uint8Array>;
+
+    constructor(stream: PeerStream, opts?: DuplexOptions) {
+        super(opts);
+        this.reader = stream.readable.getReader();
+        this.writer = stream.writable.getWriter();
+    }
+
+    public _read(): void {
+        this.reader.read().then(
+            (result) => {
+                this.push(
+                    result.done
+                        ? null
+                        : Buffer.from(
+                              result.value.buffer,
+                              result.value.byteOffset,
+                              result.value.length
+                          )
+                );
+            },
+            (err) => this.destroy(err)
+        );
+    }
+
+    public _write(
+        chunk: Buffer,
+        encoding: string,
+        callback: (error?: Error | null) => void
+    ): void {
+        this.writer
+            .write(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.length))
+            .then(() => callback(), callback);
+    }
+
+    public _final(callback: (error?: Error | null) => void): void {
+        this.writer.close().then(() => callback(), callback);
+    }
+
+    public _destroy(
+        error: Error | null,
+        callback: (error: Error | null) => void
+    ): void {
+        // no-op on the finished streams
+        const reason = error?.message;
+        this.reader.cancel(reason).catch(() => {
+            /* ignore */
+        });
+        this.writer.abort(reason).catch(() => {
+            /* ignore */
+        });
+        callback(error);
+    }
+}
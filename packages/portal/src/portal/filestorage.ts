@@ -0,0 +1,63 @@
+import * as fs from "fs";
+import { StorageAdapter } from "@web-overlay/manager";
+
+/**
+ * StorageAdapter that keeps all the entries in a JSON file (Node.js only).
+ */
+export class FileStorage implements StorageAdapter {
+    // read-modify-write operations are serialized
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly pathname: string) {}
+
+    public async get(key: string): Promise<string | undefined> {
+        const entries = await this.read();
+        return entries[key];
+    }
+
+    public set(key: string, value: string): Promise<void> {
+        return this.update((entries) => {
+            entries[key] = value;
+        });
+    }
+
+    public remove(key: string): Promise<void> {
+        return this.update((entries) => {
+            delete entries[key];
+        });
+    }
+
+    private update(
+        modify: (entries: { [key: string]: string }) => void
+    ): Promise<void> {
+        const job = async (): Promise<void> => {
+            const entries = await this.read();
+            modify(entries);
+            await this.write(entries);
+        };
+        const result = this.queue.then(job, job);
+        this.queue = result;
+        return result;
+    }
+
+    private async read(): Promise<{ [key: string]: string }> {
+        let data: string;
+        try {
+            data = await fs.promises.readFile(this.pathname, "utf8");
+        } catch (err) {
+            if (err.code === "ENOENT") {
+                return {};
+            }
+            throw err;
+        }
+        return JSON.parse(data);
+    }
+
+    private async write(entries: { [key: string]: string }): Promise<void> {
+        // write to a temporary file and rename it so that the file is not
+        // corrupted by a crash while writing
+        const tmp = this.pathname + ".tmp";
+        await fs.promises.writeFile(tmp, JSON.stringify(entries), "utf8");
+        await fs.promises.rename(tmp, this.pathname);
+    }
+}
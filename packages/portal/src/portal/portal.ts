@@ -4,19 +4,40 @@ import * as http from "http";
 import * as nodeStatic from "node-static";
 import * as socketIO from "socket.io";
 import * as URL from "url";
+import * as WebSocket from "ws";
 import {
     Manager,
     NodeSpec,
     ManagerConfig,
     Deferred,
+    AdmissionUtils,
+    IdentityUtils,
+    NativeWsConnection,
+    PortalTransport,
+    ManagerMetrics,
+    IceServerGrant,
 } from "@web-overlay/manager";
 import { WsServerConnection } from "./raw/websocketserver";
+import { NativeWsServerConnection } from "./raw/nativewebsocketserver";
+import { NodeCryptoProvider } from "./crypto";
+import { TurnUtils } from "./turn";
 import { Socket } from "net";
 
+// use Node.js's crypto module instead of WebCrypto for node identities
+IdentityUtils.setCryptoProvider(new NodeCryptoProvider());
+
 export type PortalManagerConfigAdd = {
     // Portal Node
     MY_URL: string;
     HTTP_SERVER_ROOT_DIR?: string;
+    // transports accepted from other nodes (default: all)
+    ACCEPT_TRANSPORTS?: PortalTransport[];
+    // TURN servers that accept credentials minted by this node (see turn.ts)
+    TURN_URLS?: string[];
+    // the secret shared with the TURN servers
+    TURN_SECRET?: string;
+    // the lifetime of minted credentials (msec, default: 1 hour)
+    TURN_CREDENTIAL_TTL?: number;
 };
 
 export type PortalManagerConfig = ManagerConfig & PortalManagerConfigAdd;
@@ -26,7 +47,20 @@ const PrivateConfigKeys = [
     "MY_URL",
     "HTTP_SERVER_ROOT_DIR",
     "NODE_ID",
+    "NODE_IDENTITY",
+    "NETWORK_KEY",
+    "INVITE_TOKEN",
     "WEBRTC_IMPL",
+    "WEBSOCKET_IMPL",
+    "CLOCK",
+    "STORAGE",
+    "STORAGE_KEY",
+    "PERSISTED_STATE",
+    "ACT_AS_RELAY",
+    "RELAY_MAX_PATHS",
+    "RELAY_MAX_BYTES_PER_SEC",
+    "RELAY_MAX_MESSAGES_PER_SEC",
+    "TURN_SECRET",
 ];
 
 /**
@@ -35,12 +69,19 @@ const PrivateConfigKeys = [
 export class PortalManager extends Manager {
     private readonly url: string;
     private io: socketIO.Server | undefined;
+    private wss: WebSocket.Server | undefined;
     private port: number;
     private httpServer: http.Server | undefined;
     public static TestURL = "http://$TEST";
 
     constructor(conf: PortalManagerConfig) {
-        super(conf);
+        super({ ...conf, WEBSOCKET_IMPL: conf.WEBSOCKET_IMPL || WebSocket });
+        const accepts = this.getAcceptTransports();
+        if (!accepts.includes(this.config.PORTAL_TRANSPORT)) {
+            throw new Error(
+                `ACCEPT_TRANSPORTS does not include ${this.config.PORTAL_TRANSPORT}`
+            );
+        }
         const url = (this.config as PortalManagerConfig).MY_URL;
         if (!url) {
             throw new Error("MY_URL is not specified in conf");
@@ -76,6 +117,60 @@ export class PortalManager extends Manager {
         };
     }
 
+    /**
+     * Issue an invite token that admits a node to this network.
+     * Nodes accept the token if the NodeID of this node is in their
+     * INVITE_ISSUERS.  This node must have NODE_IDENTITY.
+     *
+     * @param ttl the lifetime of the token (msec)
+     */
+    public issueInviteToken(ttl: number): Promise<string> {
+        const identity = this.getIdentity();
+        if (!identity) {
+            throw new Error("NODE_IDENTITY is not specified in conf");
+        }
+        return AdmissionUtils.issueInviteToken(
+            this.clock,
+            identity,
+            this.networkId,
+            ttl
+        );
+    }
+
+    /**
+     * mint TURN credentials for a node, if TURN_SECRET is specified.
+     *
+     * @param nodeId
+     */
+    @override
+    public createIceServerGrant(nodeId: string): IceServerGrant | undefined {
+        const conf = this.config as PortalManagerConfig;
+        if (!conf.TURN_SECRET || !conf.TURN_URLS?.length) {
+            return undefined;
+        }
+        const ttl = conf.TURN_CREDENTIAL_TTL ?? 60 * 60 * 1000;
+        const server = TurnUtils.mintCredential(
+            conf.TURN_SECRET,
+            conf.TURN_URLS,
+            ttl,
+            nodeId,
+            this.clock.now()
+        );
+        return { servers: [server], ttl: ttl };
+    }
+
+    private getAcceptTransports(): PortalTransport[] {
+        return (
+            (this.config as PortalManagerConfig).ACCEPT_TRANSPORTS || [
+                "socket.io",
+                "websocket",
+            ]
+        );
+    }
+
+    // TURN credentials are not exported because they could not be renewed.
+    // a node receives them in HelloReply from the portal node it connects
+    // to and renews them through the portal node (see ice.ts).
     private getConfigForExport(): Partial<PortalManagerConfig> {
         const conf: any = {};
         Object.assign(conf, this.config);
@@ -118,6 +213,15 @@ export class PortalManager extends Manager {
                                 JSON.stringify(this.getConfigForExport())
                             );
                             res.end();
+                        } else if (
+                            req.method === "GET" &&
+                            req.url === "/metrics"
+                        ) {
+                            res.writeHead(200, {
+                                "Content-Type": ManagerMetrics.CONTENT_TYPE,
+                            });
+                            res.write(this.metrics.toPrometheus());
+                            res.end();
                         } else if (fileserver) {
                             fileserver.serve(req, res);
                         } else {
@@ -142,7 +246,20 @@ export class PortalManager extends Manager {
         });
         await defer.promise;
 
-        // attach a WebSocket server
+        const accepts = this.getAcceptTransports();
+        if (accepts.includes("socket.io")) {
+            this.startSocketIOServer(httpserver);
+        }
+        if (accepts.includes("websocket")) {
+            this.startWebSocketServer(httpserver);
+        }
+        return httpserver;
+    }
+
+    /**
+     * attach a Socket.IO server
+     */
+    private startSocketIOServer(httpserver: http.Server): void {
         this.io = socketIO(httpserver);
         // allow CORS
         this.io.origins("*:*");
@@ -154,7 +271,33 @@ export class PortalManager extends Manager {
                 this.mgrLogger.debug("new connection: %s", raw);
             }
         });
-        return httpserver;
+    }
+
+    /**
+     * attach a plain WebSocket server at NativeWsConnection.PATH.
+     * upgrade requests to other paths are left to Socket.IO.
+     */
+    private startWebSocketServer(httpserver: http.Server): void {
+        const wss = new WebSocket.Server({ noServer: true });
+        this.wss = wss;
+        this.cleaner.push(() => {
+            this.wss = undefined;
+            wss.close();
+        });
+        httpserver.on(
+            "upgrade",
+            (req: http.IncomingMessage, socket: Socket, head: Buffer) => {
+                const path = URL.parse(req.url || "").pathname;
+                if (path !== NativeWsConnection.PATH || !this.wss) {
+                    return;
+                }
+                wss.handleUpgrade(req, socket, head, (ws) => {
+                    this.mgrLogger.newEvent("new connection (WebSocket)");
+                    const raw = new NativeWsServerConnection(this, ws, req);
+                    this.mgrLogger.debug("new connection: %s", raw);
+                });
+            }
+        );
     }
 
     private async checkServer(): Promise<void> {
@@ -0,0 +1,69 @@
+import * as WebSocket from "ws";
+import * as http from "http";
+import {
+    Frame,
+    Manager,
+    RawConnection,
+    RawConnectionType,
+    quote,
+} from "@web-overlay/manager";
+import { override } from "core-decorators";
+
+/**
+ * Plain WebSocket server connection (the counterpart of NativeWsConnection)
+ */
+export class NativeWsServerConnection extends RawConnection {
+    private readonly ws: WebSocket;
+    private readonly remoteAddress?: string;
+
+    constructor(_manager: Manager, ws: WebSocket, req: http.IncomingMessage) {
+        super(_manager);
+        this.ws = ws;
+        this.remoteAddress = req.socket.remoteAddress;
+        ws.binaryType = "arraybuffer";
+        this.cleaner.push(() => {
+            ws.removeAllListeners();
+            ws.close();
+        });
+        ws.on("message", (data: string | ArrayBuffer) => {
+            this.logger.newEvent("websocket-server: message");
+            this.receiveFrame(data);
+        });
+        ws.on("close", (code: number) => {
+            this.logger.newEvent("websocket-server: close: code=%d", code);
+            this.disconnected();
+        });
+        ws.on("error", (err: Error) => {
+            this.logger.debug("websocket-server: error: %s", err);
+        });
+        this.connected();
+    }
+
+    public getConnectionType(): RawConnectionType {
+        return RawConnectionType.WebServerSocket;
+    }
+
+    public toString(): string {
+        return [
+            `WebSocket(Server)[id=${this.id}`,
+            `remNodeId=${quote(this.getRemoteNodeId())}`,
+            `${["DISCONNECTED", "CONNECTED"][+this.isConnected()]}`,
+            `graceClose=${this.isGracefullyClosed}`,
+            `${this.formatIdleTime()}]`,
+        ].join(", ");
+    }
+
+    public _sendRaw(frame: Frame): void {
+        this.ws.send(frame);
+    }
+
+    @override
+    public getBufferedAmount(): number {
+        return this.ws.bufferedAmount;
+    }
+
+    @override
+    public getRemoteIPAddress(): string | undefined {
+        return this.remoteAddress;
+    }
+}
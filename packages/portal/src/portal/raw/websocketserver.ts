@@ -1,9 +1,11 @@
 import * as socketIO from "socket.io";
 import {
+    CodecUtils,
+    Frame,
     Manager,
-    Message,
     RawConnection,
     RawConnectionType,
+    WsConnection,
     quote,
 } from "@web-overlay/manager";
 import { override } from "core-decorators";
@@ -22,10 +24,9 @@ export class WsServerConnection extends RawConnection {
         this.cleaner.push(() => {
             this.socket.disconnect();
         });
-        sock.on("message", (_json: string) => {
+        sock.on("message", (data: string | Buffer) => {
             this.logger.newEvent("websocket-server: message");
-            const msg: Message = JSON.parse(_json);
-            super.receive(msg);
+            this.receiveFrame(data);
         });
         sock.on("disconnect", (reason: string) => {
             this.logger.newEvent(
@@ -57,9 +58,13 @@ export class WsServerConnection extends RawConnection {
         ].join(", ");
     }
 
-    public _sendRaw(_data: object): void {
-        const json = JSON.stringify(_data);
-        this.socket.send(json);
+    public _sendRaw(frame: Frame): void {
+        this.socket.send(CodecUtils.toTransportable(frame));
+    }
+
+    @override
+    public getBufferedAmount(): number {
+        return WsConnection.getEngineBufferedAmount(this.socket.conn);
     }
 
     public destroy(): void {
@@ -0,0 +1,67 @@
+import * as crypto from "crypto";
+import { IceServer } from "@web-overlay/manager";
+
+/*
+ * Short-lived TURN credentials (the TURN REST API scheme).
+ *
+ * A portal node and TURN servers share a secret (TURN_SECRET).  The portal
+ * node mints a credential for each node:
+ *   username   = "<expiration time (UNIX time in sec)>:<user ID>"
+ *   credential = base64(HMAC-SHA1(TURN_SECRET, username))
+ * and the TURN server accepts it until the expiration time without any
+ * communication with the portal node.  coturn supports this scheme with
+ * "use-auth-secret" and "static-auth-secret" options.
+ */
+
+export abstract class TurnUtils {
+    /**
+     * mint a credential for TURN servers.
+     *
+     * @param secret the secret shared with the TURN servers
+     * @param urls   the URLs of the TURN servers ("turn:host:port")
+     * @param ttl    the lifetime of the credential (msec)
+     * @param userId
+     * @param now    the current time (Date.now() based)
+     */
+    public static mintCredential(
+        secret: string,
+        urls: string[],
+        ttl: number,
+        userId: string | undefined,
+        now: number
+    ): IceServer {
+        const expires = Math.floor((now + ttl) / 1000);
+        const username =
+            userId === undefined ? `${expires}` : `${expires}:${userId}`;
+        return {
+            urls: urls,
+            username: username,
+            credential: TurnUtils.computeCredential(secret, username),
+        };
+    }
+
+    /**
+     * check a credential as TURN servers do.
+     *
+     * @return true if the credential is valid and not expired
+     */
+    public static verifyCredential(
+        secret: string,
+        username: string,
+        credential: string,
+        now: number
+    ): boolean {
+        const expires = parseInt(username.split(":")[0]);
+        if (!(expires * 1000 >= now)) {
+            return false;
+        }
+        return TurnUtils.computeCredential(secret, username) === credential;
+    }
+
+    private static computeCredential(secret: string, username: string): string {
+        return crypto
+            .createHmac("sha1", secret)
+            .update(username)
+            .digest("base64");
+    }
+}
@@ -1,22 +1,30 @@
 import assert = require("assert");
 import {
+    AdmissionUtils,
     Cleanable,
     Cleaner,
     ConnectionRequest,
     DEFAULT_LOG_SERVER_PORT,
     Deferred,
+    IceServer,
     Logger,
     Manager,
     ManagerConfig,
+    ManagerRejectReasons,
     Message,
+    NativeWsConnection,
+    NodeIdentity,
     Path,
     PeerConnection,
     RawConnectionType,
+    RejectionError,
     serializable,
     sleep,
 } from "@web-overlay/manager";
 import {DummyReply, DummyRequest, DummyRequestPattern, ManagerType, prepareManagers,} from "./common";
 import {DisconnectedError} from "@web-overlay/manager/dist";
+import { PortalManager, TurnUtils } from "..";
+import * as http from "http";
 
 const logger = new Logger("test", "test", "");
 let cleaner = new Cleaner(logger);
@@ -136,6 +144,288 @@ describe("Manager APIs", () => {
         assert.deepStrictEqual((result as DummyReply).peerConnection, pc1to0);
     });
 
+    it("request API (msgpack codec)", async () => {
+        const [[manager0, manager1], [pc1to0]] = await prepareManagers(
+            cleaner,
+            2,
+            false,
+            false,
+            { CODEC: "msgpack" }
+        );
+        assert.strictEqual(
+            pc1to0.getRawConnection()?.getNegotiatedFeatures()?.codec,
+            "msgpack"
+        );
+        const req = new DummyRequest(manager1, DummyRequestPattern.NORMAL);
+        const result = await req.request(pc1to0);
+        assert(result instanceof DummyReply);
+    });
+
+    it("native WebSocket transport", async () => {
+        const url = "http://localhost:8080";
+        const portal = await new PortalManager({
+            MY_URL: url,
+            NODE_ID: "P0",
+            PORTAL_TRANSPORT: "websocket",
+        }).start();
+        cleaner.push(() => portal.destroy());
+        for (const [nodeId, transport] of [
+            ["P1", "websocket"],
+            ["P2", "socket.io"],
+        ] as const) {
+            const m = new Manager({
+                NODE_ID: nodeId,
+                PORTAL_TRANSPORT: transport,
+                WEBSOCKET_IMPL: require("ws"),
+                CODEC: "msgpack",
+            });
+            cleaner.push(() => m.destroy());
+            const pc = await m.connectPortal(url);
+            const raw = pc.getRawConnection();
+            assert.strictEqual(
+                raw instanceof NativeWsConnection,
+                transport === "websocket"
+            );
+            assert.strictEqual(raw?.getNegotiatedFeatures()?.codec, "msgpack");
+            const req = new DummyRequest(m, DummyRequestPattern.NORMAL);
+            const result = await req.request(pc);
+            assert(result instanceof DummyReply);
+        }
+    });
+
+    it("node authentication", async () => {
+        const url = "http://localhost:8080";
+        const portalIdentity = await NodeIdentity.generate();
+        const clientIdentity = await NodeIdentity.generate();
+        const portal = await new PortalManager({
+            MY_URL: url,
+            NODE_IDENTITY: portalIdentity,
+            REQUIRE_NODE_AUTH: true,
+        }).start();
+        cleaner.push(() => portal.destroy());
+        assert.strictEqual(portal.getNodeId(), portalIdentity.nodeId);
+        const client = new Manager({
+            NODE_IDENTITY: clientIdentity,
+            REQUIRE_NODE_AUTH: true,
+        });
+        cleaner.push(() => client.destroy());
+        const pc = await client.connectPortal(url);
+        assert.strictEqual(pc.getRemoteNodeId(), portalIdentity.nodeId);
+        assert(pc.getRawConnection()!.isRemoteNodeIdVerified());
+        const raw = portal.getRawConnectionByNodeId(clientIdentity.nodeId);
+        assert(raw && raw.isRemoteNodeIdVerified());
+        const result = await new DummyRequest(
+            client,
+            DummyRequestPattern.NORMAL
+        ).request(pc);
+        assert(result instanceof DummyReply);
+
+        // a node without an identity is rejected
+        const legacy = new Manager({ NODE_ID: "legacy" });
+        cleaner.push(() => legacy.destroy());
+        await assert.rejects(legacy.connectPortal(url));
+        assert(!portal.getRawConnectionByNodeId("legacy"));
+    });
+
+    it("admission control (network key)", async () => {
+        const url = "http://localhost:8080";
+        const portal = await new PortalManager({
+            MY_URL: url,
+            NODE_ID: "P0",
+            NETWORK_KEY: "secret",
+        }).start();
+        cleaner.push(() => portal.destroy());
+        const member = new Manager({ NODE_ID: "P1", NETWORK_KEY: "secret" });
+        cleaner.push(() => member.destroy());
+        await member.connectPortal(url);
+
+        const expectRejection = async (
+            conf: ManagerConfig,
+            reason: string
+        ): Promise<void> => {
+            const m = new Manager(conf);
+            cleaner.push(() => m.destroy());
+            await assert.rejects(
+                m.connectPortal(url),
+                (err) => err instanceof RejectionError && err.message === reason
+            );
+            assert(!portal.getRawConnectionByNodeId(m.getNodeId()));
+        };
+        await expectRejection(
+            { NODE_ID: "P2" },
+            ManagerRejectReasons.ADMISSION_REQUIRED
+        );
+        await expectRejection(
+            { NODE_ID: "P3", NETWORK_KEY: "wrong" },
+            ManagerRejectReasons.INVALID_NETWORK_KEY
+        );
+    });
+
+    it("admission control (invite token)", async () => {
+        const url = "http://localhost:8080";
+        const identity = await NodeIdentity.generate();
+        const conf: ManagerConfig = {
+            NETWORK_ID: "private",
+            INVITE_ISSUERS: [identity.nodeId],
+        };
+        const portal = await new PortalManager({
+            ...conf,
+            MY_URL: url,
+            NODE_IDENTITY: identity,
+        }).start();
+        cleaner.push(() => portal.destroy());
+        const token = await portal.issueInviteToken(60 * 1000);
+        const member = new Manager({
+            ...conf,
+            NODE_ID: "P1",
+            INVITE_TOKEN: token,
+        });
+        cleaner.push(() => member.destroy());
+        await member.connectPortal(url);
+
+        const expectRejection = async (
+            conf2: ManagerConfig,
+            reason: string
+        ): Promise<void> => {
+            const m = new Manager({ ...conf, ...conf2 });
+            cleaner.push(() => m.destroy());
+            await assert.rejects(
+                m.connectPortal(url),
+                (err) => err instanceof RejectionError && err.message === reason
+            );
+        };
+        await expectRejection(
+            { NODE_ID: "P2" },
+            ManagerRejectReasons.ADMISSION_REQUIRED
+        );
+        await expectRejection(
+            {
+                NODE_ID: "P3",
+                INVITE_TOKEN: await portal.issueInviteToken(-1),
+            },
+            ManagerRejectReasons.INVALID_INVITE_TOKEN
+        );
+        // a token issued by an untrusted node
+        const other = await NodeIdentity.generate();
+        await expectRejection(
+            {
+                NODE_ID: "P4",
+                INVITE_TOKEN: await AdmissionUtils.issueInviteToken(
+                    portal.clock,
+                    other,
+                    "private",
+                    60 * 1000
+                ),
+            },
+            ManagerRejectReasons.INVALID_INVITE_TOKEN
+        );
+    });
+
+    it("metrics endpoint", async () => {
+        const url = "http://localhost:8080";
+        const portal = await new PortalManager({
+            MY_URL: url,
+            NODE_ID: "P0",
+        }).start();
+        cleaner.push(() => portal.destroy());
+        const m = new Manager({ NODE_ID: "P1" });
+        cleaner.push(() => m.destroy());
+        const pc = await m.connectPortal(url);
+        const result = await new DummyRequest(
+            m,
+            DummyRequestPattern.NORMAL
+        ).request(pc);
+        assert(result instanceof DummyReply);
+        const latency = m.metrics.requestLatency;
+        assert.strictEqual(latency.getCount({ class: DummyRequest.name }), 1);
+        assert(
+            m.metrics.bytesSent.get({
+                type: RawConnectionType[RawConnectionType.WebClientSocket],
+            }) > 0
+        );
+
+        const body = await new Promise<string>((resolve, reject) => {
+            http.get(url + "/metrics", (res) => {
+                assert.strictEqual(res.statusCode, 200);
+                let data = "";
+                res.setEncoding("utf8");
+                res.on("data", (chunk) => (data += chunk));
+                res.on("end", () => resolve(data));
+            }).on("error", reject);
+        });
+        logger.debug("metrics: %s", body);
+        assert(body.includes("# TYPE webol_messages_received_total counter"));
+        assert(
+            body.includes(
+                `webol_messages_received_total{class="${DummyRequest.name}"} 1`
+            )
+        );
+        assert(body.includes("# TYPE webol_request_latency_seconds histogram"));
+    });
+
+    it("TURN credentials", async () => {
+        const url = "http://localhost:8080";
+        const secret = "turn-secret";
+        const portal = await new PortalManager({
+            MY_URL: url,
+            NODE_ID: "P0",
+            TURN_URLS: ["turn:localhost:3478"],
+            TURN_SECRET: secret,
+            TURN_CREDENTIAL_TTL: 3000,
+        }).start();
+        cleaner.push(() => portal.destroy());
+        // the TURN server (coturn stand-in) accepts credentials minted by
+        // the portal until they expire
+        const accepts = (server: IceServer): boolean =>
+            TurnUtils.verifyCredential(
+                secret,
+                server.username!,
+                server.credential!,
+                Date.now()
+            );
+
+        // not exported through /config.js
+        const body = await new Promise<string>((resolve, reject) => {
+            http.get(url + "/config.js", (res) => {
+                let data = "";
+                res.setEncoding("utf8");
+                res.on("data", (chunk) => (data += chunk));
+                res.on("end", () => resolve(data));
+            }).on("error", reject);
+        });
+        const conf = JSON.parse(body);
+        assert.strictEqual(conf.TURN_SECRET, undefined);
+        assert(!(conf.STUN_SERVERS as IceServer[]).some((s) => s.username));
+
+        // delivered through HelloReply
+        const m = new Manager({ NODE_ID: "P1" });
+        cleaner.push(() => m.destroy());
+        assert.deepStrictEqual(m.iceServers.getDelivered(), []);
+        await m.connectPortal(url);
+        const delivered = m.iceServers.getDelivered();
+        assert.strictEqual(delivered.length, 1);
+        assert(delivered[0].username!.endsWith(":P1"));
+        assert(accepts(delivered[0]));
+        assert(m.iceServers.getAll().includes(delivered[0]));
+        // forged or expired credentials are refused
+        assert(!accepts({ ...delivered[0], credential: "x" }));
+        assert(
+            !TurnUtils.verifyCredential(
+                secret,
+                delivered[0].username!,
+                delivered[0].credential!,
+                Date.now() + 2 * 60 * 1000
+            )
+        );
+
+        // renewed through the portal node before expiration
+        await new Promise((resolve) => setTimeout(resolve, 3500));
+        const renewed = m.iceServers.getDelivered();
+        assert.strictEqual(renewed.length, 1);
+        assert.notStrictEqual(renewed[0].username, delivered[0].username);
+        assert(accepts(renewed[0]));
+    }).timeout(10000);
+
     it("request API error", async () => {
         const [[manager0, manager1], [pc1to0]] = await prepareManagers(
             cleaner,
@@ -1,21 +1,47 @@
 import assert = require("assert");
 import * as GraphLib from "graphlib";
 import {
+    Ack,
+    AdmissionUtils,
     ArraySet,
     ArrayUtils,
+    Capabilities,
+    CapabilityUtils,
     CircularSpace,
+    ClosePeerConnection,
+    CodecError,
+    CodecUtils,
     ConcurrentExecutor,
     Deferred,
     EquitySet,
+    Frame,
+    FragmentUtils,
     GraphUtils,
+    IdentityUtils,
+    IncompatibleProtocolError,
+    Manager,
+    Message,
+    MessagePriority,
+    MessageSpec,
+    NatProber,
+    NodeIdentity,
     Path,
     prettyPrint,
+    RawConnection,
+    RawConnectionType,
+    Reassembler,
+    ReassemblyOverflowError,
+    SendQueueFullError,
+    SequenceAck,
     serializable,
     SerializeUtils,
     TimeoutDeferred,
     TimeoutError,
     transient,
+    VirtualClock,
+    WebCryptoProvider,
 } from "@web-overlay/manager";
+import { NodeCryptoProvider } from "..";
 
 /**
  * simple insertion and deletion test
@@ -143,6 +169,71 @@ describe("misc", () => {
         console.log("pruned=", pruned);
     });
 
+    it("testLinkRtt", async () => {
+        const clock = new VirtualClock(0);
+        const manager = new Manager({
+            NODE_ID: "A",
+            CLOCK: clock,
+            PATH_HOP_COST: 20,
+            DEFAULT_LINK_RTT: 100,
+        });
+        try {
+            const rtts = manager.linkRtts;
+            const g = new GraphLib.Graph({directed: false});
+            g.setEdge("A", "B");
+            g.setEdge("B", "Z");
+            g.setEdge("A", "C");
+            g.setEdge("C", "D");
+            g.setEdge("D", "Z");
+            // without RTTs, the shorter path is preferred
+            const w = rtts.getWeightFunction();
+            let topk = GraphUtils.computeShortestK(g, "A", "Z", 2, w);
+            assert.deepStrictEqual(topk[0], ["A", "B", "Z"]);
+            // measured RTTs
+            rtts.update("A", "B", 200);
+            rtts.update("C", "A", 10);
+            assert.strictEqual(rtts.get("B", "A"), 200);
+            rtts.update("A", "B", 280);
+            assert.strictEqual(rtts.get("A", "B"), 210);
+            // path RTT: the unexplained RTT is divided among C-D and D-Z
+            rtts.updatePath(["A", "C", "D", "Z"], 50);
+            assert.strictEqual(rtts.get("C", "D"), 20);
+            assert.strictEqual(rtts.get("D", "Z"), 20);
+            // an estimation does not override a measurement
+            rtts.updatePath(["A", "B", "Z"], 300);
+            assert.strictEqual(rtts.get("A", "B"), 210);
+            assert.strictEqual(rtts.get("B", "Z"), 90);
+            topk = GraphUtils.computeShortestK(g, "A", "Z", 2, w);
+            assert.deepStrictEqual(topk[0], ["A", "C", "D", "Z"]);
+            const paths = [
+                new Path(["A", "B", "Z"]),
+                new Path(["A", "C", "D", "Z"]),
+            ];
+            const sorted = Path.sortByScore(paths, w);
+            assert.deepStrictEqual(sorted[0].asArray(), ["A", "C", "D", "Z"]);
+            assert.deepStrictEqual(
+                rtts.getMeasuredRtts().map(([v, x]) => [v, x]),
+                [["A", "B"], ["C", "A"]]
+            );
+            // RTTs reported by Z: only the links of Z are accepted, and
+            // they do not override measurements
+            rtts.addReportedRtts("Z", [
+                ["Z", "B", 500],
+                ["A", "B", 500],
+                ["C", "D", 500],
+            ]);
+            assert.strictEqual(rtts.get("A", "B"), 210);
+            assert.strictEqual(rtts.get("C", "D"), 20);
+            assert.strictEqual(rtts.get("B", "Z"), 90 + (500 - 90) / 8);
+            // entries expire
+            await clock.advance(manager.config.LINK_RTT_EXPIRATION_TIME + 1);
+            assert.strictEqual(rtts.get("A", "B"), undefined);
+            assert.strictEqual(rtts.getPathWeight(["A", "B", "Z"]), 240);
+        } finally {
+            manager.destroy();
+        }
+    });
+
     it("prettyPrint", () => {
         const obj = {
             a: "a",
@@ -169,6 +260,78 @@ describe("misc", () => {
         }
     });
 
+    it("testNatProbe", () => {
+        const host = "candidate:1 1 udp 2113937151 192.168.1.2 50000 typ host generation 0";
+        const srflx = (ip: string, port: number): string =>
+            `candidate:2 1 udp 1677729535 ${ip} ${port} typ srflx raddr 192.168.1.2 rport 50000 generation 0`;
+        // a cone NAT maps the socket to the same port for any STUN server
+        const cone = NatProber.classify(
+            [host, srflx("1.2.3.4", 60000), srflx("1.2.3.4", 60000)],
+            "::ffff:1.2.3.4"
+        );
+        assert.deepStrictEqual(cone, {
+            host: true,
+            srflx: true,
+            relay: false,
+            symmetric: false,
+            public: false,
+        });
+        const symmetric = NatProber.classify([
+            host,
+            srflx("1.2.3.4", 60000),
+            srflx("1.2.3.4", 60001),
+        ]);
+        assert.strictEqual(symmetric.symmetric, true);
+        // the base addresses are hidden by mDNS
+        const hidden = (port: number): string =>
+            `candidate:2 1 udp 1677729535 1.2.3.4 ${port} typ srflx raddr 0.0.0.0 rport 0 generation 0`;
+        const unknown = NatProber.classify([hidden(60000), hidden(60001)]);
+        assert.strictEqual(unknown.srflx, true);
+        assert.strictEqual(unknown.symmetric, false);
+        // no NAT: the portal sees the host address
+        const pub = NatProber.classify(
+            ["candidate:1 1 udp 2113937151 5.6.7.8 50000 typ host generation 0"],
+            "5.6.7.8"
+        );
+        assert.strictEqual(pub.public, true);
+        // STUN is blocked
+        const blocked = NatProber.classify([host]);
+        assert.strictEqual(blocked.srflx, false);
+        const relay = NatProber.classify([
+            host,
+            "candidate:3 1 udp 41885439 9.9.9.9 3478 typ relay raddr 1.2.3.4 rport 60000 generation 0",
+        ]);
+        assert.strictEqual(relay.relay, true);
+
+        assert(NatProber.isWebRTCViable(undefined, symmetric));
+        assert(NatProber.isWebRTCViable(cone, cone));
+        assert(NatProber.isWebRTCViable(cone, symmetric));
+        assert(!NatProber.isWebRTCViable(symmetric, symmetric));
+        assert(!NatProber.isWebRTCViable(blocked, symmetric));
+        assert(NatProber.isWebRTCViable(pub, symmetric));
+        assert(NatProber.isWebRTCViable(relay, symmetric));
+    });
+
+    it("VirtualClock", async () => {
+        const clock = new VirtualClock(0);
+        const fired: string[] = [];
+        clock.setTimeout(() => fired.push("b"), 2000);
+        clock.setTimeout(() => fired.push("a"), 1000);
+        const c = clock.setTimeout(() => fired.push("c"), 1500);
+        const i = clock.setInterval(() => fired.push("i"), 600);
+        clock.clearTimer(c);
+        await clock.advance(1700);
+        assert.deepStrictEqual(fired, ["i", "a", "i"]);
+        assert.strictEqual(clock.now(), 1700);
+        clock.clearTimer(i);
+        assert.strictEqual(await clock.run(Promise.resolve(1)), 1);
+        assert.strictEqual(clock.now(), 1700);
+        const d = new TimeoutDeferred<void>(60 * 60 * 1000, "late", clock);
+        await assert.rejects(clock.run(d.promise), TimeoutError);
+        assert.deepStrictEqual(fired, ["i", "a", "i", "b"]);
+        assert.strictEqual(clock.now(), 1700 + 60 * 60 * 1000);
+    });
+
     it("sortCircular", () => {
         const a = ["000", "aaa", "bbb"];
         const b = CircularSpace.sortCircular("aaa", a, (x) => x, true);
@@ -203,8 +366,635 @@ describe("misc", () => {
         //}
         assert.strictEqual(prettyPrint(r), '{sample={a="a"}}');
     });
+
+    it("testCodec", () => {
+        for (const name of ["json", "msgpack"]) {
+            const codec = CodecUtils.create(name);
+            const nested = new NestedSample();
+            const a = new Sample();
+            nested.sample = a;
+            a.a = "a";
+            a.b = "b"; // transient
+            a.d = new Uint8Array([0, 1, 2, 255]);
+            const frame = codec.encode(nested);
+            assert.strictEqual(CodecUtils.getCodecNameOf(frame), name);
+            const r = SerializeUtils.restorePrototype(
+                codec.decode(frame) as NestedSample
+            );
+            assert(r instanceof NestedSample);
+            const sample = r.sample!;
+            assert(sample instanceof Sample);
+            assert.strictEqual(sample.a, "a");
+            assert.strictEqual(sample.b, undefined);
+            assert(sample.d instanceof Uint8Array);
+            assert.deepStrictEqual(Array.from(sample.d!), [0, 1, 2, 255]);
+        }
+    });
+
+    it("testMsgpackClassInterning", () => {
+        const codec = CodecUtils.create("msgpack");
+        const decoder = CodecUtils.create("msgpack");
+        const a = new Sample();
+        a.a = "a";
+        const b = new Sample();
+        b.a = "b";
+        const frame1 = codec.encode(a);
+        const frame2 = codec.encode([a, b]);
+        // the class name is sent only once in a frame
+        assert(frame2.length < frame1.length * 2);
+        // each frame is self-describing (frame1 may be lost)
+        const r = SerializeUtils.restorePrototype(
+            decoder.decode(frame2) as Sample[]
+        );
+        assert(r[0] instanceof Sample && r[1] instanceof Sample);
+        assert.strictEqual(r[1].a, "b");
+        const r1 = SerializeUtils.restorePrototype(decoder.decode(frame1));
+        assert(r1 instanceof Sample);
+    });
+
+    it("testMsgpackSharedClassTable", () => {
+        const manager = new Manager();
+        try {
+            const features = CapabilityUtils.negotiate(
+                manager.getCapabilities(),
+                manager.getCapabilities(),
+                "msgpack"
+            );
+            assert.strictEqual(
+                features.classTable,
+                SerializeUtils.getClassTableDigest()
+            );
+            const codec = CodecUtils.create("msgpack");
+            const decoder = CodecUtils.create("msgpack");
+            const ack = new Ack(manager, 1);
+            const plain = codec.encode(ack) as Uint8Array;
+            codec.negotiated!(features);
+            decoder.negotiated!(features);
+            const frame = codec.encode(ack) as Uint8Array;
+            // no class name is carried
+            assert(frame.length < plain.length - "Ack".length);
+            assert(!Buffer.from(frame).includes("Ack"));
+            const r = SerializeUtils.restorePrototype(decoder.decode(frame));
+            assert(r instanceof Ack);
+            // the tables differ
+            const other = CodecUtils.create("msgpack");
+            other.negotiated!({ ...features, classTable: undefined });
+            assert.deepStrictEqual(other.encode(ack), plain);
+            // a class has been registered since the negotiation
+            other.negotiated!({ ...features, classTable: "0" });
+            assert.throws(() => other.decode(frame), CodecError);
+        } finally {
+            manager.destroy();
+        }
+    });
+
+    it("testMsgpackMalformed", () => {
+        const decoder = CodecUtils.create("msgpack");
+        const name = Array.from("Sample").map((c) => c.charCodeAt(0));
+        // EXT8 (class definition) whose body is a number, not a map
+        const ext = new Uint8Array([0x01, 0xc7, 9, 2, 0, 0xa6, ...name, 5]);
+        assert.throws(() => decoder.decode(ext), CodecError);
+        // {"__proto__": 1}
+        const proto = Array.from("__proto__").map((c) => c.charCodeAt(0));
+        const map = new Uint8Array([0x01, 0x81, 0xa9, ...proto, 1]);
+        assert.throws(() => decoder.decode(map), CodecError);
+        // deeply nested arrays ([[[...[nil]...]]])
+        const deep = new Uint8Array(200002).fill(0x91);
+        deep[0] = 0x01;
+        deep[deep.length - 1] = 0xc0;
+        assert.throws(() => decoder.decode(deep), CodecError);
+        // an array longer than the frame
+        const long = new Uint8Array([0x01, 0xdd, 0xff, 0xff, 0xff, 0xff]);
+        assert.throws(() => decoder.decode(long), CodecError);
+        // invalid base64 in JSON
+        const json = CodecUtils.create("json");
+        assert.throws(() => json.decode('{"$u8":"a"}'), CodecError);
+    });
+
+    it("testMalformedFrames", () => {
+        const manager = new Manager();
+        try {
+            const raw = new ReceivingConnection(manager);
+            raw.open();
+            const msg = CodecUtils.create("msgpack").encode(
+                new Ack(manager, 1)
+            );
+            // msgpack is not negotiated yet
+            raw.deliver(msg);
+            assert.strictEqual(raw.received.length, 0);
+            raw.setRemoteCapabilities(manager.getCapabilities());
+            raw.deliver(msg);
+            assert.strictEqual(raw.received.length, 1);
+            // malformed frames are dropped
+            const deep = new Uint8Array(200002).fill(0x91);
+            deep[0] = 0x01;
+            deep[deep.length - 1] = 0xc0;
+            raw.deliver(deep);
+            raw.deliver('{"$u8":"a"}');
+            assert.strictEqual(raw.received.length, 1);
+            assert(raw.isConnected());
+        } finally {
+            manager.destroy();
+        }
+    });
+
+    it("testCapabilityNegotiation", () => {
+        const local: Capabilities = {
+            version: 2,
+            minVersion: 1,
+            codecs: ["json", "msgpack"],
+            compression: [],
+            classTable: "1234abcd",
+            apps: ["ddll", "kirin"],
+        };
+        {
+            const remote = { ...local, codecs: ["json"], apps: ["ddll"] };
+            const f = CapabilityUtils.negotiate(local, remote, "msgpack");
+            assert.strictEqual(f.codec, "json");
+            assert.strictEqual(f.classTable, "1234abcd");
+            assert.deepStrictEqual(f.apps, ["ddll"]);
+        }
+        {
+            const remote = { ...local, classTable: "5678abcd" };
+            const f = CapabilityUtils.negotiate(local, remote, "msgpack");
+            assert.strictEqual(f.classTable, undefined);
+        }
+        {
+            const remote = { ...local, version: 3, minVersion: 2 };
+            const f = CapabilityUtils.negotiate(local, remote, "msgpack");
+            assert.strictEqual(f.version, 2);
+            assert.strictEqual(f.codec, "msgpack");
+        }
+        // too new
+        assert.throws(
+            () =>
+                CapabilityUtils.negotiate(
+                    local,
+                    { ...local, version: 4, minVersion: 3 },
+                    "json"
+                ),
+            IncompatibleProtocolError
+        );
+        // legacy nodes send no capabilities
+        assert.strictEqual(CapabilityUtils.isCompatible(local, undefined), false);
+        assert.strictEqual(
+            CapabilityUtils.isCompatible({ ...local, minVersion: 0 }, undefined),
+            true
+        );
+    });
+
+    it("testFragmentation", () => {
+        const manager = new Manager({ MAX_PARTIAL_FRAMES: 2 });
+        try {
+            const reassembler = new Reassembler(
+                manager,
+                manager.cleaner,
+                manager.rawLogger
+            );
+            const text = "あいうえお".repeat(1000);
+            const binary = new Uint8Array(100000).map((v, i) => i & 0xff);
+            assert.strictEqual(FragmentUtils.split("short", 0, 1000), undefined);
+            const f1 = FragmentUtils.split(text, 1, 1000)!;
+            const f2 = FragmentUtils.split(binary, 2, 1000)!;
+            assert(f1.every((f) => f.length <= 1000));
+            assert(f2.every((f) => f.length <= 1000));
+            // interleave fragments of two frames and reverse the order
+            const fragments = [...f1, ...f2].reverse();
+            const results = fragments
+                .map((f) => reassembler.add(f))
+                .filter((r) => r !== undefined);
+            assert.strictEqual(results.length, 2);
+            assert.strictEqual(results[1], text);
+            assert.deepStrictEqual(results[0], binary);
+            assert.strictEqual(reassembler.pendingFrames, 0);
+            // too many partial frames
+            const f3 = FragmentUtils.split(binary, 3, 1000)!;
+            reassembler.add(f1[0]);
+            reassembler.add(f2[0]);
+            assert.throws(
+                () => reassembler.add(f3[0]),
+                ReassemblyOverflowError
+            );
+            assert.strictEqual(reassembler.pendingFrames, 0);
+            // partially received frames are discarded on clean
+            reassembler.add(f1[0]);
+            assert.strictEqual(reassembler.pendingFrames, 1);
+            manager.cleaner.clean();
+            assert.strictEqual(reassembler.pendingFrames, 0);
+        } finally {
+            manager.destroy();
+        }
+    });
+
+    it("testNodeIdentity", async () => {
+        const saved = IdentityUtils.getCryptoProvider();
+        try {
+            // WebCrypto (browsers) and Node.js's crypto (portals) must
+            // verify each other
+            IdentityUtils.setCryptoProvider(new WebCryptoProvider());
+            const a = await NodeIdentity.generate();
+            IdentityUtils.setCryptoProvider(new NodeCryptoProvider());
+            const b = await NodeIdentity.generate();
+            assert(/^[0-9a-f]{32}$/.test(a.nodeId));
+            assert(IdentityUtils.isKeyDerivedNodeId(a.nodeId));
+            assert(!IdentityUtils.isKeyDerivedNodeId("P0"));
+            assert.notStrictEqual(a.nodeId, b.nodeId);
+            assert.strictEqual(
+                await IdentityUtils.computeNodeId(a.publicKey),
+                a.nodeId
+            );
+            for (const provider of [
+                new WebCryptoProvider(),
+                new NodeCryptoProvider(),
+            ]) {
+                IdentityUtils.setCryptoProvider(provider);
+                const nonce = IdentityUtils.createNonce();
+                const proof = await a.prove(nonce, b.nodeId, "initiator");
+                assert(
+                    await IdentityUtils.verifyProof(
+                        proof,
+                        a.nodeId,
+                        b.nodeId,
+                        nonce,
+                        "initiator"
+                    )
+                );
+                const proof2 = await b.prove(nonce, a.nodeId, "responder");
+                assert(
+                    await IdentityUtils.verifyProof(
+                        proof2,
+                        b.nodeId,
+                        a.nodeId,
+                        nonce,
+                        "responder"
+                    )
+                );
+                // wrong nonce
+                assert(
+                    !(await IdentityUtils.verifyProof(
+                        proof,
+                        a.nodeId,
+                        b.nodeId,
+                        IdentityUtils.createNonce(),
+                        "initiator"
+                    ))
+                );
+                // wrong verifier
+                assert(
+                    !(await IdentityUtils.verifyProof(
+                        proof,
+                        a.nodeId,
+                        a.nodeId,
+                        nonce,
+                        "initiator"
+                    ))
+                );
+                // reflected in the opposite direction
+                assert(
+                    !(await IdentityUtils.verifyProof(
+                        proof,
+                        a.nodeId,
+                        b.nodeId,
+                        nonce,
+                        "responder"
+                    ))
+                );
+                // the public key does not match the NodeID
+                assert(
+                    !(await IdentityUtils.verifyProof(
+                        { ...proof, publicKey: b.publicKey },
+                        a.nodeId,
+                        b.nodeId,
+                        nonce,
+                        "initiator"
+                    ))
+                );
+                // impersonation
+                assert(
+                    !(await IdentityUtils.verifyProof(
+                        proof,
+                        b.nodeId,
+                        b.nodeId,
+                        nonce,
+                        "initiator"
+                    ))
+                );
+            }
+        } finally {
+            IdentityUtils.setCryptoProvider(saved);
+        }
+    });
+
+    it("testNodeIdentityExport", async () => {
+        const saved = IdentityUtils.getCryptoProvider();
+        try {
+            // an identity exported on one provider is usable on the other
+            const providers = [new WebCryptoProvider(), new NodeCryptoProvider()];
+            for (const from of providers) {
+                for (const to of providers) {
+                    IdentityUtils.setCryptoProvider(from);
+                    const a = await NodeIdentity.generate(true);
+                    const exported = JSON.parse(
+                        JSON.stringify(await a.export())
+                    );
+                    IdentityUtils.setCryptoProvider(to);
+                    const b = await NodeIdentity.import(exported);
+                    assert.strictEqual(b.nodeId, a.nodeId);
+                    const nonce = IdentityUtils.createNonce();
+                    const proof = await b.prove(nonce, "verifier", "initiator");
+                    assert(
+                        await IdentityUtils.verifyProof(
+                            proof,
+                            a.nodeId,
+                            "verifier",
+                            nonce,
+                            "initiator"
+                        )
+                    );
+                }
+            }
+        } finally {
+            IdentityUtils.setCryptoProvider(saved);
+        }
+    });
+
+    it("testAdmissionMac", async () => {
+        const nonce = IdentityUtils.createNonce();
+        const mac = await AdmissionUtils.computeMac(
+            "secret",
+            nonce,
+            "A",
+            "B",
+            "initiator"
+        );
+        assert(
+            await AdmissionUtils.verifyMac(
+                "secret",
+                mac,
+                nonce,
+                "A",
+                "B",
+                "initiator"
+            )
+        );
+        // wrong key
+        assert(
+            !(await AdmissionUtils.verifyMac(
+                "wrong",
+                mac,
+                nonce,
+                "A",
+                "B",
+                "initiator"
+            ))
+        );
+        // reflected in the opposite direction
+        assert(
+            !(await AdmissionUtils.verifyMac(
+                "secret",
+                mac,
+                nonce,
+                "A",
+                "B",
+                "responder"
+            ))
+        );
+    });
+
+    it("testInviteTokenExpiry", async () => {
+        const clock = new VirtualClock(0);
+        const identity = await NodeIdentity.generate();
+        const manager = new Manager({
+            CLOCK: clock,
+            INVITE_ISSUERS: [identity.nodeId],
+        });
+        try {
+            const token = await AdmissionUtils.issueInviteToken(
+                manager.clock,
+                identity,
+                manager.config.NETWORK_ID,
+                1000
+            );
+            // the expiry is based on the clock, not on Date.now()
+            assert(
+                await AdmissionUtils.verifyInviteToken(
+                    manager.config,
+                    manager.clock,
+                    token
+                )
+            );
+            await clock.advance(1000);
+            assert(
+                !(await AdmissionUtils.verifyInviteToken(
+                    manager.config,
+                    manager.clock,
+                    token
+                ))
+            );
+        } finally {
+            manager.destroy();
+        }
+    });
+
+    it("testSendQueue", async () => {
+        const manager = new Manager({
+            SEND_QUEUE_MAX_LENGTH: 3,
+            SEND_BUFFER_HIGH_WATER_MARK: 100,
+            SEND_BUFFER_LOW_WATER_MARK: 10,
+            SEND_QUEUE_POLL_INTERVAL: 10,
+        });
+        try {
+            const raw = new BufferedConnection(manager);
+            await raw.send(new BulkMessage(manager));
+            assert.strictEqual(raw.frames.length, 1);
+            // the transport is busy
+            raw.buffered = 200;
+            const promises = [1, 2, 3].map(() =>
+                raw.send(new BulkMessage(manager))
+            );
+            assert.strictEqual(raw.frames.length, 1);
+            assert.strictEqual(raw.getSendQueueLength(), 3);
+            assert.strictEqual(raw.isCongested(), true);
+            await assert.rejects(
+                raw.send(new BulkMessage(manager)),
+                SendQueueFullError
+            );
+            // control messages are not limited
+            const ackPromise = raw.send(new Ack(manager, 0));
+            let drained = false;
+            const drainPromise = raw.waitDrain().then(() => (drained = true));
+            // below the high water mark: queued messages are sent
+            raw.buffered = 50;
+            await Promise.all([...promises, ackPromise]);
+            assert.strictEqual(raw.frames.length, 5);
+            assert.strictEqual(raw.isCongested(), true);
+            assert.strictEqual(drained, false);
+            // below the low water mark: drained
+            raw.buffered = 0;
+            await drainPromise;
+            assert.strictEqual(raw.isCongested(), false);
+        } finally {
+            manager.destroy();
+        }
+    });
+
+    it("testSendQueuePriority", async () => {
+        const manager = new Manager({
+            // ClosePeerConnection below is never acked
+            ACK_TIMEOUT: 0,
+            SEND_BUFFER_HIGH_WATER_MARK: 100,
+            SEND_BUFFER_LOW_WATER_MARK: 10,
+            SEND_QUEUE_POLL_INTERVAL: 10,
+        });
+        try {
+            const raw = new BufferedConnection(manager);
+            raw.buffered = 200;
+            const p1 = raw.send(new BulkMessage(manager));
+            const p2 = raw.send(new Ack(manager, 1));
+            raw.buffered = 0;
+            await Promise.all([p1, p2]);
+            const classes = raw.frames.map(
+                (f) => JSON.parse(f as string)[SerializeUtils.CLASSNAME_FIELD]
+            );
+            // the control message overtakes the bulk message
+            assert.deepStrictEqual(classes, ["Ack", "BulkMessage"]);
+            // ClosePeerConnection does not overtake the messages for the
+            // same PeerConnection, but SequenceAck does
+            const sendToConns = async (control: Message): Promise<string[]> => {
+                raw.frames.length = 0;
+                raw.buffered = 200;
+                const bulks = [5, 6].map((connId) => {
+                    const m = new BulkMessage(manager);
+                    m.destination = new Path(["me", "remote"], connId);
+                    return m;
+                });
+                control.destination = new Path(["me", "remote"], 6);
+                const ps = [...bulks, control].map((m) => raw.send(m));
+                raw.buffered = 0;
+                await Promise.all(ps);
+                return raw.frames.map((f) => {
+                    const obj = JSON.parse(f as string);
+                    return `${obj[SerializeUtils.CLASSNAME_FIELD]}:${
+                        obj.destination.connId
+                    }`;
+                });
+            };
+            assert.deepStrictEqual(
+                await sendToConns(new ClosePeerConnection(manager, 6)),
+                ["BulkMessage:6", "ClosePeerConnection:6", "BulkMessage:5"]
+            );
+            assert.deepStrictEqual(
+                await sendToConns(new SequenceAck(manager, 1)),
+                ["SequenceAck:6", "BulkMessage:5", "BulkMessage:6"]
+            );
+        } finally {
+            manager.destroy();
+        }
+    });
+
+    it("testRawReconnecting", async () => {
+        const clock = new VirtualClock(0);
+        const manager = new Manager({
+            CLOCK: clock,
+            RECONNECT_GRACE_PERIOD: 1000,
+        });
+        try {
+            const events: string[] = [];
+            manager.events.on("rawReconnecting", () =>
+                events.push("reconnecting")
+            );
+            manager.events.on("rawReconnected", () =>
+                events.push("reconnected")
+            );
+            manager.events.on("rawDisconnected", () =>
+                events.push("disconnected")
+            );
+            const raw = new BufferedConnection(manager);
+            raw.open();
+            raw.lose();
+            assert.strictEqual(raw.isReconnecting(), true);
+            // messages are held until the transport is recovered
+            const p = raw.send(new BulkMessage(manager));
+            assert.strictEqual(raw.frames.length, 0);
+            await clock.advance(500);
+            assert.strictEqual(raw.isConnected(), true);
+            raw.recover();
+            await p;
+            assert.strictEqual(raw.frames.length, 1);
+            assert.strictEqual(raw.isReconnecting(), false);
+            // not recovered within the grace period
+            raw.lose();
+            await clock.advance(1000);
+            assert.strictEqual(raw.isConnected(), false);
+            assert.deepStrictEqual(events, [
+                "reconnecting",
+                "reconnected",
+                "reconnecting",
+                "disconnected",
+            ]);
+        } finally {
+            manager.destroy();
+        }
+    });
 });
 
+@serializable
+class BulkMessage extends Message {
+    public getSpec(): MessageSpec {
+        return { priority: MessagePriority.BULK, noAck: true };
+    }
+
+    protected onReceive(): void {
+        /* empty */
+    }
+}
+
+class BufferedConnection extends RawConnection {
+    public buffered = 0;
+    public readonly frames: Frame[] = [];
+
+    constructor(manager: Manager) {
+        super(manager);
+        this.setRemoteNodeId("remote");
+    }
+
+    public getConnectionType(): RawConnectionType {
+        return RawConnectionType.WebClientSocket;
+    }
+
+    public getBufferedAmount(): number {
+        return this.buffered;
+    }
+
+    protected _sendRaw(frame: Frame): void {
+        this.frames.push(frame);
+    }
+
+    public open(): void {
+        this.connected();
+    }
+
+    public lose(): void {
+        this.startReconnecting();
+    }
+
+    public recover(): void {
+        this.reconnected();
+    }
+}
+
+class ReceivingConnection extends BufferedConnection {
+    public readonly received: Message[] = [];
+
+    public deliver(data: unknown): void {
+        this.receiveFrame(data);
+    }
+
+    protected receive(message: Message): void {
+        this.received.push(message);
+    }
+}
+
 @serializable
 class Sample {
     a?: string;
@@ -212,6 +1002,7 @@ class Sample {
     b?: string;
     @transient
     c?: string;
+    d?: Uint8Array;
 }
 
 @serializable
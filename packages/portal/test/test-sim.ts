@@ -0,0 +1,823 @@
+import assert = require("assert");
+import {
+    Cleaner,
+    ConnectionRequest,
+    FaultContext,
+    HelloAuth,
+    IdentityKeyPair,
+    IdentityUtils,
+    Logger,
+    Manager,
+    ManagerRejectReasons,
+    MemoryStorage,
+    NodeIdentity,
+    Path,
+    PeerConnection,
+    RawConnectionType,
+    RelayUpgradeNotify,
+    ResumeRequest,
+    SimNetwork,
+    SimulatedConnection,
+    StorageUtils,
+    StreamAbortedError,
+    StreamFrame,
+    StreamFrameType,
+    VirtualClock,
+    serializable,
+} from "@web-overlay/manager";
+import {
+    DummyReply,
+    DummyRequest,
+    DummyRequestPattern,
+    receivedTexts,
+    TextMessage,
+} from "./common";
+import { FileStorage, PeerStreamDuplex } from "..";
+import * as fs from "fs";
+import * as os from "os";
+import * as pathModule from "path";
+
+const logger = new Logger("test", "test", "");
+let cleaner = new Cleaner(logger);
+
+@serializable
+class SimConnectionRequest extends ConnectionRequest {
+    constructor(manager: Manager, localKey: string, public remoteKey: string) {
+        super(manager, localKey);
+    }
+
+    protected onReceive(): void {
+        this.accept(this.remoteKey).catch((err) => {
+            logger.info("SimConnectionRequest: accept failed: %s", err);
+        });
+    }
+}
+
+function connect(
+    from: Manager,
+    to: Manager,
+    via: Manager
+): Promise<PeerConnection> {
+    const req = new SimConnectionRequest(
+        from,
+        from.getNodeId(),
+        to.getNodeId()
+    );
+    return req.connect(
+        new Path([from.getNodeId(), via.getNodeId(), to.getNodeId()])
+    );
+}
+
+class CalcService {
+    public async add(a: number, b: number): Promise<number> {
+        return a + b;
+    }
+
+    public async fail(message: string): Promise<void> {
+        throw new Error(message);
+    }
+
+    public async circular(): Promise<unknown> {
+        const obj: { self?: unknown } = {};
+        obj.self = obj;
+        return obj;
+    }
+}
+
+describe("SimNetwork", () => {
+    let net: SimNetwork;
+
+    beforeEach(() => {
+        net = new SimNetwork();
+        cleaner.push(() => net.destroy());
+    });
+
+    afterEach(() => {
+        cleaner.clean();
+        cleaner = new Cleaner(logger);
+    });
+
+    it("connect to a portal node", async () => {
+        net.setDefaultLink({ latency: 50 });
+        const portal = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m = net.createManager({ NODE_ID: "P1" });
+        const pc = await m.connectPortal("sim://P0");
+        assert(pc.getRawConnection() instanceof SimulatedConnection);
+        assert.strictEqual(pc.getRemoteNodeId(), portal.getNodeId());
+        const start = Date.now();
+        const result = await new DummyRequest(
+            m,
+            DummyRequestPattern.NORMAL
+        ).request(pc);
+        assert(result instanceof DummyReply);
+        assert(Date.now() - start >= 100);
+    });
+
+    it("connect to an unknown or unreachable portal fails", async () => {
+        net.setReachabilityRule((from, to) => !(from === "P1" && to === "P0"));
+        net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const conf = { REPLY_TIMEOUT: 500 };
+        const m1 = net.createManager({ ...conf, NODE_ID: "P1" });
+        const m2 = net.createManager({ ...conf, NODE_ID: "P2" });
+        await assert.rejects(m1.connectPortal("sim://P0"));
+        await assert.rejects(m1.connectPortal("sim://unknown"));
+        await m2.connectPortal("sim://P0");
+    });
+
+    it("HelloAuth is accepted only as the answer to Hello", async () => {
+        const conf = { NETWORK_KEY: "secret", REPLY_TIMEOUT: 500 };
+        net.createManager({ ...conf, NODE_ID: "P0" }, "sim://P0");
+        const m = net.createManager({ ...conf, NODE_ID: "P1" });
+        const pc = await m.connectPortal("sim://P0");
+        // the challenge has been consumed by the first HelloAuth
+        const auth = new HelloAuth(m, IdentityUtils.createNonce(), undefined, {
+            mac: new Uint8Array(32),
+        });
+        const reply = await auth.request(pc.getRawConnection()!);
+        assert.strictEqual(reply.reply, "authentication failed");
+
+        // a node without an identity cannot claim a key-derived NodeID
+        const identity = await NodeIdentity.generate();
+        const fake = net.createManager({ ...conf, NODE_ID: identity.nodeId });
+        await assert.rejects(
+            fake.connectPortal("sim://P0"),
+            (err) => err.message === "node authentication is required"
+        );
+    });
+
+    it("frames are delivered in order under bandwidth limits", async () => {
+        net.setDefaultLink({ latency: () => Math.random() * 20 });
+        net.setLink("P1", "P0", { bandwidth: 100 * 1000 });
+        net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m = net.createManager({ NODE_ID: "P1" });
+        const pc = await m.connectPortal("sim://P0");
+        const results = await Promise.all(
+            [...Array(20)].map(() =>
+                new DummyRequest(m, DummyRequestPattern.NORMAL).request(pc)
+            )
+        );
+        results.forEach((r) => assert(r instanceof DummyReply));
+    });
+
+    it("frame loss is drawn from SimNetwork.random", async () => {
+        const a = SimNetwork.seededRandom(1);
+        const b = SimNetwork.seededRandom(1);
+        const seq = [...Array(10)].map(() => a());
+        assert.deepStrictEqual(
+            seq,
+            [...Array(10)].map(() => b())
+        );
+        seq.forEach((x) => assert(0 <= x && x < 1));
+
+        net.setDefaultLink({ loss: 0.5 });
+        net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const conf = { REPLY_TIMEOUT: 500 };
+        net.random = (): number => 0;
+        const m1 = net.createManager({ ...conf, NODE_ID: "P1" });
+        await assert.rejects(m1.connectPortal("sim://P0"));
+        net.random = (): number => 0.99;
+        const m2 = net.createManager({ ...conf, NODE_ID: "P2" });
+        await m2.connectPortal("sim://P0");
+    });
+
+    it("relay via a portal node when the accepting portal is unreachable", async () => {
+        net.setReachabilityRule((from, to) => !(from === "P1" && to === "P2"));
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({ NODE_ID: "P1", REPLY_TIMEOUT: 1000 });
+        const p2 = net.createManager({ NODE_ID: "P2" }, "sim://P2");
+        await m1.connectPortal("sim://P0");
+        await p2.connectPortal("sim://P0");
+        const pc = await connect(m1, p2, p0);
+        assert.strictEqual(pc.getConnectionType(), RawConnectionType.Relay);
+        assert.deepStrictEqual(pc.paths[0].asArray(), ["P1", "P0", "P2"]);
+    }).timeout(10000);
+
+    it("relay budget", async () => {
+        const r0 = net.createManager(
+            { NODE_ID: "R0", RELAY_MAX_PATHS: 1 },
+            "sim://R0"
+        );
+        const r1 = net.createManager(
+            { NODE_ID: "R1", ACT_AS_RELAY: false },
+            "sim://R1"
+        );
+        const [p1, p2, p3, p4] = [1, 2, 3, 4].map((i) =>
+            net.createManager({ NODE_ID: "P" + i })
+        );
+        for (const m of [p1, p2, p3, p4]) {
+            await m.connectPortal("sim://R0");
+            await m.connectPortal("sim://R1");
+        }
+        // R1 refuses to relay, so the path via R0 is used
+        const pc1 = await connect(p1, p2, r0);
+        assert.strictEqual(pc1.getConnectionType(), RawConnectionType.Relay);
+        assert.deepStrictEqual(
+            pc1.paths.map((p) => p.asArray()),
+            [["P1", "R0", "P2"]]
+        );
+        assert.strictEqual(r0.relayBudget.getRelayedPathCount(), 1);
+        assert(p1.relayBudget.isRefusingNode("R1"));
+        // R0 has no budget for another path
+        await assert.rejects(connect(p3, p4, r0));
+        assert.strictEqual(
+            r0.metrics.relayRejections.get({
+                reason: ManagerRejectReasons.RELAY_OVER_BUDGET,
+            }),
+            1
+        );
+        assert.strictEqual(
+            r1.metrics.relayRejections.get({
+                reason: ManagerRejectReasons.RELAY_IS_OFF,
+            }),
+            2
+        );
+        // the existing path is still available
+        const result = await new DummyRequest(
+            p1,
+            DummyRequestPattern.NORMAL
+        ).request(pc1);
+        assert(result instanceof DummyReply);
+    }).timeout(10000);
+
+    it("upgrade a relayed connection to a direct connection", async () => {
+        let reachable = false;
+        net.setReachabilityRule(
+            (from, to) => reachable || !(from === "P1" && to === "P2")
+        );
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({
+            NODE_ID: "P1",
+            REPLY_TIMEOUT: 1000,
+            RELAY_UPGRADE_INTERVAL: 100,
+        });
+        const p2 = net.createManager({ NODE_ID: "P2" }, "sim://P2");
+        await m1.connectPortal("sim://P0");
+        await p2.connectPortal("sim://P0");
+        const pc = await connect(m1, p2, p0);
+        assert.strictEqual(pc.getConnectionType(), RawConnectionType.Relay);
+        const upgraded = new Promise<RawConnectionType>((resolve) =>
+            m1.events.once("peerConnectionUpgraded", (_, type) => resolve(type))
+        );
+        // no direct connection is available yet
+        await new Promise((resolve) => setTimeout(resolve, 250));
+        assert.strictEqual(pc.getConnectionType(), RawConnectionType.Relay);
+        assert(m1.relayUpgradeHistory.getFailureCount("P2") > 0);
+        // a direct connection becomes available
+        reachable = true;
+        await m1.connectPortal("sim://P2");
+        assert.strictEqual(await upgraded, RawConnectionType.WebClientSocket);
+        assert.strictEqual(m1.relayUpgradeHistory.getFailureCount("P2"), 0);
+        const remote = p2.getPeerConnection(pc.remoteConnId!)!;
+        const result = await new DummyRequest(
+            m1,
+            DummyRequestPattern.NORMAL
+        ).request(pc);
+        assert(result instanceof DummyReply);
+        assert.deepStrictEqual(
+            pc.paths.map((p) => p.asArray()),
+            [["P1", "P2"]]
+        );
+        assert.strictEqual(
+            remote.getConnectionType(),
+            RawConnectionType.WebServerSocket
+        );
+    }).timeout(10000);
+
+    it("reject RelayUpgradeNotify from a third node", async () => {
+        net.setReachabilityRule((from, to) => !(from === "P1" && to === "P2"));
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({
+            NODE_ID: "P1",
+            RELAY_UPGRADE_INTERVAL: 60 * 1000,
+        });
+        const p2 = net.createManager({ NODE_ID: "P2" }, "sim://P2");
+        await m1.connectPortal("sim://P0");
+        await p2.connectPortal("sim://P0");
+        const pc = await connect(m1, p2, p0);
+        const remote = p2.getPeerConnection(pc.remoteConnId!)!;
+        assert.strictEqual(remote.getConnectionType(), RawConnectionType.Relay);
+        // P0 guesses the connId and claims that the PeerConnection has been
+        // upgraded to the RawConnection between P0 and P2
+        const notify = new RelayUpgradeNotify(p0);
+        notify.destination = new Path(["P0", "P2"], pc.remoteConnId);
+        await p0.getRawConnectionByNodeId("P2")!.send(notify);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        assert.strictEqual(remote.getConnectionType(), RawConnectionType.Relay);
+        const result = await new DummyRequest(
+            p2,
+            DummyRequestPattern.NORMAL
+        ).request(remote);
+        assert(result instanceof DummyReply);
+    }).timeout(10000);
+
+    it("resume a PeerConnection after losing its path", async () => {
+        let reachable = false;
+        net.setReachabilityRule(
+            (from, to) => reachable || !(from === "P1" && to === "P2")
+        );
+        const conf = { RESUME_TIMEOUT: 3000, RESUME_RETRY_INTERVAL: 100 };
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({
+            ...conf,
+            NODE_ID: "P1",
+            REPLY_TIMEOUT: 2000,
+        });
+        const p2 = net.createManager({ ...conf, NODE_ID: "P2" }, "sim://P2");
+        await m1.connectPortal("sim://P0");
+        await p2.connectPortal("sim://P0");
+        const pc = await connect(m1, p2, p0);
+        const remote = p2.getPeerConnection(pc.remoteConnId!)!;
+        const events: string[] = [];
+        const resuming = new Promise<void>((resolve) =>
+            m1.events.once("peerConnectionResuming", () => resolve())
+        );
+        m1.events.on("peerConnectionResuming", () => events.push("resuming"));
+        m1.events.on("peerConnectionResumed", (_, path) =>
+            events.push("resumed:" + path.asArray())
+        );
+        m1.events.on(
+            "peerConnectionClosed",
+            (c) => c === pc && events.push("closed")
+        );
+        reachable = true;
+        // the relay node leaves
+        p0.destroy();
+        await resuming;
+        assert(pc.isResuming());
+        assert(remote.isConnected());
+        // sent after resumption
+        const result = await new DummyRequest(
+            m1,
+            DummyRequestPattern.NORMAL
+        ).request(pc);
+        assert(result instanceof DummyReply);
+        assert.deepStrictEqual(events, ["resuming", "resumed:P1,P2"]);
+        assert(pc.isConnected() && !pc.isResuming());
+        assert(remote.isConnected() && !remote.isResuming());
+        assert.deepStrictEqual(
+            pc.paths.map((p) => p.asArray()),
+            [["P1", "P2"]]
+        );
+    }).timeout(10000);
+
+    it("ResumeRequest requires the resumption secret", async () => {
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({ NODE_ID: "P1" });
+        const p2 = net.createManager({ NODE_ID: "P2" }, "sim://P2");
+        await m1.connectPortal("sim://P0");
+        await p2.connectPortal("sim://P0");
+        const pc = await connect(m1, p2, p0);
+        const remote = p2.getPeerConnection(pc.remoteConnId!)!;
+        assert.deepStrictEqual(pc.resumeSecret, remote.resumeSecret);
+        const resume = async (): Promise<boolean> =>
+            (await new ResumeRequest(m1, pc).request(pc)).ok;
+        assert(await resume());
+        // a node that knows only the connection IDs
+        pc.resumeSecret = IdentityUtils.createNonce();
+        assert(!(await resume()));
+    }).timeout(10000);
+
+    it("drop messages too far ahead of the expected sequence", () => {
+        const m = net.createManager({
+            NODE_ID: "P1",
+            SEND_QUEUE_MAX_LENGTH: 3,
+        });
+        const pc = m.connectLoopback("k");
+        receivedTexts.delete("P1");
+        const receive = (seq: number, text: string): void => {
+            const msg = new TextMessage(m, text);
+            msg.sequence = seq;
+            pc.onReceive(msg);
+        };
+        receive(3, "c");
+        // the sender cannot have sent this one yet
+        receive(4, "d");
+        receive(1, "a");
+        receive(2, "b");
+        assert.strictEqual(receivedTexts.get("P1"), "a,b,c");
+        receive(4, "d");
+        assert.strictEqual(receivedTexts.get("P1"), "a,b,c,d");
+    });
+
+    it("give up resuming after RESUME_TIMEOUT", async () => {
+        net.setReachabilityRule((from, to) => !(from === "P1" && to === "P2"));
+        const conf = { RESUME_TIMEOUT: 300, RESUME_RETRY_INTERVAL: 100 };
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({
+            ...conf,
+            NODE_ID: "P1",
+            REPLY_TIMEOUT: 1000,
+        });
+        const p2 = net.createManager({ ...conf, NODE_ID: "P2" }, "sim://P2");
+        await m1.connectPortal("sim://P0");
+        await p2.connectPortal("sim://P0");
+        const pc = await connect(m1, p2, p0);
+        const closed = new Promise<void>((resolve) =>
+            m1.events.on("peerConnectionClosed", (c) => c === pc && resolve())
+        );
+        const resuming = new Promise<void>((resolve) =>
+            m1.events.once("peerConnectionResuming", () => resolve())
+        );
+        p0.destroy();
+        await resuming;
+        const sent = pc.send(new DummyRequest(m1, DummyRequestPattern.NORMAL));
+        await closed;
+        assert(!pc.isConnected());
+        await assert.rejects(sent);
+    }).timeout(10000);
+
+    it("reliable delivery over a lossy link", async () => {
+        net.setDefaultLink({ latency: 10 });
+        const conf = {
+            RELIABLE_RETRANSMIT_TIMEOUT: 100,
+            RELIABLE_MAX_RETRANSMITS: 10,
+        };
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({ ...conf, NODE_ID: "P1" });
+        const m2 = net.createManager({ ...conf, NODE_ID: "P2" });
+        await m1.connectPortal("sim://P0");
+        await m2.connectPortal("sim://P0");
+        const pc = await connect(m1, m2, p0);
+        pc.enableReliableDelivery();
+        // drop every third TextMessage sent from P1
+        let n = 0;
+        m1.faults.random = (): number => (n++ % 3 === 0 ? 0 : 0.99);
+        m1.faults.add({
+            direction: "outgoing",
+            messageClass: TextMessage.name,
+            drop: 0.5,
+        });
+        m2.faults.add({ direction: "incoming", reorder: 0.3 });
+        receivedTexts.delete("P2");
+        const texts = [...Array(20)].map((_, i) => `${i}`);
+        texts.forEach((text) => pc.send(new TextMessage(m1, text)));
+        for (let i = 0; i < 50; i++) {
+            if (receivedTexts.get("P2") === texts.join(",")) {
+                break;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+        assert.strictEqual(receivedTexts.get("P2"), texts.join(","));
+        assert(pc.isConnected());
+    }).timeout(10000);
+
+    it("streams over a PeerConnection", async () => {
+        const conf = { STREAM_WINDOW_SIZE: 4096, STREAM_CHUNK_SIZE: 1000 };
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({ ...conf, NODE_ID: "P1" });
+        const m2 = net.createManager({ ...conf, NODE_ID: "P2" });
+        await m1.connectPortal("sim://P0");
+        await m2.connectPortal("sim://P0");
+        const pc = await connect(m1, m2, p0);
+        const remote = m2.getPeerConnection(pc.remoteConnId!)!;
+        let abortedResolve: (err: Error) => void;
+        const aborted = new Promise<Error>((resolve) => {
+            abortedResolve = resolve;
+        });
+        remote.onStream((stream) => {
+            if (stream.name === "echo") {
+                const duplex = new PeerStreamDuplex(stream);
+                duplex.pipe(duplex);
+            } else {
+                stream.readable.getReader().read().catch(abortedResolve);
+            }
+        });
+        const data = new Uint8Array(20000).map((_, i) => i % 251);
+        const echo = pc.openStream("echo");
+        const writer = echo.writable.getWriter();
+        const writing = writer.write(data).then(() => writer.close());
+        const reader = echo.readable.getReader();
+        const chunks: Buffer[] = [];
+        for (;;) {
+            const result = await reader.read();
+            if (result.done) {
+                break;
+            }
+            assert(result.value.length <= 1000);
+            chunks.push(Buffer.from(result.value));
+        }
+        await writing;
+        assert.deepStrictEqual(Buffer.concat(chunks), Buffer.from(data));
+        // aborting is propagated to the remote end
+        await pc.openStream("abort").writable.abort("oops");
+        assert((await aborted) instanceof StreamAbortedError);
+    }).timeout(10000);
+
+    it("abort streams that exceed the credit or are not taken", async () => {
+        const conf = {
+            STREAM_WINDOW_SIZE: 4096,
+            STREAM_MAX_PENDING: 1,
+            STREAM_PENDING_TIMEOUT: 300,
+        };
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({ ...conf, NODE_ID: "P1" });
+        const m2 = net.createManager({ ...conf, NODE_ID: "P2" });
+        await m1.connectPortal("sim://P0");
+        await m2.connectPortal("sim://P0");
+        const pc = await connect(m1, m2, p0);
+        const aborted = (name: string): Promise<string> =>
+            pc
+                .openStream(name)
+                .readable.getReader()
+                .read()
+                .then(
+                    () => "not aborted",
+                    (err) => {
+                        assert(err instanceof StreamAbortedError);
+                        return err.message;
+                    }
+                );
+        // the remote end does not take the streams
+        const pending = aborted("pending");
+        const rejected = aborted("rejected");
+        assert.strictEqual(
+            await rejected,
+            "aborted by the remote end: too many pending streams"
+        );
+        assert.strictEqual(
+            await pending,
+            "aborted by the remote end: not taken by the application"
+        );
+        // a DATA frame beyond the granted window
+        const remote = m2.getPeerConnection(pc.remoteConnId!)!;
+        remote.onStream(() => undefined);
+        const overrun = aborted("overrun");
+        await pc.send(
+            new StreamFrame(
+                m1,
+                "overrun",
+                StreamFrameType.DATA,
+                new Uint8Array(4097)
+            )
+        );
+        assert.strictEqual(
+            await overrun,
+            "aborted by the remote end: flow control violation"
+        );
+    }).timeout(10000);
+
+    it("RPC over a PeerConnection", async () => {
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({ NODE_ID: "P1" });
+        const m2 = net.createManager({ NODE_ID: "P2" });
+        await m1.connectPortal("sim://P0");
+        await m2.connectPortal("sim://P0");
+        const pc = await connect(m1, m2, p0);
+        const remote = m2.getPeerConnection(pc.remoteConnId!)!;
+        m2.registerService(remote.getLocalKey(), "calc", new CalcService());
+        const calc = pc.createRpcClient<CalcService>("calc");
+        assert.strictEqual(await calc.add(1, 2), 3);
+        // errors are mapped back
+        await assert.rejects(calc.fail("oops"), { message: "oops" });
+        // a result that cannot be serialized is reported as an error
+        await assert.rejects(calc.circular(), /circular structure/);
+        const none = pc.createRpcClient<CalcService>("none");
+        await assert.rejects(none.add(1, 2), {
+            message: "no such service: none",
+        });
+    }).timeout(10000);
+
+    it("connection lifecycle events", async () => {
+        const p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m1 = net.createManager({ NODE_ID: "P1", REPLY_TIMEOUT: 1000 });
+        const p2 = net.createManager({ NODE_ID: "P2" }, "sim://P2");
+        net.setReachabilityRule((from, to) => !(from === "P1" && to === "P2"));
+        const events: string[] = [];
+        m1.events.on("rawConnected", (raw) =>
+            events.push("rawConnected:" + raw.getRemoteNodeId())
+        );
+        m1.events.on("rawDisconnected", (raw) =>
+            events.push("rawDisconnected:" + raw.getRemoteNodeId())
+        );
+        m1.events.on("peerConnectionEstablished", (pc, type) =>
+            events.push(
+                `established:${pc.getRemoteNodeId()}:${RawConnectionType[type]}`
+            )
+        );
+        m1.events.on("peerConnectionClosed", (pc) =>
+            events.push("closed:" + pc.getRemoteNodeId())
+        );
+        m1.events.on("relayPathAdded", (pc, path) =>
+            events.push("relayPathAdded:" + path.asArray())
+        );
+        m1.events.on("portalCacheChanged", (urls) =>
+            events.push("portalCacheChanged:" + urls)
+        );
+        await m1.connectPortal("sim://P0");
+        await p2.connectPortal("sim://P0");
+        const pc = await connect(m1, p2, p0);
+        pc.close();
+        assert.deepStrictEqual(events, [
+            "rawConnected:P0",
+            "established:P0:WebClientSocket",
+            "portalCacheChanged:sim://P0",
+            "relayPathAdded:P1,P0,P2",
+            "established:P2:Relay",
+            "closed:P2",
+        ]);
+        events.length = 0;
+        p0.destroy();
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        assert(events.includes("rawDisconnected:P0"));
+    }).timeout(10000);
+
+    it("restore the state from a storage", async () => {
+        const dir = fs.mkdtempSync(pathModule.join(os.tmpdir(), "webol-"));
+        const file = pathModule.join(dir, "state.json");
+        cleaner.push(() => {
+            fs.unlinkSync(file);
+            fs.rmdirSync(dir);
+        });
+        const storage = new FileStorage(file);
+        net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        net.createManager({ NODE_ID: "P9" }, "sim://P9").destroy();
+
+        const conf1 = await StorageUtils.prepareConfig({
+            STORAGE: storage,
+            REPLY_TIMEOUT: 500,
+        });
+        const m1 = net.createManager(conf1);
+        await m1.connectPortal("sim://P0");
+        await assert.rejects(m1.connectPortal("sim://P9"));
+        m1._registerSuspiciousNode("X");
+        await m1.saveState();
+        m1.destroy();
+
+        // reload
+        const conf2 = await StorageUtils.prepareConfig({ STORAGE: storage });
+        const m2 = net.createManager(conf2);
+        assert.strictEqual(m2.getNodeId(), m1.getNodeId());
+        assert.deepStrictEqual(m2.getPortalURLs().sort(), [
+            "sim://P0",
+            "sim://P9",
+        ]);
+        assert(m2.isSuspiciousNode("X"));
+        // the dead portal is tried later
+        const pc = await m2.connectAnyPortal();
+        assert.strictEqual(pc.getRemoteNodeId(), "P0");
+        await m2.saveState();
+        m2.destroy();
+    });
+
+    it("store the identity without exporting the private key", async () => {
+        // stores key pairs as is, like IndexedDBStorage
+        class KeyPairStorage extends MemoryStorage {
+            public readonly pairs = new Map<string, IdentityKeyPair>();
+
+            public async getIdentity(
+                key: string
+            ): Promise<NodeIdentity | undefined> {
+                const pair = this.pairs.get(key);
+                return pair ? NodeIdentity.fromKeyPair(pair) : undefined;
+            }
+
+            public async setIdentity(
+                key: string,
+                identity: NodeIdentity
+            ): Promise<void> {
+                this.pairs.set(key, identity.getKeyPair());
+            }
+        }
+        const storage = new KeyPairStorage();
+        const conf1 = await StorageUtils.prepareConfig({ STORAGE: storage });
+        const nodeId = conf1.NODE_IDENTITY?.nodeId;
+        assert(nodeId);
+        const m1 = net.createManager(conf1);
+        assert.strictEqual(m1.getNodeId(), nodeId);
+        await m1.saveState();
+        m1.destroy();
+        const saved = await storage.get(StorageUtils.getKey(conf1));
+        assert(saved && JSON.parse(saved).identity === undefined);
+
+        const conf2 = await StorageUtils.prepareConfig({ STORAGE: storage });
+        assert.strictEqual(conf2.NODE_IDENTITY?.nodeId, nodeId);
+    });
+
+    it("run on a virtual clock", async () => {
+        const clock = new VirtualClock();
+        net = new SimNetwork(clock);
+        cleaner.push(() => net.destroy());
+        net.setDefaultLink({ latency: 2000 });
+        net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const m = net.createManager({
+            NODE_ID: "P1",
+            ACK_TIMEOUT: 10 * 1000,
+            REPLY_TIMEOUT: 10 * 1000,
+        });
+        const start = Date.now();
+        const vstart = clock.now();
+        const pc = await clock.run(m.connectPortal("sim://P0"));
+        const result = await clock.run(
+            new DummyRequest(m, DummyRequestPattern.NORMAL).request(pc)
+        );
+        assert(result instanceof DummyReply);
+        assert(clock.now() - vstart >= 4 * 2000);
+        // idle connections are closed in virtual time
+        await clock.advance(
+            m.config.MAX_IDLE_TIME_BEFORE_RAW_CLOSE + 60 * 1000
+        );
+        assert(!pc.getRawConnection()?.isConnected());
+        assert(Date.now() - start < 5000);
+    });
+
+    it("relay paths among many nodes", async () => {
+        const num = 100;
+        net.setDefaultLink({ latency: () => 5 + Math.random() * 10 });
+        const portal = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+        const managers: Manager[] = [];
+        for (let i = 1; i <= num; i++) {
+            managers.push(net.createManager({ NODE_ID: "P" + i }));
+        }
+        await Promise.all(managers.map((m) => m.connectPortal("sim://P0")));
+        const pcs = await Promise.all(
+            managers.map((m, i) => connect(m, managers[(i + 1) % num], portal))
+        );
+        for (const pc of pcs) {
+            assert.strictEqual(pc.getConnectionType(), RawConnectionType.Relay);
+            const result = await new DummyRequest(
+                pc.getManager(),
+                DummyRequestPattern.NORMAL
+            ).request(pc);
+            assert(result instanceof DummyReply);
+        }
+    }).timeout(30000);
+
+    describe("fault injection", () => {
+        let p0: Manager;
+        let m: Manager;
+        let pc: PeerConnection;
+
+        beforeEach(async () => {
+            net.setDefaultLink({ latency: 10 });
+            p0 = net.createManager({ NODE_ID: "P0" }, "sim://P0");
+            m = net.createManager({ NODE_ID: "P1", REPLY_TIMEOUT: 500 });
+            pc = await m.connectPortal("sim://P0");
+        });
+
+        function request(): Promise<DummyReply> {
+            return new DummyRequest(m, DummyRequestPattern.NORMAL).request(pc);
+        }
+
+        it("asymmetric partition", async () => {
+            const received: string[] = [];
+            p0.faults.add({
+                direction: "incoming",
+                filter: (ctx: FaultContext): boolean => {
+                    received.push(ctx.messageClass);
+                    return false;
+                },
+            });
+            p0.faults.add({
+                remoteNodeId: "P1",
+                direction: "outgoing",
+                drop: 1,
+            });
+            await assert.rejects(request());
+            assert(received.includes(DummyRequest.name));
+        });
+
+        it("drop by message class", async () => {
+            const rule = m.faults.add({
+                messageClass: DummyRequest.name,
+                drop: 1,
+            });
+            await assert.rejects(request());
+            m.faults.remove(rule);
+            assert(!m.faults.isActive());
+            assert((await request()) instanceof DummyReply);
+        });
+
+        it("delay and duplicate", async () => {
+            p0.faults.add({ direction: "outgoing", delay: 200, duplicate: 1 });
+            const start = Date.now();
+            assert((await request()) instanceof DummyReply);
+            assert(Date.now() - start >= 200);
+        });
+
+        it("delayed copies are encoded when written", async () => {
+            const sent = (): number =>
+                m.metrics.messagesSent.get({ class: DummyRequest.name });
+            m.faults.add({
+                direction: "outgoing",
+                messageClass: DummyRequest.name,
+                delay: 200,
+            });
+            const reply = request();
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            assert.strictEqual(sent(), 0);
+            assert((await reply) instanceof DummyReply);
+            assert.strictEqual(sent(), 1);
+        });
+
+        it("reorder", async () => {
+            m.faults.add({
+                connectionType: pc.getConnectionType(),
+                reorder: 0.5,
+            });
+            const results = await Promise.all(
+                [...Array(10)].map(() => request())
+            );
+            results.forEach((r) => assert(r instanceof DummyReply));
+        });
+    });
+});